@@ -1,10 +1,14 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useConnection, useToolboxEvents } from './hooks/useToolboxAPI';
 import { GlobalAuditSettings } from './components/global-settings/GlobalAuditSettings';
+import { AuditLogCleanup } from './components/global-settings/AuditLogCleanup';
 import { TableAuditManager } from './components/table-settings/TableAuditManager';
 import { AuditLogExplorer } from './components/audit-logs/AuditLogExplorer';
+import { EnvironmentComparison } from './components/environment-compare/EnvironmentComparison';
 import { ErrorBoundary } from './components/common/ErrorBoundary';
-import { logAvailableAPIMethods } from './services/auditService';
+import { ChangeSetDrawer } from './components/change-set/ChangeSetDrawer';
+import { useAuditChangeSet } from './hooks/useAuditChangeSet';
+import { resetChangeDataFilterSupport } from './services/auditLogService';
 import type { AuditView } from './model/audit';
 
 // Icons as SVG components
@@ -22,6 +26,14 @@ const TableIcon = ({ className = '' }: { className?: string }) => (
   </svg>
 );
 
+const CompareIcon = ({ className = '' }: { className?: string }) => (
+  <svg className={className} width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <rect x="3" y="4" width="7" height="16" rx="1" />
+    <rect x="14" y="4" width="7" height="16" rx="1" />
+    <path d="M10 12h4" />
+  </svg>
+);
+
 const PlugDisconnectedIcon = ({ className = '' }: { className?: string }) => (
   <svg className={className} width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <path d="M2 2l20 20M7 7l-4 4 6 6 4-4M17 17l4-4-6-6-4 4" />
@@ -99,27 +111,33 @@ function App() {
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   const [activeView, setActiveView] = useState<AuditView>('logs');
   const [auditTab, setAuditTab] = useState<AuditTab>('details');
+  const changeSet = useAuditChangeSet(connection);
+  const { discardChanges } = changeSet;
 
   // Handle platform events
   const handleEvent = useCallback(
     (event: string, _data: unknown) => {
       switch (event) {
         case 'connection:updated':
+          // Pending audit changes belong to the previous connection
+          discardChanges();
+          refreshConnection();
+          break;
         case 'connection:created':
         case 'connection:deleted':
           refreshConnection();
           break;
       }
     },
-    [refreshConnection]
+    [refreshConnection, discardChanges]
   );
 
   useToolboxEvents(handleEvent);
 
-  // Log available API methods on startup for debugging
+  // Whether the server accepts the change value search is detected per environment
   useEffect(() => {
-    logAvailableAPIMethods();
-  }, []);
+    resetChangeDataFilterSupport();
+  }, [connection?.url]);
 
   // Get theme from Toolbox API and apply to document
   useEffect(() => {
@@ -185,15 +203,18 @@ function App() {
 
     switch (activeView) {
       case 'logs':
-        return <AuditLogExplorer isConnected={!!connection} selectedTab={auditTab} />;
+        return <AuditLogExplorer isConnected={!!connection} selectedTab={auditTab} onTabChange={setAuditTab} />;
       case 'global':
         return (
-          <div className="p-6 overflow-auto">
-            <GlobalAuditSettings />
+          <div className="p-6 overflow-auto flex flex-col gap-6">
+            <GlobalAuditSettings changeSet={changeSet} />
+            <AuditLogCleanup />
           </div>
         );
       case 'tables':
-        return <TableAuditManager />;
+        return <TableAuditManager changeSet={changeSet} />;
+      case 'compare':
+        return <EnvironmentComparison changeSet={changeSet} />;
       default:
         return null;
     }
@@ -203,6 +224,7 @@ function App() {
     { value: 'logs', label: 'Audit Logs', icon: HistoryIcon },
     { value: 'global', label: 'Global Settings', icon: ShieldCheckmarkIcon },
     { value: 'tables', label: 'Table Settings', icon: TableIcon },
+    { value: 'compare', label: 'Compare Environments', icon: CompareIcon },
   ];
 
   const auditTabs = [
@@ -224,6 +246,15 @@ function App() {
           Audit Manager
         </h1>
         <div className="flex items-center gap-2">
+          {connection && (
+            <button
+              className={changeSet.changes.length > 0 ? 'btn-primary' : 'btn-subtle'}
+              onClick={changeSet.openReview}
+              title="Review, apply and roll back audit configuration changes"
+            >
+              Pending changes ({changeSet.changes.length})
+            </button>
+          )}
           {connection ? (
             <span
               className="badge badge-success"
@@ -286,6 +317,9 @@ function App() {
           {renderContent()}
         </ErrorBoundary>
       </main>
+
+      {/* Pending audit configuration changes */}
+      <ChangeSetDrawer changeSet={changeSet} />
     </div>
   );
 }
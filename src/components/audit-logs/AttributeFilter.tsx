@@ -55,7 +55,10 @@ export const AttributeFilter: React.FC<AttributeFilterProps> = ({
     });
   }, [selectedAttributes, attributes]);
 
-  const handleToggle = useCallback((logicalName: string) => {
+  const handleToggle = useCallback((attr: AttributeOption) => {
+    const { logicalName } = attr;
+    // attributemask only identifies columns by their column number
+    if (typeof attr.columnNumber !== 'number') return;
     if (selectedAttributes.includes(logicalName)) {
       onSelectionChange(selectedAttributes.filter(a => a !== logicalName));
     } else {
@@ -123,16 +126,19 @@ export const AttributeFilter: React.FC<AttributeFilterProps> = ({
               <div className="p-1">
                 {filteredAttributes.map(attr => {
                   const isSelected = selectedAttributes.includes(attr.logicalName);
+                  const isSelectable = typeof attr.columnNumber === 'number';
                   return (
                     <div
                       key={attr.logicalName}
-                      className={`flex items-center gap-2 px-3 py-2 rounded cursor-pointer hover:bg-background-2 ${isSelected ? 'bg-background-2' : ''}`}
-                      onClick={() => handleToggle(attr.logicalName)}
+                      className={`flex items-center gap-2 px-3 py-2 rounded ${isSelectable ? 'cursor-pointer hover:bg-background-2' : 'opacity-50 cursor-not-allowed'} ${isSelected ? 'bg-background-2' : ''}`}
+                      onClick={() => handleToggle(attr)}
+                      title={isSelectable ? undefined : 'This column has no column number, so audit logs cannot be filtered by it'}
                     >
                       <input
                         type="checkbox"
                         checked={isSelected}
                         onChange={() => {}}
+                        disabled={!isSelectable}
                         className="w-4 h-4 rounded border-stroke-1"
                       />
                       <div className="flex items-center gap-2">
@@ -11,7 +11,10 @@ import {
 } from '../../model/auditLog';
 import { formatDateTime } from '../../utils/formatters';
 import { getOperationColor } from '../../utils/auditHelpers';
+import { canRevertEntry } from '../../services/revertService';
+import { canRecreateEntry } from '../../services/recreateService';
 import { DismissIcon } from '../common/Icons';
+import { HighlightText } from '../common/HighlightText';
 
 interface AuditDetailsDialogProps {
   entry: AuditLogEntry | null;
@@ -21,6 +24,10 @@ interface AuditDetailsDialogProps {
   onClose: () => void;
   tableDisplayName?: string;
   selectedTab?: string;
+  onRevert?: (entry: AuditLogEntry) => void;
+  onRecreate?: (entry: AuditLogEntry) => void;
+  onCopyLink?: (entry: AuditLogEntry) => void;
+  highlightText?: string;
 }
 
 // Map operation color to Tailwind class
@@ -48,6 +55,10 @@ export const AuditDetailsDialog: React.FC<AuditDetailsDialogProps> = ({
   onClose,
   tableDisplayName,
   selectedTab,
+  onRevert,
+  onRecreate,
+  onCopyLink,
+  highlightText,
 }) => {
   if (!isOpen || !entry) return null;
 
@@ -104,7 +115,7 @@ export const AuditDetailsDialog: React.FC<AuditDetailsDialogProps> = ({
       return <span className="text-foreground-4 italic">(empty)</span>;
     }
 
-    return displayValue;
+    return <HighlightText text={displayValue} highlight={highlightText} />;
   };
 
   // Render share details
@@ -485,6 +496,29 @@ export const AuditDetailsDialog: React.FC<AuditDetailsDialogProps> = ({
           {renderContent()}
         </div>
         <div className="dialog-footer">
+          {onCopyLink && (
+            <button className="btn-secondary" onClick={() => onCopyLink(entry)}>
+              Copy link
+            </button>
+          )}
+          {onRevert && canRevertEntry(entry) && (
+            <button
+              className="btn-secondary"
+              onClick={() => onRevert(entry)}
+              disabled={isLoading || !details?.some(d => d.type === 'attribute')}
+            >
+              Revert these changes
+            </button>
+          )}
+          {onRecreate && canRecreateEntry(entry) && (
+            <button
+              className="btn-secondary"
+              onClick={() => onRecreate(entry)}
+              disabled={isLoading || !details?.some(d => d.type === 'attribute')}
+            >
+              Recreate record
+            </button>
+          )}
           <button className="btn-secondary" onClick={onClose}>
             Close
           </button>
@@ -1,6 +1,7 @@
 import React, { useCallback, useState, useEffect, useRef } from 'react';
-import { operationOptions } from '../../utils/constants';
+import { operationOptions, SEARCH_DEBOUNCE_MS } from '../../utils/constants';
 import { DismissIcon, FilterIcon, ChevronDownIcon } from '../common/Icons';
+import { SearchInput } from '../common/SearchInput';
 
 interface ActionOption {
   value: number;
@@ -35,8 +36,33 @@ interface AuditFiltersProps {
   selectedSecurityRoles?: SelectedItem[];
   onSecurityRolesChange?: (roles: SelectedItem[]) => void;
   showSecurityRoleFilter?: boolean;
+  // Search in old and new change values (only for details tab)
+  searchText?: string;
+  onSearchTextChange?: (text: string) => void;
+  isSearchingChanges?: boolean;
 }
 
+interface ChangeValueSearchProps {
+  value: string;
+  onChange: (text: string) => void;
+  isSearching?: boolean;
+}
+
+/**
+ * Search box for text in old and new change values, with a spinner while page details load
+ */
+export const ChangeValueSearch: React.FC<ChangeValueSearchProps> = ({ value, onChange, isSearching = false }) => (
+  <div className="flex items-center gap-2 flex-1">
+    <SearchInput
+      value={value}
+      onChange={onChange}
+      placeholder="Search changed values..."
+      debounceMs={SEARCH_DEBOUNCE_MS}
+    />
+    {isSearching && <div className="spinner spinner-sm text-blue-600" />}
+  </div>
+);
+
 // Dropdown component for multiselect
 interface MultiSelectDropdownProps {
   label: string;
@@ -247,6 +273,9 @@ export const AuditFilters: React.FC<AuditFiltersProps> = ({
   selectedSecurityRoles = [],
   onSecurityRolesChange,
   showSecurityRoleFilter = false,
+  searchText = '',
+  onSearchTextChange,
+  isSearchingChanges = false,
 }) => {
   const [userSearchTerm, setUserSearchTerm] = useState('');
   const [userSearchResults, setUserSearchResults] = useState<SelectedItem[]>([]);
@@ -409,7 +438,8 @@ export const AuditFilters: React.FC<AuditFiltersProps> = ({
     fromDate !== null ||
     toDate !== null ||
     selectedUsers.length > 0 ||
-    selectedSecurityRoles.length > 0;
+    selectedSecurityRoles.length > 0 ||
+    searchText.trim() !== '';
 
   return (
     <div className="flex items-end gap-3 flex-wrap">
@@ -485,6 +515,13 @@ export const AuditFilters: React.FC<AuditFiltersProps> = ({
         />
       )}
 
+      {selectedTab === 'details' && onSearchTextChange && (
+        <div className="flex flex-col gap-1 min-w-[220px]">
+          <label className="text-xs font-semibold text-foreground-3">Changed Values</label>
+          <ChangeValueSearch value={searchText} onChange={onSearchTextChange} isSearching={isSearchingChanges} />
+        </div>
+      )}
+
       {hasFilters && (
         <button
           className="btn-subtle ml-auto flex items-center gap-1"
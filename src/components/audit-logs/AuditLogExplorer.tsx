@@ -1,16 +1,31 @@
-import React, { useCallback, useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import { useTableMetadata } from '../../hooks/useTableMetadata';
 import { useRecordSearch } from '../../hooks/useRecordSearch';
 import { useAuditLogs } from '../../hooks/useAuditLogs';
 import { useExport } from '../../hooks/useExport';
+import { useAttributeMetadata } from '../../hooks/useAttributeMetadata';
+import { useFilterPresets } from '../../hooks/useFilterPresets';
 import { RecordSearch } from './RecordSearch';
 import { RecordSearchResults } from './RecordSearchResults';
 import { AuditLogTable } from './AuditLogTable';
 import { Pagination } from './Pagination';
 import { ExportMenu } from './ExportMenu';
+import { AttributeFilter } from './AttributeFilter';
+import { FilterPresetMenu } from './FilterPresetMenu';
+import { ShareLinkMenu } from './ShareLinkMenu';
+import { AuditDetailsDialog } from './AuditDetailsDialog';
 import { FilterDismissIcon, ArrowSyncIcon } from '../common/Icons';
-import { ExportFormat } from '../../model/export';
-import { AuditAction, AuditOperation } from '../../model/auditLog';
+import { ChangeValueSearch } from './AuditFilters';
+import { ExportFormat, ExportResult } from '../../model/export';
+import {
+  AuditDetail,
+  AuditFilterPreset,
+  AuditLogEntry,
+  AuditViewState,
+} from '../../model/auditLog';
+import { resolvePresetFilters } from '../../services/filterPresetService';
+import { decodeAuditViewLink, encodeAuditViewLink } from '../../services/deepLinkService';
+import { getAuditDetails, getAuditLogEntry } from '../../services/auditLogService';
 import {
   commonActionOptions,
   shareActionOptions,
@@ -19,89 +34,29 @@ import {
   metadataActionOptions,
   relationshipActionOptions,
   auditChangeActionOptions,
+  auditTabFilters,
+  EXCLUDED_FROM_DETAILS,
 } from '../../utils/constants';
 
 // Tab types (also exported for App.tsx)
 export type AuditTab = 'details' | 'shares' | 'access' | 'roles' | 'metadata' | 'relationships' | 'auditchanges';
 
-// Actions for Record Shares tab
-const SHARE_ACTIONS = [
-  AuditAction.Share,       // 14 - GrantAccess
-  AuditAction.ModifyShare, // 48 - ModifyAccess
-  AuditAction.Unshare,     // 49 - RevokeAccess
-];
-
-// Actions for Security Role Changes tab
-const ROLE_ACTIONS = [
-  AuditAction.AddPrivilegesToRole,      // 57 - Privileges added to a security role
-  AuditAction.RemovePrivilegesFromRole, // 58 - Privileges removed from a security role
-  AuditAction.ReplacePrivilegesInRole,  // 59 - Privileges for a security role replaced
-];
-
-// Actions for User Access tab (also uses operation=4)
-const USER_ACCESS_ACTIONS = [
-  AuditAction.UserAccessViaWeb,         // 64
-  AuditAction.UserAccessViaWebServices, // 65
-  AuditAction.UserAccessAuditStarted,   // 112
-  AuditAction.UserAccessAuditStopped,   // 113
-];
-
-// Actions for Metadata Changes tab
-const METADATA_ACTIONS = [
-  100, // Delete Entity
-  101, // Delete Attribute
-  102, // Audit Change at Entity Level
-  103, // Audit Change at Attribute Level
-  104, // Audit Change at Org Level
-];
-
-// Actions for N:N Relationships tab (Associate/Disassociate and Role assignments)
-const RELATIONSHIP_ACTIONS = [
-  AuditAction.AssociateEntities,    // 33
-  AuditAction.DisassociateEntities, // 34
-  AuditAction.AssignRoleToTeam,     // 53
-  AuditAction.RemoveRoleFromTeam,   // 54
-  AuditAction.AssignRoleToUser,     // 55
-  AuditAction.RemoveRoleFromUser,   // 56
-];
-
-// Actions for Audit Changes tab (changes to audit settings)
-const AUDIT_CHANGE_ACTIONS = [
-  AuditAction.EntityAuditStarted,      // 105 - Table audit enabled
-  AuditAction.AttributeAuditStarted,   // 106 - Column audit enabled
-  AuditAction.AuditEnabled,            // 107 - Org audit enabled
-  AuditAction.EntityAuditStopped,      // 108 - Table audit disabled
-  AuditAction.AttributeAuditStopped,   // 109 - Column audit disabled
-  AuditAction.AuditDisabled,           // 110 - Org audit disabled
-  AuditAction.AuditLogDeletion,        // 111 - Audit log deleted
-];
-
-// Operations for non-access tabs (Create, Update, Delete - excludes Access)
-const NON_ACCESS_OPERATIONS = [
-  AuditOperation.Create,
-  AuditOperation.Update,
-  AuditOperation.Delete,
-];
-
-// Actions to exclude from main details tab (client-side filter)
-const EXCLUDED_FROM_DETAILS = [
-  ...SHARE_ACTIONS,
-  ...ROLE_ACTIONS,
-  ...USER_ACCESS_ACTIONS,
-  ...METADATA_ACTIONS,
-  ...RELATIONSHIP_ACTIONS,
-  ...AUDIT_CHANGE_ACTIONS,
-];
-
 interface AuditLogExplorerProps {
   isConnected: boolean;
   selectedTab: AuditTab;
+  onTabChange?: (tab: AuditTab) => void;
 }
 
-export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected, selectedTab }) => {
+export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected, selectedTab, onTabChange }) => {
   const [showAuditableOnly, setShowAuditableOnly] = React.useState(true);
   const [componentError, setComponentError] = React.useState<string | null>(null);
   const [filtersReady, setFiltersReady] = React.useState(false);
+  // View (from a preset or a shared link) waiting for its tab to be selected, applied after the tab defaults
+  const pendingViewRef = useRef<AuditViewState | null>(null);
+  // Audit entry opened from a shared link
+  const [linkedEntry, setLinkedEntry] = React.useState<AuditLogEntry | null>(null);
+  const [linkedDetails, setLinkedDetails] = React.useState<AuditDetail[] | undefined>(undefined);
+  const [isLoadingLinkedDetails, setIsLoadingLinkedDetails] = React.useState(false);
 
   // Catch any unhandled errors from effects
   useEffect(() => {
@@ -122,26 +77,54 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     detailsMap,
     isLoading: isLoadingLogs,
     isLoadingDetails,
+    isSearchingChanges,
     pagination,
     setPage,
     setPageSize,
+    restorePage,
+    jumpToDate,
+    canGoBack,
+    canGoForward,
+    goBack,
+    goForward,
     canNavigateToPage,
     sort,
     setSort,
+    setSortState,
     filters,
     setTables,
     setRecord,
+    setSelectedAttributes,
     setOperations,
     setActions,
     setFromDate,
     setToDate,
+    setRelativeDate,
     setUsers,
+    setBusinessUnits,
+    setTeams,
+    setUserRoles,
+    setSearchText,
+    setExcludedTables,
+    setExcludedOperations,
+    setExcludedActions,
+    setExcludedUsers,
+    setFilters,
     clearFilters,
     loadDetails,
     refresh,
     error,
   } = useAuditLogs(isConnected && filtersReady);
 
+  // Saved filter presets
+  const {
+    presets,
+    savePreset,
+    renamePreset,
+    duplicatePreset,
+    deletePreset,
+  } = useFilterPresets();
+
   // Record search
   const {
     searchTerm,
@@ -153,6 +136,12 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     clearSelection: clearRecordSelection,
   } = useRecordSearch(filters.tableLogicalNames.length === 1 ? filters.tableLogicalNames[0] : null);
 
+  // Attributes of the selected table, for the column filter (attributemask uses per-table column numbers)
+  const {
+    attributes,
+    isLoading: isLoadingAttributes,
+  } = useAttributeMetadata(filters.tableLogicalNames.length === 1 ? filters.tableLogicalNames[0] : null);
+
   // Filter entries for main details tab (exclude certain action types)
   const filteredEntries = useMemo(() => {
     return selectedTab === 'details'
@@ -160,8 +149,24 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
       : entries;
   }, [entries, selectedTab]);
 
+  // Date range covered by the current page, shown next to the pager
+  const pageDateWindow = useMemo(() => {
+    if (filteredEntries.length === 0) return null;
+    const times = filteredEntries.map(e => e.createdOn.getTime());
+    return { from: new Date(Math.min(...times)), to: new Date(Math.max(...times)) };
+  }, [filteredEntries]);
+
   // Export functionality - uses filters to fetch ALL matching records
-  const { isExporting, exportProgress, exportData } = useExport(filters, detailsMap, selectedTab);
+  const {
+    isExporting,
+    exportProgress,
+    exportData,
+    canCancel,
+    cancelExport,
+    resumableExport,
+    resumeExport,
+    discardResumableExport,
+  } = useExport(filters, detailsMap, selectedTab);
 
   // Create a map of table logical names to display names
   const tableDisplayNames = useMemo(() => {
@@ -193,41 +198,34 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     }
   }, [selectedTab]);
 
+  // Restore filters, sort and page of a saved or shared view on the current tab
+  const restoreView = useCallback((view: AuditViewState) => {
+    setFilters(view.filters);
+    setSortState(view.sort);
+    if (view.pageNumber || view.pageSize || view.anchorDate) {
+      restorePage(view.pageNumber ?? 1, view.pageSize, view.anchorDate);
+    }
+  }, [setFilters, setSortState, restorePage]);
+
   // Update filters when selectedTab changes
   useEffect(() => {
-    switch (selectedTab) {
-      case 'shares':
-        setOperations([]);
-        setActions(SHARE_ACTIONS);
-        break;
-      case 'access':
-        setOperations([]);
-        setActions(USER_ACCESS_ACTIONS);
-        break;
-      case 'roles':
-        setOperations([]);
-        setActions(ROLE_ACTIONS);
-        break;
-      case 'metadata':
-        setOperations([]);
-        setActions(METADATA_ACTIONS);
-        break;
-      case 'relationships':
-        setOperations([]);
-        setActions(RELATIONSHIP_ACTIONS);
-        break;
-      case 'auditchanges':
-        setOperations([]);
-        setActions(AUDIT_CHANGE_ACTIONS);
-        break;
-      case 'details':
-      default:
-        setOperations(NON_ACCESS_OPERATIONS);
-        setActions([]);
-        break;
+    const tabFilters = auditTabFilters[selectedTab];
+    setOperations(tabFilters.operations);
+    setActions(tabFilters.actions);
+    // Excluded operations and actions refer to the previous tab's options
+    setExcludedOperations([]);
+    setExcludedActions([]);
+    // Change value search is only offered on the data changes tab
+    if (selectedTab !== 'details') {
+      setSearchText('');
+    }
+    const pendingView = pendingViewRef.current;
+    if (pendingView?.tab === selectedTab) {
+      pendingViewRef.current = null;
+      restoreView(pendingView);
     }
     setFiltersReady(true);
-  }, [selectedTab, setOperations, setActions]);
+  }, [selectedTab, setOperations, setActions, setExcludedOperations, setExcludedActions, setSearchText, restoreView]);
 
   // Handle table selection
   const handleTableSelect = useCallback(
@@ -252,6 +250,17 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     [selectRecord, setRecord]
   );
 
+  // Handle attribute selection
+  const handleAttributesChange = useCallback(
+    (logicalNames: string[]) => {
+      // Columns without a column number are shown disabled in the picker and can't be selected
+      setSelectedAttributes(attributes.filter(a =>
+        logicalNames.includes(a.logicalName) && typeof a.columnNumber === 'number'
+      ));
+    },
+    [attributes, setSelectedAttributes]
+  );
+
   // Handle record clear
   const handleRecordClear = useCallback(() => {
     clearRecordSelection();
@@ -259,30 +268,10 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
   }, [clearRecordSelection, setRecord]);
 
   // Get default actions for the current tab
-  const getDefaultActionsForTab = useCallback(() => {
-    switch (selectedTab) {
-      case 'shares':
-        return SHARE_ACTIONS;
-      case 'access':
-        return USER_ACCESS_ACTIONS;
-      case 'roles':
-        return ROLE_ACTIONS;
-      case 'metadata':
-        return METADATA_ACTIONS;
-      case 'relationships':
-        return RELATIONSHIP_ACTIONS;
-      case 'auditchanges':
-        return AUDIT_CHANGE_ACTIONS;
-      case 'details':
-      default:
-        return [];
-    }
-  }, [selectedTab]);
+  const getDefaultActionsForTab = useCallback(() => auditTabFilters[selectedTab].actions, [selectedTab]);
 
   // Get default operations for the current tab
-  const getDefaultOperationsForTab = useCallback(() => {
-    return selectedTab === 'details' ? NON_ACCESS_OPERATIONS : [];
-  }, [selectedTab]);
+  const getDefaultOperationsForTab = useCallback(() => auditTabFilters[selectedTab].operations, [selectedTab]);
 
   // Handle clear filters - reset to tab defaults instead of clearing everything
   const handleClearFilters = useCallback(() => {
@@ -293,29 +282,179 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     setActions(getDefaultActionsForTab());
   }, [clearFilters, setOperations, setActions, getDefaultOperationsForTab, getDefaultActionsForTab]);
 
-  // Handle export
-  const handleExport = useCallback(
-    async (format: ExportFormat, includeDetails: boolean) => {
-      const result = await exportData(format, includeDetails);
-      if (result.success) {
+  // Apply a saved or shared view, switching to its tab first if needed
+  const applyView = useCallback(
+    (view: AuditViewState) => {
+      clearRecordSelection();
+      if (view.tab !== selectedTab && onTabChange) {
+        pendingViewRef.current = view;
+        onTabChange(view.tab);
+        return;
+      }
+      restoreView(view);
+    },
+    [selectedTab, onTabChange, clearRecordSelection, restoreView]
+  );
+
+  const handleApplyPreset = useCallback(
+    (preset: AuditFilterPreset) => {
+      applyView({ tab: preset.tab, filters: resolvePresetFilters(preset), sort: preset.sort });
+    },
+    [applyView]
+  );
+
+  // Show the record picked in a restored view in the record search box
+  useEffect(() => {
+    if (filters.recordId && filters.recordName && !selectedRecord && filters.tableLogicalNames.length === 1) {
+      selectRecord({
+        id: filters.recordId,
+        name: filters.recordName,
+        entityLogicalName: filters.tableLogicalNames[0],
+      });
+    }
+  }, [filters.recordId, filters.recordName, filters.tableLogicalNames, selectedRecord, selectRecord]);
+
+  // Copy a link to the current view, or to one entry within it
+  const copyLink = useCallback(
+    async (auditId?: string) => {
+      const token = encodeAuditViewLink({
+        tab: selectedTab,
+        filters,
+        sort,
+        pageNumber: pagination.pageNumber,
+        pageSize: pagination.pageSize,
+        anchorDate: pagination.anchorDate,
+        auditId,
+      });
+      try {
+        await window.toolboxAPI.utils.copyToClipboard(token);
         await window.toolboxAPI.utils.showNotification({
-          title: 'Export Complete',
-          body: `Audit logs exported to ${result.filename}`,
+          title: 'Link Copied',
+          body: auditId ? 'A link to this audit entry was copied to the clipboard' : 'A link to this view was copied to the clipboard',
           type: 'success',
           duration: 3000,
         });
-      } else {
+      } catch (err) {
+        console.error('[AuditLogExplorer] Error copying link:', err);
+        await window.toolboxAPI.utils.showNotification({
+          title: 'Copy Failed',
+          body: (err as Error).message,
+          type: 'error',
+          duration: 5000,
+        });
+      }
+    },
+    [selectedTab, filters, sort, pagination.pageNumber, pagination.pageSize, pagination.anchorDate]
+  );
+
+  const handleCopyViewLink = useCallback(() => copyLink(), [copyLink]);
+
+  const handleCopyEntryLink = useCallback((entry: AuditLogEntry) => {
+    copyLink(entry.id);
+  }, [copyLink]);
+
+  // Load and show an audit entry from a shared link
+  const openLinkedEntry = useCallback(async (auditId: string) => {
+    const entry = await getAuditLogEntry(auditId);
+    if (!entry) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Audit Entry Not Found',
+        body: 'The linked audit entry no longer exists in this environment',
+        type: 'warning',
+        duration: 5000,
+      });
+      return;
+    }
+
+    setLinkedEntry(entry);
+    setLinkedDetails(undefined);
+    setIsLoadingLinkedDetails(true);
+    try {
+      setLinkedDetails(await getAuditDetails(entry.id, entry.objectTypeCode, entry));
+    } catch (err) {
+      console.error('[AuditLogExplorer] Error loading linked entry details:', err);
+    } finally {
+      setIsLoadingLinkedDetails(false);
+    }
+  }, []);
+
+  const handleOpenLink = useCallback(
+    async (token: string): Promise<boolean> => {
+      try {
+        const link = decodeAuditViewLink(token);
+        applyView(link);
+        if (link.auditId) {
+          await openLinkedEntry(link.auditId);
+        }
+        return true;
+      } catch (err) {
         await window.toolboxAPI.utils.showNotification({
-          title: 'Export Failed',
-          body: result.error || 'An error occurred during export',
+          title: 'Invalid Link',
+          body: (err as Error).message,
           type: 'error',
           duration: 5000,
         });
+        return false;
       }
     },
-    [exportData]
+    [applyView, openLinkedEntry]
   );
 
+  const handleCloseLinkedEntry = useCallback(() => {
+    setLinkedEntry(null);
+    setLinkedDetails(undefined);
+  }, []);
+
+  const handleSavePreset = useCallback(
+    (name: string, keepRelative: boolean) => savePreset(name, selectedTab, filters, sort, keepRelative),
+    [savePreset, selectedTab, filters, sort]
+  );
+
+  // Handle export
+  // Report how an export ended
+  const notifyExportResult = useCallback(async (result: ExportResult) => {
+    // Streamed exports continue in part files once a file is full
+    const partsNote = result.files && result.files.length > 1 ? ` (${result.files.length} files)` : '';
+    if (result.success) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Export Complete',
+        body: `Audit logs exported to ${result.filename}${partsNote}`,
+        type: 'success',
+        duration: 3000,
+      });
+    } else if (result.error === 'Export cancelled') {
+      if (result.rowsWritten) {
+        await window.toolboxAPI.utils.showNotification({
+          title: 'Export Cancelled',
+          body: `${result.rowsWritten.toLocaleString()} rows were written to ${result.filename}${partsNote}`,
+          type: 'info',
+          duration: 5000,
+        });
+      }
+    } else {
+      const written = result.rowsWritten
+        ? ` ${result.rowsWritten.toLocaleString()} rows were written to ${result.filename}${partsNote}.`
+        : '';
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Export Failed',
+        body: `${result.error || 'An error occurred during export'}${written}`,
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, []);
+
+  const handleExport = useCallback(
+    async (format: ExportFormat, includeDetails: boolean, multiSheet: boolean) => {
+      await notifyExportResult(await exportData(format, includeDetails, multiSheet));
+    },
+    [exportData, notifyExportResult]
+  );
+
+  const handleResumeExport = useCallback(async () => {
+    await notifyExportResult(await resumeExport());
+  }, [resumeExport, notifyExportResult]);
+
   // Show error notification
   useEffect(() => {
     const errorMessage = error || tableError;
@@ -344,8 +483,13 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
 
     // User-specified filters (not tab defaults)
     const hasTableFilter = filters.tableLogicalNames.length > 0;
-    const hasDateFilter = filters.fromDate !== null || filters.toDate !== null;
-    const hasUserFilter = filters.selectedUsers.length > 0;
+    const hasDateFilter = filters.fromDate !== null || filters.toDate !== null || filters.relativeDate !== null;
+    const hasUserFilter = filters.selectedUsers.length > 0 || filters.selectedBusinessUnits.length > 0 ||
+      filters.selectedTeams.length > 0 || filters.selectedUserRoles.length > 0;
+    const hasAttributeFilter = filters.selectedAttributes.length > 0;
+    const hasSearchText = filters.searchText.trim() !== '';
+    const hasExclusions = filters.excludedTables.length > 0 || filters.excludedOperations.length > 0 ||
+      filters.excludedActions.length > 0 || filters.excludedUsers.length > 0;
 
     // Check if operations differ from tab default
     const operationsChanged = !arraysEqual(filters.operations, defaultOps);
@@ -353,12 +497,22 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     // Check if actions differ from tab default
     const actionsChanged = !arraysEqual(filters.actions, defaultActions);
 
-    return hasTableFilter || hasDateFilter || hasUserFilter || operationsChanged || actionsChanged;
+    return hasTableFilter || hasDateFilter || hasUserFilter || hasAttributeFilter || hasSearchText || hasExclusions || operationsChanged || actionsChanged;
   }, [
     filters.tableLogicalNames,
+    filters.selectedAttributes,
     filters.fromDate,
     filters.toDate,
+    filters.relativeDate,
     filters.selectedUsers,
+    filters.selectedBusinessUnits,
+    filters.selectedTeams,
+    filters.selectedUserRoles,
+    filters.searchText,
+    filters.excludedTables,
+    filters.excludedOperations,
+    filters.excludedActions,
+    filters.excludedUsers,
     filters.operations,
     filters.actions,
     getDefaultOperationsForTab,
@@ -372,9 +526,17 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
     actions: filters.actions,
     fromDate: filters.fromDate,
     toDate: filters.toDate,
+    relativeDate: filters.relativeDate,
     users: filters.selectedUsers,
     tables: filters.tableLogicalNames,
-  }), [filters.operations, filters.actions, filters.fromDate, filters.toDate, filters.selectedUsers, filters.tableLogicalNames]);
+    excludedOperations: filters.excludedOperations,
+    excludedActions: filters.excludedActions,
+    excludedUsers: filters.excludedUsers,
+    excludedTables: filters.excludedTables,
+    businessUnits: filters.selectedBusinessUnits,
+    teams: filters.selectedTeams,
+    userRoles: filters.selectedUserRoles,
+  }), [filters]);
 
   // Available tables for the filter (optionally filtered to auditable only)
   const availableTables = useMemo(() => {
@@ -430,13 +592,26 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
               visible={searchTerm.length >= 2 && !selectedRecord}
             />
           </div>
+          {selectedTab === 'details' && (
+            <AttributeFilter
+              attributes={attributes}
+              selectedAttributes={filters.selectedAttributes}
+              onSelectionChange={handleAttributesChange}
+              isLoading={isLoadingAttributes}
+              disabled={!!filters.recordId}
+            />
+          )}
         </div>
       )}
 
       {/* Content Section */}
       <div className="flex flex-col flex-1 overflow-hidden min-h-0">
         {/* Toolbar */}
-        <div className="flex items-center justify-end flex-shrink-0 mb-1">
+        <div className="flex items-center justify-end gap-2 flex-shrink-0 mb-1">
+          {/* Search inside old and new change values */}
+          {selectedTab === 'details' && (
+            <ChangeValueSearch value={filters.searchText} onChange={setSearchText} isSearching={isSearchingChanges} />
+          )}
           <div className="flex items-center gap-2">
             <button
               className="btn-subtle flex items-center gap-1 text-sm"
@@ -456,10 +631,23 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
                 Clear Filters
               </button>
             )}
+            <ShareLinkMenu onCopyLink={handleCopyViewLink} onOpenLink={handleOpenLink} />
+            <FilterPresetMenu
+              presets={presets}
+              onApply={handleApplyPreset}
+              onSave={handleSavePreset}
+              onRename={renamePreset}
+              onDuplicate={duplicatePreset}
+              onDelete={deletePreset}
+            />
             <ExportMenu
               onExport={handleExport}
               isExporting={isExporting}
               exportProgress={exportProgress}
+              onCancel={canCancel ? cancelExport : undefined}
+              resumableExport={resumableExport}
+              onResume={handleResumeExport}
+              onDiscardResume={discardResumableExport}
               disabled={false}
               hasData={filteredEntries.length > 0}
               tabType={selectedTab}
@@ -486,17 +674,27 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
             onActionsChange={setActions}
             onFromDateChange={setFromDate}
             onToDateChange={setToDate}
+            onRelativeDateChange={setRelativeDate}
             onUsersChange={setUsers}
             onTablesChange={handleTableSelect}
+            onExcludedOperationsChange={setExcludedOperations}
+            onExcludedActionsChange={setExcludedActions}
+            onExcludedUsersChange={setExcludedUsers}
+            onExcludedTablesChange={setExcludedTables}
+            onBusinessUnitsChange={setBusinessUnits}
+            onTeamsChange={setTeams}
+            onUserRolesChange={setUserRoles}
             actionOptions={currentActionOptions}
             availableTables={availableTables}
             showAuditableOnly={showAuditableOnly}
             onShowAuditableOnlyChange={setShowAuditableOnly}
+            highlightText={filters.searchText.trim()}
+            onCopyEntryLink={handleCopyEntryLink}
           />
         </div>
 
-        {/* Pagination */}
-        {filteredEntries.length > 0 && (
+        {/* Pagination - kept after a date jump with no results so the jump can be undone */}
+        {(filteredEntries.length > 0 || canGoBack) && (
           <div className="border-t border-stroke-1 pt-1 flex-shrink-0">
             <Pagination
               pagination={{
@@ -506,11 +704,30 @@ export const AuditLogExplorer: React.FC<AuditLogExplorerProps> = ({ isConnected,
               onPageChange={setPage}
               onPageSizeChange={setPageSize}
               canNavigateToPage={canNavigateToPage}
+              onJumpToDate={jumpToDate}
+              canGoBack={canGoBack}
+              canGoForward={canGoForward}
+              onBack={goBack}
+              onForward={goForward}
+              dateWindow={pageDateWindow}
               disabled={isLoadingLogs}
             />
           </div>
         )}
       </div>
+
+      {/* Audit entry opened from a shared link */}
+      <AuditDetailsDialog
+        entry={linkedEntry}
+        details={linkedDetails}
+        isLoading={isLoadingLinkedDetails}
+        isOpen={!!linkedEntry}
+        onClose={handleCloseLinkedEntry}
+        tableDisplayName={linkedEntry ? tableDisplayNames.get(linkedEntry.objectTypeCode) : undefined}
+        selectedTab={selectedTab}
+        onCopyLink={handleCopyEntryLink}
+        highlightText={filters.searchText.trim()}
+      />
     </div>
   );
 };
@@ -1,8 +1,10 @@
 import React, { useCallback } from 'react';
-import { AuditLogEntry } from '../../model/auditLog';
+import { AuditLogEntry, AuditDetail } from '../../model/auditLog';
 import { formatDateTime } from '../../utils/formatters';
-import { getOperationColor } from '../../utils/auditHelpers';
+import { getOperationColor, getMatchingAttributeDetails } from '../../utils/auditHelpers';
+import { canRevertEntry } from '../../services/revertService';
 import { InfoIcon, HistoryIcon } from '../common/Icons';
+import { HighlightText } from '../common/HighlightText';
 
 interface AuditLogRowProps {
   entry: AuditLogEntry;
@@ -11,6 +13,10 @@ interface AuditLogRowProps {
   showTableColumn?: boolean;
   tableDisplayNames?: Map<string, string>;
   selectedTab?: string;
+  isSelected?: boolean;
+  onToggleSelect?: (entry: AuditLogEntry) => void;
+  details?: AuditDetail[];
+  highlightText?: string;
 }
 
 // Map operation color to Tailwind class
@@ -37,6 +43,10 @@ export const AuditLogRow: React.FC<AuditLogRowProps> = ({
   showTableColumn = false,
   tableDisplayNames = new Map(),
   selectedTab = 'details',
+  isSelected = false,
+  onToggleSelect,
+  details,
+  highlightText,
 }) => {
   const handleViewDetails = useCallback(() => {
     onViewDetails(entry);
@@ -58,13 +68,18 @@ export const AuditLogRow: React.FC<AuditLogRowProps> = ({
   };
 
   const recordDisplay = getRecordDisplay();
+
+  // Changes that contain the searched text, shown under the record name
+  const matchingDetails = highlightText && details
+    ? getMatchingAttributeDetails(details, highlightText)
+    : [];
   const badgeClass = getOperationBadgeClass(entry.operation);
   const isUserAccessTab = selectedTab === 'access';
   const isRoleChangesTab = selectedTab === 'roles';
   const isMetadataTab = selectedTab === 'metadata';
 
-  // Disable record history button for now (TODO: re-enable when feature is complete)
-  const canViewRecordHistory = false;
+  // Record history needs a concrete record; access and metadata entries don't point at one
+  const canViewRecordHistory = !!entry.objectId && !!entry.objectTypeCode && !isMetadataTab && !isUserAccessTab;
 
   // For Table column display - fall back to logical name if display name not found (e.g., deleted tables)
   const getTableDisplay = () => {
@@ -91,6 +106,19 @@ export const AuditLogRow: React.FC<AuditLogRowProps> = ({
 
   return (
     <tr className="table-row">
+      {/* Selection is only offered where entries can be reverted */}
+      {onToggleSelect && (
+        <td className="w-[36px] min-w-[36px] p-0 text-center">
+          <input
+            type="checkbox"
+            className="checkbox"
+            checked={isSelected}
+            disabled={!canRevertEntry(entry)}
+            onChange={() => onToggleSelect(entry)}
+            title={canRevertEntry(entry) ? 'Select entry' : 'Only update entries can be reverted'}
+          />
+        </td>
+      )}
       {/* Hide action buttons for User Access tab */}
       {!isUserAccessTab && (
         <td className="w-[52px] min-w-[52px] max-w-[52px] p-0 text-center">
@@ -133,6 +161,14 @@ export const AuditLogRow: React.FC<AuditLogRowProps> = ({
       {!isMetadataTab && (
         <td className="text-truncate" title={entry.objectName}>
           {recordDisplay}
+          {matchingDetails.map((detail, index) => (
+            <div key={`${detail.attributeName}-${index}`} className="text-xs text-foreground-3 text-truncate">
+              {detail.attributeDisplayName}:{' '}
+              <HighlightText text={detail.oldFormattedValue || detail.oldValue || '(empty)'} highlight={highlightText} />
+              {' → '}
+              <HighlightText text={detail.newFormattedValue || detail.newValue || '(empty)'} highlight={highlightText} />
+            </div>
+          ))}
         </td>
       )}
       {selectedTab !== 'access' && (
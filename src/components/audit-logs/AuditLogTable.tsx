@@ -1,9 +1,22 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { AuditLogEntry, AuditDetail, SortState, SortColumn } from '../../model/auditLog';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  AuditLogEntry,
+  AuditDetail,
+  AuditOperation,
+  SortState,
+  SortColumn,
+  RelativeDateOperator,
+  RelativeDateRange,
+} from '../../model/auditLog';
 import { AuditLogRow } from './AuditLogRow';
 import { AuditDetailsDialog } from './AuditDetailsDialog';
 import { RecordHistoryDialog } from './RecordHistoryDialog';
-import { operationOptions } from '../../utils/constants';
+import { RevertChangesDialog } from './RevertChangesDialog';
+import { RecreateRecordDialog } from './RecreateRecordDialog';
+import { canRevertEntry } from '../../services/revertService';
+import { PrincipalGroupType, searchPrincipalGroups } from '../../services/principalService';
+import { actionLabels, operationLabels, operationOptions, relativeDateOptions } from '../../utils/constants';
+import { formatDateTimeForInput } from '../../utils/formatters';
 import {
   ArrowUpIcon,
   ArrowDownIcon,
@@ -22,8 +35,48 @@ interface ColumnFilter {
   actions: number[];
   fromDate: Date | null;
   toDate: Date | null;
+  relativeDate: RelativeDateRange | null;
   users: Array<{ id: string; name: string }>;
   tables: string[];
+  excludedOperations: number[];
+  excludedActions: number[];
+  excludedUsers: Array<{ id: string; name: string }>;
+  excludedTables: string[];
+  businessUnits: Array<{ id: string; name: string }>;
+  teams: Array<{ id: string; name: string }>;
+  userRoles: Array<{ id: string; name: string }>;
+}
+
+// What the "Changed By" filter searches: users, or the business units, teams and roles they belong to
+type UserFilterKind = 'user' | PrincipalGroupType;
+
+const userFilterKindOptions: Array<{ value: UserFilterKind; label: string; chipPrefix: string }> = [
+  { value: 'user', label: 'Users', chipPrefix: '' },
+  { value: 'businessunit', label: 'Business units', chipPrefix: 'BU' },
+  { value: 'team', label: 'Teams', chipPrefix: 'Team' },
+  { value: 'role', label: 'Security roles', chipPrefix: 'Role' },
+];
+
+// Whether a filter's checkboxes add to the inclusion or the exclusion list
+type FilterMode = 'include' | 'exclude';
+
+interface FilterModes {
+  operations: FilterMode;
+  actions: FilterMode;
+  users: FilterMode;
+  tables: FilterMode;
+}
+
+const initialFilterModes: FilterModes = {
+  operations: 'include',
+  actions: 'include',
+  users: 'include',
+  tables: 'include',
+};
+
+// Add or remove a value from a filter list
+function toggleValue<T>(list: T[], value: T, checked: boolean): T[] {
+  return checked ? [...list, value] : list.filter(v => v !== value);
 }
 
 interface AuditLogTableProps {
@@ -43,12 +96,22 @@ interface AuditLogTableProps {
   onActionsChange: (actions: number[]) => void;
   onFromDateChange: (date: Date | null) => void;
   onToDateChange: (date: Date | null) => void;
+  onRelativeDateChange: (range: RelativeDateRange | null) => void;
   onUsersChange: (users: Array<{ id: string; name: string }>) => void;
   onTablesChange: (tables: string[]) => void;
+  onExcludedOperationsChange: (operations: number[]) => void;
+  onExcludedActionsChange: (actions: number[]) => void;
+  onExcludedUsersChange: (users: Array<{ id: string; name: string }>) => void;
+  onExcludedTablesChange: (tables: string[]) => void;
+  onBusinessUnitsChange: (businessUnits: Array<{ id: string; name: string }>) => void;
+  onTeamsChange: (teams: Array<{ id: string; name: string }>) => void;
+  onUserRolesChange: (roles: Array<{ id: string; name: string }>) => void;
   actionOptions: Array<{ value: number; label: string }>;
   availableTables: TableOption[];
   showAuditableOnly: boolean;
   onShowAuditableOnlyChange: (value: boolean) => void;
+  highlightText?: string;
+  onCopyEntryLink?: (entry: AuditLogEntry) => void;
 }
 
 // Column Header with Sort and Filter
@@ -125,6 +188,31 @@ const ColumnHeader: React.FC<ColumnHeaderProps> = ({
   );
 };
 
+// Include/Exclude switch shown at the top of a filter popover
+const FilterModeToggle: React.FC<{ mode: FilterMode; onChange: (mode: FilterMode) => void }> = ({ mode, onChange }) => (
+  <div className="flex items-center gap-1 mb-1">
+    {(['include', 'exclude'] as const).map(value => (
+      <button
+        key={value}
+        className={`btn-subtle text-xs px-2 py-0.5 ${mode === value ? 'bg-background-3 font-semibold' : ''}`}
+        onClick={() => onChange(value)}
+      >
+        {value === 'include' ? 'Include' : 'Exclude'}
+      </button>
+    ))}
+  </div>
+);
+
+// Chip for an excluded value
+const ExcludedTag: React.FC<{ label: string; onDismiss: () => void }> = ({ label, onDismiss }) => (
+  <span className="tag tag-excluded tag-dismissible" title="Excluded">
+    Not {label}
+    <button className="tag-dismiss-btn" onClick={onDismiss}>
+      <DismissIcon className="w-3 h-3" />
+    </button>
+  </span>
+);
+
 export const AuditLogTable: React.FC<AuditLogTableProps> = ({
   entries,
   detailsMap,
@@ -142,17 +230,33 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
   onActionsChange,
   onFromDateChange,
   onToDateChange,
+  onRelativeDateChange,
   onUsersChange,
   onTablesChange,
+  onExcludedOperationsChange,
+  onExcludedActionsChange,
+  onExcludedUsersChange,
+  onExcludedTablesChange,
+  onBusinessUnitsChange,
+  onTeamsChange,
+  onUserRolesChange,
   actionOptions,
   availableTables,
   showAuditableOnly,
   onShowAuditableOnlyChange,
+  highlightText,
+  onCopyEntryLink,
 }) => {
   const [userSearchTerm, setUserSearchTerm] = useState('');
   const [userSearchResults, setUserSearchResults] = useState<Array<{ id: string; name: string }>>([]);
   const [isSearchingUsers, setIsSearchingUsers] = useState(false);
   const [tableSearchTerm, setTableSearchTerm] = useState('');
+  const [filterModes, setFilterModes] = useState<FilterModes>(initialFilterModes);
+  const [userFilterKind, setUserFilterKind] = useState<UserFilterKind>('user');
+
+  const setFilterMode = useCallback((filter: keyof FilterModes, mode: FilterMode) => {
+    setFilterModes(prev => ({ ...prev, [filter]: mode }));
+  }, []);
 
   // Dialog state
   const [selectedEntry, setSelectedEntry] = useState<AuditLogEntry | null>(null);
@@ -162,6 +266,20 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
   const [historyEntry, setHistoryEntry] = useState<AuditLogEntry | null>(null);
   const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
 
+  // Selection and revert dialog state
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [revertEntries, setRevertEntries] = useState<AuditLogEntry[]>([]);
+  const [isRevertDialogOpen, setIsRevertDialogOpen] = useState(false);
+
+  // Recreate dialog state
+  const [recreateEntry, setRecreateEntry] = useState<AuditLogEntry | null>(null);
+  const [isRecreateDialogOpen, setIsRecreateDialogOpen] = useState(false);
+
+  // Selection only applies to the page being displayed
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [entries]);
+
   // Handle viewing details
   const handleViewDetails = useCallback((entry: AuditLogEntry) => {
     setSelectedEntry(entry);
@@ -188,6 +306,55 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
     setHistoryEntry(null);
   }, []);
 
+  // Handle row selection
+  const handleToggleSelect = useCallback((entry: AuditLogEntry) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(entry.id)) {
+        next.delete(entry.id);
+      } else {
+        next.add(entry.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const revertableEntries = useMemo(() => entries.filter(canRevertEntry), [entries]);
+  const allRevertableSelected = revertableEntries.length > 0 && revertableEntries.every(e => selectedIds.has(e.id));
+
+  const handleToggleSelectAll = useCallback(() => {
+    setSelectedIds(allRevertableSelected ? new Set() : new Set(revertableEntries.map(e => e.id)));
+  }, [allRevertableSelected, revertableEntries]);
+
+  // Handle reverting a single entry (from details) or the selection
+  const handleRevert = useCallback((entriesToRevert: AuditLogEntry[]) => {
+    setRevertEntries(entriesToRevert);
+    setIsRevertDialogOpen(true);
+    setIsDialogOpen(false);
+  }, []);
+
+  const handleRevertSingle = useCallback((entry: AuditLogEntry) => {
+    handleRevert([entry]);
+  }, [handleRevert]);
+
+  const handleCloseRevertDialog = useCallback(() => {
+    setIsRevertDialogOpen(false);
+    setRevertEntries([]);
+    setSelectedIds(new Set());
+  }, []);
+
+  // Handle recreating a deleted record from its delete entry
+  const handleRecreate = useCallback((entry: AuditLogEntry) => {
+    setRecreateEntry(entry);
+    setIsRecreateDialogOpen(true);
+    setIsDialogOpen(false);
+  }, []);
+
+  const handleCloseRecreateDialog = useCallback(() => {
+    setIsRecreateDialogOpen(false);
+    setRecreateEntry(null);
+  }, []);
+
   // Filter tables by search term
   const filteredTables = useMemo(() => {
     if (!tableSearchTerm) return availableTables.slice(0, 50);
@@ -197,6 +364,13 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
       .slice(0, 50);
   }, [availableTables, tableSearchTerm]);
 
+  // Selected groups and their change handlers, by kind
+  const userGroupFilters = useMemo(() => ({
+    businessunit: { selected: columnFilters.businessUnits, onChange: onBusinessUnitsChange },
+    team: { selected: columnFilters.teams, onChange: onTeamsChange },
+    role: { selected: columnFilters.userRoles, onChange: onUserRolesChange },
+  }), [columnFilters.businessUnits, columnFilters.teams, columnFilters.userRoles, onBusinessUnitsChange, onTeamsChange, onUserRolesChange]);
+
   // User search handler
   const searchUsers = useCallback(async (searchTerm: string) => {
     if (searchTerm.length < 2) {
@@ -205,6 +379,12 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
     }
     setIsSearchingUsers(true);
     try {
+      if (userFilterKind !== 'user') {
+        const groups = await searchPrincipalGroups(userFilterKind, searchTerm);
+        const selected = userGroupFilters[userFilterKind].selected;
+        setUserSearchResults(groups.filter(g => !selected.some(sg => sg.id === g.id)));
+        return;
+      }
       const response = await window.dataverseAPI.queryData(
         `systemusers?$select=systemuserid,fullname&$filter=contains(fullname,'${searchTerm}')&$top=10`
       );
@@ -213,7 +393,8 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
         ? users.map((u: any) => ({ id: u.systemuserid, name: u.fullname || 'Unknown' }))
         : [];
       setUserSearchResults(mappedUsers.filter(
-        (u: { id: string }) => !columnFilters.users.some(su => su.id === u.id)
+        (u: { id: string }) => !columnFilters.users.some(su => su.id === u.id) &&
+          !columnFilters.excludedUsers.some(su => su.id === u.id)
       ));
     } catch (err) {
       console.error('Error searching users:', err);
@@ -221,38 +402,95 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
     } finally {
       setIsSearchingUsers(false);
     }
-  }, [columnFilters.users]);
+  }, [userFilterKind, userGroupFilters, columnFilters.users, columnFilters.excludedUsers]);
 
   const handleUserSelect = useCallback((userId: string) => {
     const user = userSearchResults.find(u => u.id === userId);
     if (user) {
-      onUsersChange([...columnFilters.users, user]);
+      if (userFilterKind !== 'user') {
+        const group = userGroupFilters[userFilterKind];
+        group.onChange([...group.selected, user]);
+      } else if (filterModes.users === 'exclude') {
+        onExcludedUsersChange([...columnFilters.excludedUsers, user]);
+      } else {
+        onUsersChange([...columnFilters.users, user]);
+      }
       setUserSearchTerm('');
       setUserSearchResults([]);
     }
-  }, [userSearchResults, columnFilters.users, onUsersChange]);
+  }, [userSearchResults, userFilterKind, userGroupFilters, filterModes.users, columnFilters.users, columnFilters.excludedUsers, onUsersChange, onExcludedUsersChange]);
 
   // Filter content renderers
+  const handleRelativeOperatorChange = useCallback((value: string) => {
+    if (!value) {
+      onRelativeDateChange(null);
+      return;
+    }
+    const operator = value as RelativeDateOperator;
+    onRelativeDateChange({
+      operator,
+      value: operator === 'last-x-hours' ? 24 : operator === 'last-x-days' ? 7 : undefined,
+    });
+  }, [onRelativeDateChange]);
+
+  const relativeDate = columnFilters.relativeDate;
+  const hasRelativeCount = relativeDate?.operator === 'last-x-hours' || relativeDate?.operator === 'last-x-days';
+
   const dateFilterContent = (
     <div className="flex flex-col gap-2">
-      <label className="text-sm font-medium">From</label>
-      <input
-        type="date"
-        className="input"
-        value={columnFilters.fromDate ? columnFilters.fromDate.toISOString().split('T')[0] : ''}
-        onChange={(e) => onFromDateChange(e.target.value ? new Date(e.target.value) : null)}
-      />
-      <label className="text-sm font-medium">To</label>
-      <input
-        type="date"
-        className="input"
-        value={columnFilters.toDate ? columnFilters.toDate.toISOString().split('T')[0] : ''}
-        onChange={(e) => onToDateChange(e.target.value ? new Date(e.target.value) : null)}
-      />
-      {(columnFilters.fromDate || columnFilters.toDate) && (
+      <label className="text-sm font-medium">Range</label>
+      <select
+        className="select"
+        value={relativeDate?.operator ?? ''}
+        onChange={(e) => handleRelativeOperatorChange(e.target.value)}
+      >
+        <option value="">Custom dates</option>
+        {relativeDateOptions.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {relativeDate && hasRelativeCount && (
+        <>
+          <label className="text-sm font-medium">
+            {relativeDate.operator === 'last-x-hours' ? 'Hours' : 'Days'}
+          </label>
+          <input
+            type="number"
+            className="input"
+            min={1}
+            value={relativeDate.value ?? 1}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (value >= 1) {
+                onRelativeDateChange({ ...relativeDate, value });
+              }
+            }}
+          />
+        </>
+      )}
+      {!relativeDate && (
+        <>
+          <label className="text-sm font-medium">From</label>
+          <input
+            type="datetime-local"
+            className="input"
+            value={formatDateTimeForInput(columnFilters.fromDate)}
+            onChange={(e) => onFromDateChange(e.target.value ? new Date(e.target.value) : null)}
+          />
+          <label className="text-sm font-medium">To</label>
+          <input
+            type="datetime-local"
+            className="input"
+            value={formatDateTimeForInput(columnFilters.toDate)}
+            onChange={(e) => onToDateChange(e.target.value ? new Date(e.target.value) : null)}
+          />
+        </>
+      )}
+      {(columnFilters.fromDate || columnFilters.toDate || relativeDate) && (
         <button
           className="btn-subtle text-sm self-end"
           onClick={() => {
+            onRelativeDateChange(null);
             onFromDateChange(null);
             onToDateChange(null);
           }}
@@ -263,62 +501,107 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
     </div>
   );
 
+  const hasUserFilter = columnFilters.users.length > 0 || columnFilters.excludedUsers.length > 0 ||
+    columnFilters.businessUnits.length > 0 || columnFilters.teams.length > 0 || columnFilters.userRoles.length > 0;
+
+  const isExcludingOperations = filterModes.operations === 'exclude';
   const operationFilterContent = (
     <div className="flex flex-col gap-1">
+      <FilterModeToggle mode={filterModes.operations} onChange={mode => setFilterMode('operations', mode)} />
       {operationOptions.map(op => (
         <label key={op.value} className="flex items-center gap-2 cursor-pointer">
           <input
             type="checkbox"
             className="checkbox"
-            checked={columnFilters.operations.includes(op.value)}
+            checked={(isExcludingOperations ? columnFilters.excludedOperations : columnFilters.operations).includes(op.value)}
+            disabled={(isExcludingOperations ? columnFilters.operations : columnFilters.excludedOperations).includes(op.value)}
             onChange={(e) => {
-              if (e.target.checked) {
-                onOperationsChange([...columnFilters.operations, op.value]);
+              if (isExcludingOperations) {
+                onExcludedOperationsChange(toggleValue(columnFilters.excludedOperations, op.value, e.target.checked));
               } else {
-                onOperationsChange(columnFilters.operations.filter(o => o !== op.value));
+                onOperationsChange(toggleValue(columnFilters.operations, op.value, e.target.checked));
               }
             }}
           />
           {op.label}
         </label>
       ))}
-      {columnFilters.operations.length > 0 && (
-        <button className="btn-subtle text-sm self-end mt-2" onClick={() => onOperationsChange([])}>
+      {columnFilters.excludedOperations.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {columnFilters.excludedOperations.map(op => (
+            <ExcludedTag
+              key={op}
+              label={operationLabels[op as AuditOperation] || String(op)}
+              onDismiss={() => onExcludedOperationsChange(columnFilters.excludedOperations.filter(o => o !== op))}
+            />
+          ))}
+        </div>
+      )}
+      {(columnFilters.operations.length > 0 || columnFilters.excludedOperations.length > 0) && (
+        <button
+          className="btn-subtle text-sm self-end mt-2"
+          onClick={() => {
+            onOperationsChange([]);
+            onExcludedOperationsChange([]);
+          }}
+        >
           Clear
         </button>
       )}
     </div>
   );
 
+  const isExcludingActions = filterModes.actions === 'exclude';
   const actionFilterContent = (
     <div className="flex flex-col gap-1">
+      <FilterModeToggle mode={filterModes.actions} onChange={mode => setFilterMode('actions', mode)} />
       {actionOptions.map(action => (
         <label key={action.value} className="flex items-center gap-2 cursor-pointer">
           <input
             type="checkbox"
             className="checkbox"
-            checked={columnFilters.actions.includes(action.value)}
+            checked={(isExcludingActions ? columnFilters.excludedActions : columnFilters.actions).includes(action.value)}
+            disabled={(isExcludingActions ? columnFilters.actions : columnFilters.excludedActions).includes(action.value)}
             onChange={(e) => {
-              if (e.target.checked) {
-                onActionsChange([...columnFilters.actions, action.value]);
+              if (isExcludingActions) {
+                onExcludedActionsChange(toggleValue(columnFilters.excludedActions, action.value, e.target.checked));
               } else {
-                onActionsChange(columnFilters.actions.filter(a => a !== action.value));
+                onActionsChange(toggleValue(columnFilters.actions, action.value, e.target.checked));
               }
             }}
           />
           {action.label}
         </label>
       ))}
-      {columnFilters.actions.length > 0 && (
-        <button className="btn-subtle text-sm self-end mt-2" onClick={() => onActionsChange([])}>
+      {columnFilters.excludedActions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {columnFilters.excludedActions.map(action => (
+            <ExcludedTag
+              key={action}
+              label={actionLabels[action] || String(action)}
+              onDismiss={() => onExcludedActionsChange(columnFilters.excludedActions.filter(a => a !== action))}
+            />
+          ))}
+        </div>
+      )}
+      {(columnFilters.actions.length > 0 || columnFilters.excludedActions.length > 0) && (
+        <button
+          className="btn-subtle text-sm self-end mt-2"
+          onClick={() => {
+            onActionsChange([]);
+            onExcludedActionsChange([]);
+          }}
+        >
           Clear
         </button>
       )}
     </div>
   );
 
+  const isExcludingTables = filterModes.tables === 'exclude';
   const tableFilterContent = (
     <div className="flex flex-col gap-2">
+      <FilterModeToggle mode={filterModes.tables} onChange={mode => setFilterMode('tables', mode)} />
       <label className="flex items-center gap-2 cursor-pointer">
         <input
           type="checkbox"
@@ -340,12 +623,13 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
             <input
               type="checkbox"
               className="checkbox"
-              checked={columnFilters.tables.includes(table.logicalName)}
+              checked={(isExcludingTables ? columnFilters.excludedTables : columnFilters.tables).includes(table.logicalName)}
+              disabled={(isExcludingTables ? columnFilters.tables : columnFilters.excludedTables).includes(table.logicalName)}
               onChange={(e) => {
-                if (e.target.checked) {
-                  onTablesChange([...columnFilters.tables, table.logicalName]);
+                if (isExcludingTables) {
+                  onExcludedTablesChange(toggleValue(columnFilters.excludedTables, table.logicalName, e.target.checked));
                 } else {
-                  onTablesChange(columnFilters.tables.filter(t => t !== table.logicalName));
+                  onTablesChange(toggleValue(columnFilters.tables, table.logicalName, e.target.checked));
                 }
               }}
             />
@@ -368,8 +652,25 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
           ))}
         </div>
       )}
-      {columnFilters.tables.length > 0 && (
-        <button className="btn-subtle text-sm self-end mt-2" onClick={() => onTablesChange([])}>
+      {columnFilters.excludedTables.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {columnFilters.excludedTables.map(logicalName => (
+            <ExcludedTag
+              key={logicalName}
+              label={tableDisplayNames.get(logicalName) || logicalName}
+              onDismiss={() => onExcludedTablesChange(columnFilters.excludedTables.filter(t => t !== logicalName))}
+            />
+          ))}
+        </div>
+      )}
+      {(columnFilters.tables.length > 0 || columnFilters.excludedTables.length > 0) && (
+        <button
+          className="btn-subtle text-sm self-end mt-2"
+          onClick={() => {
+            onTablesChange([]);
+            onExcludedTablesChange([]);
+          }}
+        >
           Clear
         </button>
       )}
@@ -378,8 +679,26 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
 
   const userFilterContent = (
     <div className="flex flex-col gap-2">
+      <select
+        className="select"
+        value={userFilterKind}
+        onChange={(e) => {
+          setUserFilterKind(e.target.value as UserFilterKind);
+          setUserSearchTerm('');
+          setUserSearchResults([]);
+        }}
+      >
+        {userFilterKindOptions.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {userFilterKind === 'user' && (
+        <FilterModeToggle mode={filterModes.users} onChange={mode => setFilterMode('users', mode)} />
+      )}
       <input
-        placeholder="Search users..."
+        placeholder={userFilterKind !== 'user'
+          ? `Search ${userFilterKindOptions.find(o => o.value === userFilterKind)?.label.toLowerCase()}...`
+          : filterModes.users === 'exclude' ? 'Search users to exclude...' : 'Search users...'}
         className="input"
         value={userSearchTerm}
         onChange={(e) => {
@@ -418,19 +737,57 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
           ))}
         </div>
       )}
-      {columnFilters.users.length > 0 && (
-        <button className="btn-subtle text-sm self-end mt-2" onClick={() => onUsersChange([])}>
+      {columnFilters.excludedUsers.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {columnFilters.excludedUsers.map(user => (
+            <ExcludedTag
+              key={user.id}
+              label={user.name}
+              onDismiss={() => onExcludedUsersChange(columnFilters.excludedUsers.filter(u => u.id !== user.id))}
+            />
+          ))}
+        </div>
+      )}
+      {(Object.keys(userGroupFilters) as PrincipalGroupType[]).some(kind => userGroupFilters[kind].selected.length > 0) && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {(Object.keys(userGroupFilters) as PrincipalGroupType[]).flatMap(kind => {
+            const group = userGroupFilters[kind];
+            const prefix = userFilterKindOptions.find(o => o.value === kind)?.chipPrefix;
+            return group.selected.map(item => (
+              <span key={`${kind}:${item.id}`} className="tag tag-dismissible">
+                {prefix}: {item.name}
+                <button
+                  className="tag-dismiss-btn"
+                  onClick={() => group.onChange(group.selected.filter(g => g.id !== item.id))}
+                >
+                  <DismissIcon className="w-3 h-3" />
+                </button>
+              </span>
+            ));
+          })}
+        </div>
+      )}
+      {hasUserFilter && (
+        <button
+          className="btn-subtle text-sm self-end mt-2"
+          onClick={() => {
+            onUsersChange([]);
+            onExcludedUsersChange([]);
+            onBusinessUnitsChange([]);
+            onTeamsChange([]);
+            onUserRolesChange([]);
+          }}
+        >
           Clear
         </button>
       )}
     </div>
   );
 
-  const hasDateFilter = columnFilters.fromDate !== null || columnFilters.toDate !== null;
-  const hasOperationFilter = columnFilters.operations.length > 0;
-  const hasActionFilter = columnFilters.actions.length > 0;
-  const hasUserFilter = columnFilters.users.length > 0;
-  const hasTableFilter = columnFilters.tables.length > 0;
+  const hasDateFilter = columnFilters.fromDate !== null || columnFilters.toDate !== null || columnFilters.relativeDate !== null;
+  const hasOperationFilter = columnFilters.operations.length > 0 || columnFilters.excludedOperations.length > 0;
+  const hasActionFilter = columnFilters.actions.length > 0 || columnFilters.excludedActions.length > 0;
+  const hasTableFilter = columnFilters.tables.length > 0 || columnFilters.excludedTables.length > 0;
 
   // Calculate column count for empty/loading row
   // Base: Date/Time, Operation, Action = 3
@@ -443,14 +800,44 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
   const isMetadataTab = selectedTab === 'metadata';
   const showTableColumnEffective = showTableColumn && !isRoleChangesTab;
   const showObjectColumn = !isMetadataTab;
-  const columnCount = 3 + (isUserAccessTab ? 0 : 1) + (showTableColumnEffective ? 1 : 0) + (showObjectColumn ? 1 : 0) + (isUserAccessTab ? 0 : 1);
+  // Data changes can be selected for revert
+  const isSelectable = selectedTab === 'details';
+  const columnCount = 3 + (isSelectable ? 1 : 0) + (isUserAccessTab ? 0 : 1) + (showTableColumnEffective ? 1 : 0) + (showObjectColumn ? 1 : 0) + (isUserAccessTab ? 0 : 1);
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden min-h-0">
+      {isSelectable && selectedIds.size > 0 && (
+        <div className="toolbar mb-2">
+          <span className="font-semibold mr-4">
+            {selectedIds.size} entr{selectedIds.size !== 1 ? 'ies' : 'y'} selected
+          </span>
+          <button
+            className="btn-primary"
+            onClick={() => handleRevert(entries.filter(e => selectedIds.has(e.id)))}
+          >
+            Revert these changes
+          </button>
+          <button className="btn-subtle" onClick={() => setSelectedIds(new Set())}>
+            Clear selection
+          </button>
+        </div>
+      )}
       <div className="flex-1 overflow-y-auto border border-stroke-1 rounded-sm min-h-[100px]">
         <table className="table w-full">
           <thead className="table-header sticky top-0 bg-background-3 z-10">
             <tr>
+              {isSelectable && (
+                <th className="w-[36px] min-w-[36px] p-0 text-center">
+                  <input
+                    type="checkbox"
+                    className="checkbox"
+                    checked={allRevertableSelected}
+                    disabled={revertableEntries.length === 0}
+                    onChange={handleToggleSelectAll}
+                    title="Select all update entries"
+                  />
+                </th>
+              )}
               {/* Hide buttons column header for User Access tab */}
               {!isUserAccessTab && (
                 <th className="w-[52px] min-w-[52px] max-w-[52px] p-0" />
@@ -546,6 +933,10 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
                   showTableColumn={showTableColumn}
                   tableDisplayNames={tableDisplayNames}
                   selectedTab={selectedTab}
+                  isSelected={selectedIds.has(entry.id)}
+                  onToggleSelect={isSelectable ? handleToggleSelect : undefined}
+                  details={detailsMap.get(entry.id)}
+                  highlightText={highlightText}
                 />
               ))
             )}
@@ -562,6 +953,10 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
         onClose={handleCloseDialog}
         tableDisplayName={selectedEntry ? tableDisplayNames.get(selectedEntry.objectTypeCode) : undefined}
         selectedTab={selectedTab}
+        onRevert={isSelectable ? handleRevertSingle : undefined}
+        onRecreate={isSelectable ? handleRecreate : undefined}
+        onCopyLink={onCopyEntryLink}
+        highlightText={highlightText}
       />
 
       {/* Record History Dialog */}
@@ -571,6 +966,20 @@ export const AuditLogTable: React.FC<AuditLogTableProps> = ({
         onClose={handleCloseHistoryDialog}
         tableDisplayName={historyEntry ? tableDisplayNames.get(historyEntry.objectTypeCode) : undefined}
       />
+
+      {/* Revert Changes Dialog */}
+      <RevertChangesDialog
+        entries={revertEntries}
+        isOpen={isRevertDialogOpen}
+        onClose={handleCloseRevertDialog}
+      />
+
+      {/* Recreate Record Dialog */}
+      <RecreateRecordDialog
+        entry={recreateEntry}
+        isOpen={isRecreateDialogOpen}
+        onClose={handleCloseRecreateDialog}
+      />
     </div>
   );
 };
@@ -1,14 +1,28 @@
 import React, { useCallback, useState, useRef, useEffect } from 'react';
-import { ArrowDownloadIcon, DocumentTableIcon, CheckmarkCircleIcon } from '../common/Icons';
-import { ExportFormat, AuditTabType } from '../../model/export';
+import {
+  ArrowDownloadIcon,
+  DocumentTableIcon,
+  CheckmarkCircleIcon,
+  TableSimpleIcon,
+  ShieldCheckmarkIcon,
+  ArrowSyncIcon,
+  DeleteIcon,
+} from '../common/Icons';
+import { ConfirmDialog } from '../common/ConfirmDialog';
+import { ExportFormat, AuditTabType, ExportCheckpoint } from '../../model/export';
+import { formatDateTime } from '../../utils/formatters';
 
 // Maximum records when including details (due to additional API calls)
 const MAX_RECORDS_WITH_DETAILS = 5000;
 
 interface ExportMenuProps {
-  onExport: (format: ExportFormat, includeDetails: boolean) => Promise<void>;
+  onExport: (format: ExportFormat, includeDetails: boolean, multiSheet: boolean) => Promise<void>;
   isExporting: boolean;
   exportProgress?: string | null;
+  onCancel?: () => void;  // Shown while a cancellable export runs
+  resumableExport?: ExportCheckpoint | null;
+  onResume?: () => Promise<void>;
+  onDiscardResume?: () => Promise<void>;
   disabled?: boolean;
   hasData: boolean;
   tabType?: AuditTabType;
@@ -18,12 +32,18 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
   onExport,
   isExporting,
   exportProgress,
+  onCancel,
+  resumableExport,
+  onResume,
+  onDiscardResume,
   disabled = false,
   hasData,
   tabType = 'details',
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [includeDetails, setIncludeDetails] = useState(true);
+  const [multiSheet, setMultiSheet] = useState(false);
+  const [isDiscardConfirmOpen, setIsDiscardConfirmOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   // User Access tab doesn't have attribute details
@@ -45,15 +65,48 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
 
   const handleExportCSV = useCallback(async () => {
     setIsOpen(false);
-    await onExport('csv', showDetailsOption && includeDetails);
+    await onExport('csv', showDetailsOption && includeDetails, false);
   }, [onExport, includeDetails, showDetailsOption]);
 
+  const handleExportXLSX = useCallback(async () => {
+    setIsOpen(false);
+    // Every sheet but User Access can carry details, so the option applies in multi-sheet mode
+    await onExport('xlsx', (multiSheet || showDetailsOption) && includeDetails, multiSheet);
+  }, [onExport, includeDetails, showDetailsOption, multiSheet]);
+
+  const handleExportFormat = useCallback(async (format: ExportFormat) => {
+    setIsOpen(false);
+    await onExport(format, showDetailsOption && includeDetails, false);
+  }, [onExport, includeDetails, showDetailsOption]);
+
+  const handleResume = useCallback(async () => {
+    setIsOpen(false);
+    await onResume?.();
+  }, [onResume]);
+
+  const handleDiscardResume = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsDiscardConfirmOpen(true);
+  }, []);
+
+  const handleConfirmDiscard = useCallback(async () => {
+    setIsDiscardConfirmOpen(false);
+    await onDiscardResume?.();
+  }, [onDiscardResume]);
+
+  const toggleMultiSheet = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setMultiSheet(prev => !prev);
+  }, []);
+
   const toggleIncludeDetails = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
     setIncludeDetails(prev => !prev);
   }, []);
 
   const isDisabled = disabled || !hasData || isExporting;
+  // Resuming uses the saved filters, so it doesn't need data in the current view
+  const canResume = !!resumableExport && !!onResume && !disabled && !isExporting;
 
   return (
     <div className="relative" ref={menuRef}>
@@ -61,7 +114,7 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
         <button
           className="btn-primary flex items-center gap-2 min-w-[100px]"
           onClick={() => setIsOpen(!isOpen)}
-          disabled={isDisabled}
+          disabled={isDisabled && !canResume}
         >
           {isExporting ? (
             <div className="spinner spinner-sm" />
@@ -75,10 +128,40 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
             {exportProgress}
           </span>
         )}
+        {isExporting && onCancel && (
+          <button className="btn-secondary text-sm" onClick={onCancel} title="Stop the export; rows already exported are kept">
+            Cancel
+          </button>
+        )}
       </div>
 
       {isOpen && (
         <div className="dropdown-menu right-0 w-72">
+          {resumableExport && (
+            <>
+              <div
+                className="dropdown-item justify-between"
+                onClick={canResume ? handleResume : undefined}
+                title={`Continue writing to ${resumableExport.firstPath}`}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <ArrowSyncIcon className="w-5 h-5 flex-shrink-0" />
+                  <div className="flex flex-col min-w-0">
+                    <span>Resume previous export</span>
+                    <span className="text-xs text-foreground-3 truncate">
+                      {resumableExport.format.toUpperCase()}, {resumableExport.rowsWritten.toLocaleString()} rows written, {formatDateTime(resumableExport.updatedAt)}
+                    </span>
+                  </div>
+                </div>
+                {onDiscardResume && (
+                  <button className="btn-icon flex-shrink-0" onClick={handleDiscardResume} title="Discard">
+                    <DeleteIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <div className="dropdown-divider" />
+            </>
+          )}
           <button
             className="dropdown-item w-full text-left"
             onClick={handleExportCSV}
@@ -87,10 +170,56 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
             <DocumentTableIcon className="w-5 h-5" />
             Export to CSV
           </button>
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={handleExportXLSX}
+            disabled={isDisabled}
+          >
+            <TableSimpleIcon className="w-5 h-5" />
+            Export to Excel
+          </button>
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={() => handleExportFormat('json')}
+            disabled={isDisabled}
+            title="Entries with their structured change details and a schema version header"
+          >
+            <DocumentTableIcon className="w-5 h-5" />
+            Export to JSON
+          </button>
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={() => handleExportFormat('ndjson')}
+            disabled={isDisabled}
+            title="One JSON entry per line after a schema version header, for SIEM and log ingestion"
+          >
+            <DocumentTableIcon className="w-5 h-5" />
+            Export to NDJSON
+          </button>
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={() => handleExportFormat('html')}
+            disabled={isDisabled}
+            title="Self-contained HTML report with a cover page, summary and change tables, printable to PDF"
+          >
+            <ShieldCheckmarkIcon className="w-5 h-5" />
+            Evidence report (HTML/PDF)
+          </button>
 
-          {showDetailsOption && (
+          <div className="dropdown-divider" />
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={toggleMultiSheet}
+            title="Excel only: data changes, record shares, role changes, metadata changes and user access on separate sheets"
+          >
+            <span className="w-4">
+              {multiSheet && <CheckmarkCircleIcon className="w-4 h-4" />}
+            </span>
+            One sheet per audit category
+          </button>
+
+          {(showDetailsOption || multiSheet) && (
             <>
-              <div className="dropdown-divider" />
               <button
                 className="dropdown-item w-full text-left"
                 onClick={toggleIncludeDetails}
@@ -102,13 +231,33 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
               </button>
               {includeDetails && (
                 <div className="px-3 py-2 text-xs text-foreground-3">
-                  Limited to {MAX_RECORDS_WITH_DETAILS.toLocaleString()} records when including details
+                  Excel, JSON and report exports are limited to {MAX_RECORDS_WITH_DETAILS.toLocaleString()} records when including details
                 </div>
               )}
             </>
           )}
         </div>
       )}
+
+      {/* Rendered inside the menu so clicks in the dialog don't close it */}
+      <ConfirmDialog
+        isOpen={isDiscardConfirmOpen && !!resumableExport}
+        title="Discard Unfinished Export"
+        confirmLabel="Discard"
+        isDestructive
+        onConfirm={handleConfirmDiscard}
+        onCancel={() => setIsDiscardConfirmOpen(false)}
+      >
+        {resumableExport && (
+          <>
+            <span>Discard the unfinished {resumableExport.format.toUpperCase()} export? It can't be resumed afterwards.</span>
+            <span className="text-foreground-3">
+              The {resumableExport.rowsWritten.toLocaleString()} rows already written stay in their files,
+              starting with {resumableExport.firstPath}.
+            </span>
+          </>
+        )}
+      </ConfirmDialog>
     </div>
   );
 };
@@ -0,0 +1,225 @@
+import React, { useCallback, useState, useRef, useEffect } from 'react';
+import { ConfirmDialog } from '../common/ConfirmDialog';
+import { BookmarkIcon, CopyIcon, DeleteIcon, EditIcon } from '../common/Icons';
+import { AuditFilterPreset } from '../../model/auditLog';
+import { describePresetDateRange } from '../../services/filterPresetService';
+
+interface FilterPresetMenuProps {
+  presets: AuditFilterPreset[];
+  onApply: (preset: AuditFilterPreset) => void;
+  onSave: (name: string, keepRelative: boolean) => Promise<boolean>;
+  onRename: (id: string, name: string) => Promise<boolean>;
+  onDuplicate: (id: string) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+// Action waiting for confirmation
+type PendingConfirm =
+  | { type: 'replace'; name: string }
+  | { type: 'delete'; preset: AuditFilterPreset };
+
+export const FilterPresetMenu: React.FC<FilterPresetMenuProps> = ({
+  presets,
+  onApply,
+  onSave,
+  onRename,
+  onDuplicate,
+  onDelete,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [keepRelative, setKeepRelative] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenamingId(null);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const handleApply = useCallback((preset: AuditFilterPreset) => {
+    setIsOpen(false);
+    onApply(preset);
+  }, [onApply]);
+
+  const savePreset = useCallback(async (name: string) => {
+    if (await onSave(name, keepRelative)) {
+      setNewName('');
+    }
+  }, [keepRelative, onSave]);
+
+  const handleSave = useCallback(async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (presets.some(p => p.name === name)) {
+      setPendingConfirm({ type: 'replace', name });
+      return;
+    }
+    await savePreset(name);
+  }, [newName, presets, savePreset]);
+
+  const startRename = useCallback((e: React.MouseEvent, preset: AuditFilterPreset) => {
+    e.stopPropagation();
+    setRenamingId(preset.id);
+    setRenameValue(preset.name);
+  }, []);
+
+  const commitRename = useCallback(async () => {
+    if (!renamingId) return;
+    if (await onRename(renamingId, renameValue)) {
+      setRenamingId(null);
+    }
+  }, [renamingId, renameValue, onRename]);
+
+  const handleDuplicate = useCallback(async (e: React.MouseEvent, preset: AuditFilterPreset) => {
+    e.stopPropagation();
+    await onDuplicate(preset.id);
+  }, [onDuplicate]);
+
+  const handleDelete = useCallback((e: React.MouseEvent, preset: AuditFilterPreset) => {
+    e.stopPropagation();
+    setPendingConfirm({ type: 'delete', preset });
+  }, []);
+
+  const handleConfirm = useCallback(async () => {
+    if (!pendingConfirm) return;
+    setPendingConfirm(null);
+    if (pendingConfirm.type === 'replace') {
+      await savePreset(pendingConfirm.name);
+    } else {
+      await onDelete(pendingConfirm.preset.id);
+    }
+  }, [pendingConfirm, savePreset, onDelete]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        className="btn-subtle flex items-center gap-1 text-sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        title="Saved filter presets"
+      >
+        <BookmarkIcon className="w-4 h-4" />
+        Presets
+      </button>
+
+      {isOpen && (
+        <div className="dropdown-menu right-0 w-80">
+          {presets.length === 0 ? (
+            <div className="px-4 py-2 text-sm text-foreground-3">No saved presets</div>
+          ) : (
+            <div className="max-h-64 overflow-y-auto">
+              {presets.map(preset => (
+                renamingId === preset.id ? (
+                  <div key={preset.id} className="flex items-center gap-2 px-3 py-1">
+                    <input
+                      type="text"
+                      className="input flex-1 text-sm"
+                      value={renameValue}
+                      onChange={e => setRenameValue(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      autoFocus
+                    />
+                    <button className="btn-secondary text-sm" onClick={commitRename} disabled={!renameValue.trim()}>
+                      Save
+                    </button>
+                  </div>
+                ) : (
+                  <div
+                    key={preset.id}
+                    className="dropdown-item justify-between"
+                    onClick={() => handleApply(preset)}
+                    title="Apply preset"
+                  >
+                    <div className="flex flex-col min-w-0">
+                      <span className="truncate">{preset.name}</span>
+                      <span className="text-xs text-foreground-3">{describePresetDateRange(preset.dateRange)}</span>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button className="btn-icon" onClick={e => startRename(e, preset)} title="Rename">
+                        <EditIcon className="w-4 h-4" />
+                      </button>
+                      <button className="btn-icon" onClick={e => handleDuplicate(e, preset)} title="Duplicate">
+                        <CopyIcon className="w-4 h-4" />
+                      </button>
+                      <button className="btn-icon" onClick={e => handleDelete(e, preset)} title="Delete">
+                        <DeleteIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )
+              ))}
+            </div>
+          )}
+
+          <div className="dropdown-divider" />
+
+          {/* Save the current filters */}
+          <div className="flex flex-col gap-2 px-3 py-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                className="input flex-1 text-sm"
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleSave();
+                }}
+                placeholder="Preset name"
+              />
+              <button className="btn-primary text-sm" onClick={handleSave} disabled={!newName.trim()}>
+                Save
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-foreground-3">
+              <input
+                type="checkbox"
+                className="checkbox"
+                checked={keepRelative}
+                onChange={e => setKeepRelative(e.target.checked)}
+              />
+              Keep dates relative (e.g. last 7 days)
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Rendered inside the menu so clicks in the dialog don't close it */}
+      <ConfirmDialog
+        isOpen={!!pendingConfirm}
+        title={pendingConfirm?.type === 'delete' ? 'Delete Preset' : 'Replace Preset'}
+        confirmLabel={pendingConfirm?.type === 'delete' ? 'Delete' : 'Replace'}
+        isDestructive={pendingConfirm?.type === 'delete'}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingConfirm(null)}
+      >
+        {pendingConfirm?.type === 'delete' && (
+          <span>Delete the preset <span className="font-semibold">{pendingConfirm.preset.name}</span>?</span>
+        )}
+        {pendingConfirm?.type === 'replace' && (
+          <span>
+            A preset named <span className="font-semibold">{pendingConfirm.name}</span> already exists. Replace it
+            with the current filters?
+          </span>
+        )}
+      </ConfirmDialog>
+    </div>
+  );
+};
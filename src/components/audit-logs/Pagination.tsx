@@ -1,6 +1,7 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { PaginationState } from '../../model/auditLog';
 import { pageSizeOptions } from '../../utils/constants';
+import { formatDateTime } from '../../utils/formatters';
 import {
   ChevronLeftIcon,
   ChevronRightIcon,
@@ -13,6 +14,14 @@ interface PaginationProps {
   onPageChange: (page: number) => void;
   onPageSizeChange: (size: number) => void;
   canNavigateToPage?: (page: number) => boolean;
+  // Jump to date navigation (omit onJumpToDate to hide it)
+  onJumpToDate?: (date: Date | null) => void;
+  canGoBack?: boolean;
+  canGoForward?: boolean;
+  onBack?: () => void;
+  onForward?: () => void;
+  // Date range of the records on the current page
+  dateWindow?: { from: Date; to: Date } | null;
   disabled?: boolean;
 }
 
@@ -21,9 +30,16 @@ export const Pagination: React.FC<PaginationProps> = ({
   onPageChange,
   onPageSizeChange,
   canNavigateToPage,
+  onJumpToDate,
+  canGoBack = false,
+  canGoForward = false,
+  onBack,
+  onForward,
+  dateWindow,
   disabled = false,
 }) => {
-  const { pageNumber, pageSize, totalCount, hasMoreRecords } = pagination;
+  const { pageNumber, pageSize, totalCount, hasMoreRecords, anchorDate } = pagination;
+  const [jumpValue, setJumpValue] = useState('');
   const totalPages = Math.ceil(totalCount / pageSize) || 1;
   const startRecord = totalCount > 0 ? (pageNumber - 1) * pageSize + 1 : 0;
   const endRecord = Math.min(pageNumber * pageSize, totalCount);
@@ -58,6 +74,14 @@ export const Pagination: React.FC<PaginationProps> = ({
     }
   }, [canGoToLast, totalPages, onPageChange]);
 
+  const handleJump = useCallback(() => {
+    if (!onJumpToDate || !jumpValue) return;
+    const date = new Date(jumpValue);
+    if (!isNaN(date.getTime())) {
+      onJumpToDate(date);
+    }
+  }, [onJumpToDate, jumpValue]);
+
   const handlePageSizeChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
       onPageSizeChange(Number(e.target.value));
@@ -105,7 +129,57 @@ export const Pagination: React.FC<PaginationProps> = ({
         </button>
       </div>
 
+      {onJumpToDate && (
+        <div className="flex items-center gap-2">
+          <button
+            className="btn-subtle text-sm"
+            onClick={onBack}
+            disabled={disabled || !canGoBack}
+            title="Back to the previous date jumped to"
+          >
+            Back
+          </button>
+          <button
+            className="btn-subtle text-sm"
+            onClick={onForward}
+            disabled={disabled || !canGoForward}
+            title="Forward to the next date jumped to"
+          >
+            Forward
+          </button>
+          <input
+            type="datetime-local"
+            className="input text-sm py-1"
+            value={jumpValue}
+            onChange={e => setJumpValue(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleJump();
+            }}
+            disabled={disabled}
+            title="Date and time to jump to"
+          />
+          <button className="btn-secondary text-sm" onClick={handleJump} disabled={disabled || !jumpValue}>
+            Go
+          </button>
+          {anchorDate && (
+            <button
+              className="btn-subtle text-sm"
+              onClick={() => onJumpToDate(null)}
+              disabled={disabled}
+              title="Back to the start of the results"
+            >
+              Latest
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
+        {dateWindow && (
+          <span className="text-foreground-3 whitespace-nowrap text-xs" title="Dates of the records on this page">
+            {formatDateTime(dateWindow.from)} – {formatDateTime(dateWindow.to)}
+          </span>
+        )}
         <span className="text-foreground-2 whitespace-nowrap text-sm">
           Showing {startRecord}-{endRecord} of {totalCount}
         </span>
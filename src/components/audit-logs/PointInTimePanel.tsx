@@ -0,0 +1,157 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import { RecordSnapshot } from '../../model/auditLog';
+import { reconstructRecordAt } from '../../services/recordSnapshotService';
+import { formatDateTime, formatDateTimeForInput } from '../../utils/formatters';
+import { ErrorCircleIcon } from '../common/Icons';
+
+interface PointInTimePanelProps {
+  entityLogicalName: string;
+  recordId: string;
+}
+
+export const PointInTimePanel: React.FC<PointInTimePanelProps> = ({
+  entityLogicalName,
+  recordId,
+}) => {
+  const [pointInTime, setPointInTime] = useState(() => formatDateTimeForInput(new Date()));
+  const [snapshot, setSnapshot] = useState<RecordSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const handleReconstruct = useCallback(async () => {
+    const date = new Date(pointInTime);
+    if (isNaN(date.getTime())) {
+      setError('Enter a valid date and time');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await reconstructRecordAt(entityLogicalName, recordId, date);
+      setSnapshot(result);
+    } catch (err) {
+      console.error('[PointInTimePanel] Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to reconstruct record');
+      setSnapshot(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityLogicalName, recordId, pointInTime]);
+
+  const visibleAttributes = useMemo(() => {
+    if (!snapshot) return [];
+    return changedOnly
+      ? snapshot.attributes.filter(a => a.changedSince || a.hasGap)
+      : snapshot.attributes;
+  }, [snapshot, changedOnly]);
+
+  const gapCount = snapshot ? snapshot.attributes.filter(a => a.hasGap).length : 0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Point in time picker */}
+      <div className="flex items-end gap-3 flex-wrap">
+        <div className="flex flex-col gap-1">
+          <label className="text-xs text-foreground-3">Show record as of</label>
+          <input
+            type="datetime-local"
+            className="input"
+            value={pointInTime}
+            max={formatDateTimeForInput(new Date())}
+            onChange={e => setPointInTime(e.target.value)}
+          />
+        </div>
+        <button className="btn-primary" onClick={handleReconstruct} disabled={isLoading || !pointInTime}>
+          {isLoading ? 'Reconstructing...' : 'Reconstruct'}
+        </button>
+        {snapshot && (
+          <label className="flex items-center gap-2 text-sm ml-auto">
+            <input
+              type="checkbox"
+              className="checkbox"
+              checked={changedOnly}
+              onChange={e => setChangedOnly(e.target.checked)}
+            />
+            Only fields that differ from today
+          </label>
+        )}
+      </div>
+
+      {error && (
+        <div className="py-2 text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-4">
+            <div className="spinner spinner-md text-blue-600" />
+            <span className="text-foreground-3">Replaying changes...</span>
+          </div>
+        </div>
+      )}
+
+      {!isLoading && snapshot && (
+        <>
+          {/* Snapshot summary */}
+          <div className="flex gap-4 flex-wrap text-xs text-foreground-3">
+            <span>As of {formatDateTime(snapshot.pointInTime)}</span>
+            <span>{snapshot.replayedChanges} field change{snapshot.replayedChanges !== 1 ? 's' : ''} undone</span>
+            {snapshot.isDeleted && <span className="badge badge-danger">Record deleted</span>}
+            {gapCount > 0 && (
+              <span className="badge badge-warning">
+                {gapCount} field{gapCount !== 1 ? 's' : ''} with incomplete history
+              </span>
+            )}
+          </div>
+
+          {!snapshot.existedAtTime ? (
+            <div className="py-12 text-center text-foreground-3">
+              The record did not exist yet at this point in time
+            </div>
+          ) : visibleAttributes.length === 0 ? (
+            <div className="py-12 text-center text-foreground-3">
+              No fields differ from the current record
+            </div>
+          ) : (
+            <div className="overflow-auto border border-stroke-1 rounded max-h-[360px]">
+              <table className="table w-full min-w-[600px]">
+                <thead className="table-header sticky top-0 bg-background-3 z-10">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold text-left">Field</th>
+                    <th className="px-3 py-2 font-semibold text-left">Value at Date</th>
+                    <th className="px-3 py-2 font-semibold text-left">Current Value</th>
+                    <th className="px-3 py-2 font-semibold text-left w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleAttributes.map(attr => (
+                    <tr key={attr.attributeName} className="table-row">
+                      <td className="px-3 py-2" title={attr.attributeName}>
+                        {attr.attributeDisplayName}
+                      </td>
+                      <td className={`px-3 py-2 text-xs break-all ${attr.changedSince ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        {attr.value || '(empty)'}
+                      </td>
+                      <td className="px-3 py-2 text-xs break-all text-foreground-2">
+                        {attr.currentValue || '(empty)'}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {attr.hasGap && (
+                          <span title={attr.gapReason}>
+                            <ErrorCircleIcon className="w-4 h-4 text-yellow-600 dark:text-yellow-400" />
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
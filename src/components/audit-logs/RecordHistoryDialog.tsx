@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { AuditLogEntry, AuditDetail } from '../../model/auditLog';
-import { retrieveRecordChangeHistory, getAuditDetails } from '../../services/auditLogService';
+import React, { useState, useEffect } from 'react';
+import { AuditLogEntry, AttributeHistory } from '../../model/auditLog';
+import { useRecordHistory } from '../../hooks/useRecordHistory';
 import { formatDateTime } from '../../utils/formatters';
 import { getOperationColor } from '../../utils/auditHelpers';
 import { DismissIcon, InfoIcon } from '../common/Icons';
+import { PointInTimePanel } from './PointInTimePanel';
 
 interface RecordHistoryDialogProps {
   entry: AuditLogEntry | null;
@@ -12,6 +13,14 @@ interface RecordHistoryDialogProps {
   tableDisplayName?: string;
 }
 
+type HistoryView = 'timeline' | 'fields' | 'snapshot';
+
+const HISTORY_VIEWS: { value: HistoryView; label: string }[] = [
+  { value: 'timeline', label: 'Timeline' },
+  { value: 'fields', label: 'Field History' },
+  { value: 'snapshot', label: 'Point in Time' },
+];
+
 // Map operation color to Tailwind class
 function getOperationBadgeClass(operation: number): string {
   const color = getOperationColor(operation);
@@ -29,68 +38,174 @@ function getOperationBadgeClass(operation: number): string {
   }
 }
 
+// Render the value progression of a single attribute
+const FieldHistoryCard: React.FC<{ history: AttributeHistory }> = ({ history }) => {
+  const firstChange = history.changes[0];
+
+  return (
+    <div className="border border-stroke-1 rounded">
+      <div className="flex items-center justify-between px-3 py-2 bg-background-3 border-b border-stroke-1">
+        <span className="font-semibold text-sm">{history.attributeDisplayName}</span>
+        <span className="text-xs text-foreground-3">
+          {history.attributeName} · {history.changes.length} change{history.changes.length !== 1 ? 's' : ''}
+        </span>
+      </div>
+      <div className="flex flex-col px-3 py-2 gap-1">
+        {/* Starting value before the first recorded change */}
+        <div className="flex items-baseline gap-3 text-xs">
+          <span className="w-[140px] shrink-0 text-foreground-3">Initial value</span>
+          <span className="text-foreground-2">{firstChange?.oldValue || '(empty)'}</span>
+        </div>
+        {history.changes.map(change => (
+          <div key={change.auditId} className="flex items-baseline gap-3 text-xs">
+            <span className="w-[140px] shrink-0 font-mono text-foreground-3">
+              {formatDateTime(change.changedOn)}
+            </span>
+            <span className="text-green-600 dark:text-green-400 break-all">
+              {change.newValue || '(empty)'}
+            </span>
+            <span className="ml-auto shrink-0 text-foreground-3" title={change.changedBy}>
+              {change.changedBy}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 export const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({
   entry,
   isOpen,
   onClose,
   tableDisplayName,
 }) => {
-  const [historyEntries, setHistoryEntries] = useState<AuditLogEntry[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [activeView, setActiveView] = useState<HistoryView>('timeline');
   const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
-  const [entryDetails, setEntryDetails] = useState<Map<string, AuditDetail[]>>(new Map());
-  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
 
-  // Fetch record history when dialog opens
+  const {
+    entries: historyEntries,
+    attributeHistory,
+    totalCount,
+    hasMoreRecords,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+  } = useRecordHistory(entry?.objectTypeCode || null, entry?.objectId || null, isOpen);
+
+  // Reset view state when a different record is opened
   useEffect(() => {
-    if (isOpen && entry?.objectTypeCode && entry?.objectId) {
-      setIsLoading(true);
-      setError(null);
-      setHistoryEntries([]);
+    if (isOpen) {
+      setActiveView('timeline');
       setExpandedEntryId(null);
-      setEntryDetails(new Map());
-
-      retrieveRecordChangeHistory(entry.objectTypeCode, entry.objectId)
-        .then(entries => {
-          setHistoryEntries(entries);
-        })
-        .catch(err => {
-          console.error('[RecordHistoryDialog] Error:', err);
-          setError(err.message || 'Failed to retrieve record history');
-        })
-        .finally(() => {
-          setIsLoading(false);
-        });
     }
-  }, [isOpen, entry?.objectTypeCode, entry?.objectId]);
+  }, [isOpen, entry?.objectId]);
 
-  // Handle viewing details for a specific entry
-  const handleViewDetails = useCallback(async (historyEntry: AuditLogEntry) => {
-    if (expandedEntryId === historyEntry.id) {
-      setExpandedEntryId(null);
-      return;
-    }
+  if (!isOpen || !entry) return null;
 
-    setExpandedEntryId(historyEntry.id);
+  const renderTimeline = () => (
+    <div className="overflow-auto border border-stroke-1 rounded max-h-[400px]">
+      <table className="table w-full min-w-[600px]">
+        <thead className="table-header sticky top-0 bg-background-3 z-10">
+          <tr>
+            <th className="w-10 p-0" />
+            <th className="px-3 py-2 font-semibold text-left">Date/Time</th>
+            <th className="px-3 py-2 font-semibold text-left">Operation</th>
+            <th className="px-3 py-2 font-semibold text-left">Action</th>
+            <th className="px-3 py-2 font-semibold text-left">Changed By</th>
+            <th className="px-3 py-2 font-semibold text-left">Fields</th>
+          </tr>
+        </thead>
+        <tbody>
+          {historyEntries.map(historyEntry => {
+            const isExpanded = expandedEntryId === historyEntry.id;
+            const attributeDetails = (historyEntry.details || []).filter(d => d.type === 'attribute');
+            const badgeClass = getOperationBadgeClass(historyEntry.operation);
 
-    // Check if we already have details
-    if (entryDetails.has(historyEntry.id)) {
-      return;
-    }
+            return (
+              <React.Fragment key={historyEntry.id}>
+                <tr className="table-row">
+                  <td className="p-1 text-center">
+                    <button
+                      className="btn-icon btn-subtle p-1"
+                      onClick={() => setExpandedEntryId(isExpanded ? null : historyEntry.id)}
+                      title={isExpanded ? 'Hide details' : 'Show details'}
+                    >
+                      <InfoIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap font-mono text-xs">
+                    {formatDateTime(historyEntry.createdOn)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`badge ${badgeClass}`}>
+                      {historyEntry.operationLabel}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    {historyEntry.actionLabel}
+                  </td>
+                  <td className="px-3 py-2 text-truncate" title={historyEntry.userName}>
+                    {historyEntry.userName}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-foreground-3">
+                    {attributeDetails.length}
+                  </td>
+                </tr>
+                {isExpanded && (
+                  <tr>
+                    <td colSpan={6} className="bg-background-2 p-3">
+                      {attributeDetails.length === 0 ? (
+                        <span className="text-xs text-foreground-3">No attribute changes recorded</span>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-3 gap-2 pb-1 border-b border-stroke-2">
+                            <span className="font-semibold text-xs">Attribute</span>
+                            <span className="font-semibold text-xs">Old Value</span>
+                            <span className="font-semibold text-xs">New Value</span>
+                          </div>
+                          {attributeDetails.map((detail, idx) => (
+                            <div key={idx} className="grid grid-cols-3 gap-2 py-1 border-b border-stroke-2 text-xs">
+                              <span>{detail.type === 'attribute' ? detail.attributeDisplayName : ''}</span>
+                              <span className="text-red-600 dark:text-red-400">
+                                {detail.type === 'attribute' ? (detail.oldValue || '(empty)') : ''}
+                              </span>
+                              <span className="text-green-600 dark:text-green-400">
+                                {detail.type === 'attribute' ? (detail.newValue || '(empty)') : ''}
+                              </span>
+                            </div>
+                          ))}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
 
-    setIsLoadingDetails(true);
-    try {
-      const details = await getAuditDetails(historyEntry.id, historyEntry.objectTypeCode, historyEntry);
-      setEntryDetails(prev => new Map(prev).set(historyEntry.id, details));
-    } catch (err) {
-      console.error('[RecordHistoryDialog] Error loading details:', err);
-    } finally {
-      setIsLoadingDetails(false);
+  const renderFieldHistory = () => {
+    if (attributeHistory.length === 0) {
+      return (
+        <div className="py-12 text-center text-foreground-3">
+          No attribute changes recorded for this record
+        </div>
+      );
     }
-  }, [expandedEntryId, entryDetails]);
 
-  if (!isOpen || !entry) return null;
+    return (
+      <div className="flex flex-col gap-3 overflow-auto max-h-[400px]">
+        {attributeHistory.map(history => (
+          <FieldHistoryCard key={history.attributeName} history={history} />
+        ))}
+      </div>
+    );
+  };
 
   const renderContent = () => {
     if (isLoading) {
@@ -104,7 +219,7 @@ export const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({
       );
     }
 
-    if (error) {
+    if (error && historyEntries.length === 0) {
       return (
         <div className="py-6 text-center text-red-600 dark:text-red-400">
           {error}
@@ -121,90 +236,22 @@ export const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({
     }
 
     return (
-      <div className="overflow-auto border border-stroke-1 rounded max-h-[400px]">
-        <table className="table w-full min-w-[600px]">
-          <thead className="table-header sticky top-0 bg-background-3 z-10">
-            <tr>
-              <th className="w-10 p-0" />
-              <th className="px-3 py-2 font-semibold text-left">Date/Time</th>
-              <th className="px-3 py-2 font-semibold text-left">Operation</th>
-              <th className="px-3 py-2 font-semibold text-left">Action</th>
-              <th className="px-3 py-2 font-semibold text-left">Changed By</th>
-            </tr>
-          </thead>
-          <tbody>
-            {historyEntries.map(historyEntry => {
-              const isExpanded = expandedEntryId === historyEntry.id;
-              const details = entryDetails.get(historyEntry.id) || [];
-              const attributeDetails = details.filter(d => d.type === 'attribute');
-              const badgeClass = getOperationBadgeClass(historyEntry.operation);
-
-              return (
-                <React.Fragment key={historyEntry.id}>
-                  <tr className="table-row">
-                    <td className="p-1 text-center">
-                      <button
-                        className="btn-icon btn-subtle p-1"
-                        onClick={() => handleViewDetails(historyEntry)}
-                        title={isExpanded ? 'Hide details' : 'Show details'}
-                      >
-                        <InfoIcon className="w-4 h-4" />
-                      </button>
-                    </td>
-                    <td className="px-3 py-2 whitespace-nowrap font-mono text-xs">
-                      {formatDateTime(historyEntry.createdOn)}
-                    </td>
-                    <td className="px-3 py-2">
-                      <span className={`badge ${badgeClass}`}>
-                        {historyEntry.operationLabel}
-                      </span>
-                    </td>
-                    <td className="px-3 py-2">
-                      {historyEntry.actionLabel}
-                    </td>
-                    <td className="px-3 py-2 text-truncate" title={historyEntry.userName}>
-                      {historyEntry.userName}
-                    </td>
-                  </tr>
-                  {isExpanded && (
-                    <tr>
-                      <td colSpan={5} className="bg-background-2 p-3">
-                        {isLoadingDetails && !entryDetails.has(historyEntry.id) ? (
-                          <div className="flex items-center gap-2">
-                            <div className="spinner spinner-sm text-blue-600" />
-                            <span className="text-sm text-foreground-3">Loading details...</span>
-                          </div>
-                        ) : attributeDetails.length === 0 ? (
-                          <span className="text-xs text-foreground-3">No attribute changes recorded</span>
-                        ) : (
-                          <>
-                            <div className="grid grid-cols-3 gap-2 pb-1 border-b border-stroke-2">
-                              <span className="font-semibold text-xs">Attribute</span>
-                              <span className="font-semibold text-xs">Old Value</span>
-                              <span className="font-semibold text-xs">New Value</span>
-                            </div>
-                            {attributeDetails.map((detail, idx) => (
-                              <div key={idx} className="grid grid-cols-3 gap-2 py-1 border-b border-stroke-2 text-xs">
-                                <span>{detail.type === 'attribute' ? detail.attributeDisplayName : ''}</span>
-                                <span className="text-red-600 dark:text-red-400">
-                                  {detail.type === 'attribute' ? (detail.oldValue || '(empty)') : ''}
-                                </span>
-                                <span className="text-green-600 dark:text-green-400">
-                                  {detail.type === 'attribute' ? (detail.newValue || '(empty)') : ''}
-                                </span>
-                              </div>
-                            ))}
-                          </>
-                        )}
-                      </td>
-                    </tr>
-                  )}
-                </React.Fragment>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+      <>
+        {activeView === 'timeline' ? renderTimeline() : renderFieldHistory()}
+
+        {/* Older pages are requested with the paging cookie from the previous response */}
+        <div className="flex items-center justify-between mt-3 text-xs text-foreground-3">
+          <span>
+            Showing {historyEntries.length} of {Math.max(totalCount, historyEntries.length)} changes
+          </span>
+          {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+          {hasMoreRecords && (
+            <button className="btn-secondary" onClick={loadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? 'Loading...' : 'Load older changes'}
+            </button>
+          )}
+        </div>
+      </>
     );
   };
 
@@ -236,8 +283,25 @@ export const RecordHistoryDialog: React.FC<RecordHistoryDialogProps> = ({
             </div>
           </div>
 
-          {/* History entries */}
-          {renderContent()}
+          {/* View switcher */}
+          <div className="flex border-b border-stroke-1 mb-3">
+            {HISTORY_VIEWS.map(view => (
+              <button
+                key={view.value}
+                className={`tab ${activeView === view.value ? 'tab-active' : ''}`}
+                onClick={() => setActiveView(view.value)}
+              >
+                {view.label}
+              </button>
+            ))}
+          </div>
+
+          {/* History entries, or the record reconstructed at a chosen date */}
+          {activeView === 'snapshot' ? (
+            <PointInTimePanel entityLogicalName={entry.objectTypeCode} recordId={entry.objectId} />
+          ) : (
+            renderContent()
+          )}
         </div>
         <div className="dialog-footer">
           <button className="btn-secondary" onClick={onClose}>
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuditLogEntry, RecreateRecordPlan, RecreateRecordResult, RecreateField } from '../../model/auditLog';
+import { buildRecreatePlan, recreateRecord } from '../../services/recreateService';
+import { DismissIcon } from '../common/Icons';
+
+interface RecreateRecordDialogProps {
+  entry: AuditLogEntry | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RecreateRecordDialog: React.FC<RecreateRecordDialogProps> = ({
+  entry,
+  isOpen,
+  onClose,
+}) => {
+  const [plan, setPlan] = useState<RecreateRecordPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [result, setResult] = useState<RecreateRecordResult | null>(null);
+
+  // Build the plan from the delete snapshot when the dialog opens
+  useEffect(() => {
+    if (!isOpen || !entry) return;
+
+    setIsLoading(true);
+    setPlan(null);
+    setResult(null);
+
+    buildRecreatePlan(entry)
+      .then(setPlan)
+      .catch(err => {
+        console.error('[RecreateRecordDialog] Error:', err);
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [isOpen, entry]);
+
+  const handleRecreate = useCallback(async () => {
+    if (!plan) return;
+
+    setIsCreating(true);
+    try {
+      const recreateResult = await recreateRecord(plan);
+      setResult(recreateResult);
+
+      await window.toolboxAPI.utils.showNotification({
+        title: recreateResult.success ? 'Record Recreated' : 'Recreate Failed',
+        body: recreateResult.success
+          ? `${plan.recordName} was recreated${recreateResult.keptOriginalId ? ' with its original ID' : ' with a new ID'}`
+          : recreateResult.error || 'Unknown error',
+        type: recreateResult.success ? 'success' : 'error',
+        duration: recreateResult.success ? 3000 : 5000,
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }, [plan]);
+
+  if (!isOpen || !entry) return null;
+
+  const renderFieldTable = (fields: RecreateField[], showReason: boolean) => (
+    <table className="table w-full">
+      <thead className="table-header">
+        <tr>
+          <th className="px-3 py-2 font-semibold text-left">Field</th>
+          <th className="px-3 py-2 font-semibold text-left">Value</th>
+          {showReason && <th className="px-3 py-2 font-semibold text-left">Reason</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => (
+          <tr key={field.attributeName} className="table-row">
+            <td className="px-3 py-2" title={field.attributeName}>{field.attributeDisplayName}</td>
+            <td className="px-3 py-2 text-xs break-all">{field.value || '(empty)'}</td>
+            {showReason && <td className="px-3 py-2 text-xs text-foreground-3">{field.skipReason}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-4">
+            <div className="spinner spinner-md text-blue-600" />
+            <span className="text-foreground-3">Checking the delete snapshot...</span>
+          </div>
+        </div>
+      );
+    }
+
+    if (!plan) {
+      return null;
+    }
+
+    if (result) {
+      return result.success ? (
+        <div className="flex flex-col gap-2 py-6 text-center">
+          <span className="font-semibold text-green-600 dark:text-green-400">Record recreated</span>
+          <span className="text-sm text-foreground-3 font-mono">{result.recordId}</span>
+          {!result.keptOriginalId && (
+            <span className="text-sm text-foreground-3">
+              The original ID could not be reused, so lookups and links to the old ID are not restored.
+            </span>
+          )}
+        </div>
+      ) : (
+        <div className="py-6 text-center text-red-600 dark:text-red-400">{result.error}</div>
+      );
+    }
+
+    if (plan.error) {
+      return <div className="py-6 text-center text-red-600 dark:text-red-400">{plan.error}</div>;
+    }
+
+    return (
+      <div className="flex flex-col gap-4 overflow-auto max-h-[460px]">
+        <div>
+          <span className="font-semibold text-sm">
+            Fields to restore ({plan.fields.length})
+          </span>
+          <div className="border border-stroke-1 rounded mt-1">
+            {renderFieldTable(plan.fields, false)}
+          </div>
+        </div>
+        {plan.skippedFields.length > 0 && (
+          <div>
+            <span className="font-semibold text-sm text-yellow-700 dark:text-yellow-400">
+              Fields that can't be restored ({plan.skippedFields.length})
+            </span>
+            <div className="border border-stroke-1 rounded mt-1">
+              {renderFieldTable(plan.skippedFields, true)}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="dialog-backdrop" onClick={isCreating ? undefined : onClose} />
+
+      {/* Dialog */}
+      <div className="dialog max-w-3xl w-[95vw] max-h-[80vh]">
+        <div className="dialog-header">
+          <span className="font-semibold text-lg">Recreate Record</span>
+          <button className="btn-icon btn-subtle" onClick={onClose} disabled={isCreating}>
+            <DismissIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="dialog-body">
+          {/* Record info header */}
+          <div className="flex gap-8 p-3 bg-background-3 rounded mb-4">
+            <div className="flex flex-col gap-0.5">
+              <span className="text-xs text-foreground-3">Table</span>
+              <span className="font-semibold">{entry.objectTypeCode}</span>
+            </div>
+            <div className="flex flex-col gap-0.5">
+              <span className="text-xs text-foreground-3">Record</span>
+              <span className="font-semibold">{entry.objectName}</span>
+            </div>
+            <div className="flex flex-col gap-0.5">
+              <span className="text-xs text-foreground-3">Original ID</span>
+              <span className="font-mono text-xs">{entry.objectId}</span>
+            </div>
+          </div>
+
+          {renderBody()}
+        </div>
+        <div className="dialog-footer">
+          <button className="btn-secondary" onClick={onClose} disabled={isCreating}>
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              className="btn-primary"
+              onClick={handleRecreate}
+              disabled={isLoading || isCreating || !plan || !!plan.error || plan.fields.length === 0}
+            >
+              {isCreating ? 'Recreating...' : 'Recreate record'}
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuditLogEntry, RevertRecordPlan, RevertFieldChange } from '../../model/auditLog';
+import { BulkOperationResult } from '../../model/audit';
+import { buildRevertPlan, applyRevertPlans, getFieldsToRevert } from '../../services/revertService';
+import { DismissIcon } from '../common/Icons';
+
+interface RevertChangesDialogProps {
+  entries: AuditLogEntry[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Status badge for a field in the dry-run diff
+function getFieldStatus(field: RevertFieldChange, includeConflicts: boolean): { label: string; className: string } {
+  if (field.isAlreadyRestored) {
+    return { label: 'Already restored', className: 'badge-neutral' };
+  }
+  if (field.hasConflict) {
+    return includeConflicts
+      ? { label: 'Conflict - overwrite', className: 'badge-danger' }
+      : { label: 'Conflict - skipped', className: 'badge-warning' };
+  }
+  return { label: 'Will restore', className: 'badge-success' };
+}
+
+export const RevertChangesDialog: React.FC<RevertChangesDialogProps> = ({
+  entries,
+  isOpen,
+  onClose,
+}) => {
+  const [plans, setPlans] = useState<RevertRecordPlan[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [includeConflicts, setIncludeConflicts] = useState(false);
+  const [result, setResult] = useState<BulkOperationResult | null>(null);
+
+  // Build the dry run against the live records when the dialog opens
+  useEffect(() => {
+    if (!isOpen || entries.length === 0) return;
+
+    setIsLoading(true);
+    setPlans([]);
+    setResult(null);
+    setIncludeConflicts(false);
+
+    buildRevertPlan(entries)
+      .then(setPlans)
+      .catch(err => {
+        console.error('[RevertChangesDialog] Error:', err);
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, [isOpen, entries]);
+
+  const fieldsToWrite = plans.reduce((sum, p) => sum + (p.error ? 0 : getFieldsToRevert(p, includeConflicts).length), 0);
+  const conflictCount = plans.reduce((sum, p) => sum + p.fields.filter(f => f.hasConflict && !f.isAlreadyRestored).length, 0);
+
+  const handleApply = useCallback(async () => {
+    setIsApplying(true);
+    try {
+      const bulkResult = await applyRevertPlans(plans, includeConflicts);
+      setResult(bulkResult);
+
+      await window.toolboxAPI.utils.showNotification({
+        title: bulkResult.failed === 0 ? 'Changes Reverted' : 'Revert Completed with Errors',
+        body: `${bulkResult.success} record(s) reverted, ${bulkResult.failed} failed`,
+        type: bulkResult.failed === 0 ? 'success' : 'warning',
+        duration: bulkResult.failed === 0 ? 3000 : 5000,
+      });
+    } catch (error) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Revert Failed',
+        body: error instanceof Error ? error.message : 'Unknown error',
+        type: 'error',
+        duration: 5000,
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  }, [plans, includeConflicts]);
+
+  if (!isOpen) return null;
+
+  const renderPlan = (plan: RevertRecordPlan) => (
+    <div key={`${plan.entityLogicalName}:${plan.recordId}`} className="border border-stroke-1 rounded">
+      <div className="flex items-center justify-between px-3 py-2 bg-background-3 border-b border-stroke-1">
+        <span className="font-semibold text-sm">{plan.recordName}</span>
+        <span className="text-xs text-foreground-3">
+          {plan.entityLogicalName} · {plan.auditIds.length} audit entr{plan.auditIds.length !== 1 ? 'ies' : 'y'}
+        </span>
+      </div>
+      {plan.error ? (
+        <div className="px-3 py-2 text-sm text-red-600 dark:text-red-400">{plan.error}</div>
+      ) : (
+        <table className="table w-full">
+          <thead className="table-header">
+            <tr>
+              <th className="px-3 py-2 font-semibold text-left">Field</th>
+              <th className="px-3 py-2 font-semibold text-left">Live Value</th>
+              <th className="px-3 py-2 font-semibold text-left">Restore To</th>
+              <th className="px-3 py-2 font-semibold text-left w-[150px]">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.fields.map(field => {
+              const status = getFieldStatus(field, includeConflicts);
+              return (
+                <tr key={field.attributeName} className="table-row">
+                  <td className="px-3 py-2" title={field.attributeName}>{field.attributeDisplayName}</td>
+                  <td className="px-3 py-2 text-xs break-all">
+                    <span className="text-red-600 dark:text-red-400">{field.liveValue || '(empty)'}</span>
+                    {field.hasConflict && !field.isAlreadyRestored && (
+                      <div className="text-foreground-3">Expected: {field.expectedValue || '(empty)'}</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs break-all text-green-600 dark:text-green-400">
+                    {field.restoreValue || '(empty)'}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`badge ${status.className}`}>{status.label}</span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="dialog-backdrop" onClick={isApplying ? undefined : onClose} />
+
+      {/* Dialog */}
+      <div className="dialog max-w-4xl w-[95vw] max-h-[80vh]">
+        <div className="dialog-header">
+          <span className="font-semibold text-lg">Revert Changes</span>
+          <button className="btn-icon btn-subtle" onClick={onClose} disabled={isApplying}>
+            <DismissIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="dialog-body">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="flex flex-col items-center gap-4">
+                <div className="spinner spinner-md text-blue-600" />
+                <span className="text-foreground-3">Comparing with the live records...</span>
+              </div>
+            </div>
+          ) : result ? (
+            <div className="flex flex-col gap-3">
+              <div className="flex gap-8 p-3 bg-background-3 rounded">
+                <div className="flex flex-col gap-0.5">
+                  <span className="text-xs text-foreground-3">Reverted</span>
+                  <span className="font-semibold text-green-600 dark:text-green-400">{result.success}</span>
+                </div>
+                <div className="flex flex-col gap-0.5">
+                  <span className="text-xs text-foreground-3">Failed</span>
+                  <span className="font-semibold text-red-600 dark:text-red-400">{result.failed}</span>
+                </div>
+              </div>
+              {result.errors.length > 0 && (
+                <ul className="flex flex-col gap-1 text-sm text-red-600 dark:text-red-400">
+                  {result.errors.map((error, idx) => (
+                    <li key={idx}>{error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : plans.length === 0 ? (
+            <div className="py-12 text-center text-foreground-3">
+              No update entries to revert in the selection
+            </div>
+          ) : (
+            <div className="flex flex-col gap-3">
+              <p className="text-sm text-foreground-2">
+                Review the values that will be written back. Nothing is changed until you apply.
+              </p>
+              {conflictCount > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="checkbox"
+                    checked={includeConflicts}
+                    onChange={e => setIncludeConflicts(e.target.checked)}
+                  />
+                  Overwrite {conflictCount} field{conflictCount !== 1 ? 's' : ''} changed since these entries
+                </label>
+              )}
+              <div className="flex flex-col gap-3 overflow-auto max-h-[420px]">
+                {plans.map(renderPlan)}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="dialog-footer">
+          <button className="btn-secondary" onClick={onClose} disabled={isApplying}>
+            {result ? 'Close' : 'Cancel'}
+          </button>
+          {!result && (
+            <button
+              className="btn-primary"
+              onClick={handleApply}
+              disabled={isLoading || isApplying || fieldsToWrite === 0}
+            >
+              {isApplying ? 'Reverting...' : `Revert ${fieldsToWrite} field${fieldsToWrite !== 1 ? 's' : ''}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
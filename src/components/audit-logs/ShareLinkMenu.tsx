@@ -0,0 +1,96 @@
+import React, { useCallback, useState, useRef, useEffect } from 'react';
+import { CopyIcon, LinkIcon } from '../common/Icons';
+
+interface ShareLinkMenuProps {
+  onCopyLink: () => Promise<void>;
+  onOpenLink: (token: string) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+export const ShareLinkMenu: React.FC<ShareLinkMenuProps> = ({
+  onCopyLink,
+  onOpenLink,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const handleCopy = useCallback(async () => {
+    setIsOpen(false);
+    await onCopyLink();
+  }, [onCopyLink]);
+
+  const handleOpen = useCallback(async () => {
+    if (!token.trim()) return;
+    setIsOpening(true);
+    try {
+      if (await onOpenLink(token)) {
+        setToken('');
+        setIsOpen(false);
+      }
+    } finally {
+      setIsOpening(false);
+    }
+  }, [token, onOpenLink]);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        className="btn-subtle flex items-center gap-1 text-sm"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        title="Share or open a link to an audit view"
+      >
+        <LinkIcon className="w-4 h-4" />
+        Share
+      </button>
+
+      {isOpen && (
+        <div className="dropdown-menu right-0 w-80">
+          <button className="dropdown-item w-full text-left" onClick={handleCopy}>
+            <CopyIcon className="w-5 h-5" />
+            Copy link to this view
+          </button>
+
+          <div className="dropdown-divider" />
+
+          {/* Paste a link shared by someone else */}
+          <div className="flex flex-col gap-2 px-3 py-2">
+            <label className="text-xs font-semibold text-foreground-3">Open a shared link</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                className="input flex-1 text-sm"
+                value={token}
+                onChange={e => setToken(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') handleOpen();
+                }}
+                placeholder="audit-view:..."
+              />
+              <button className="btn-primary text-sm" onClick={handleOpen} disabled={!token.trim() || isOpening}>
+                {isOpening ? 'Opening...' : 'Open'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,11 +3,16 @@ export { AuditLogTable } from './AuditLogTable';
 export { AuditLogRow } from './AuditLogRow';
 export { AuditDetailPanel } from './AuditDetailPanel';
 export { AuditDetailsDialog } from './AuditDetailsDialog';
-export { AuditFilters } from './AuditFilters';
+export { AuditFilters, ChangeValueSearch } from './AuditFilters';
 export { AuditTableSelector } from './AuditTableSelector';
 export { AttributeFilter } from './AttributeFilter';
 export { ExportMenu } from './ExportMenu';
+export { FilterPresetMenu } from './FilterPresetMenu';
+export { ShareLinkMenu } from './ShareLinkMenu';
 export { Pagination } from './Pagination';
 export { RecordSearch } from './RecordSearch';
 export { RecordSearchResults } from './RecordSearchResults';
 export { RecordHistoryDialog } from './RecordHistoryDialog';
+export { PointInTimePanel } from './PointInTimePanel';
+export { RevertChangesDialog } from './RevertChangesDialog';
+export { RecreateRecordDialog } from './RecreateRecordDialog';
@@ -0,0 +1,244 @@
+import React, { useState, useCallback } from 'react';
+import type { AuditChangeSet } from '../../hooks/useAuditChangeSet';
+import type { AuditChangeScope, AuditConfigChange, AppliedChangeSet } from '../../model/audit';
+import { SolutionPicker } from '../table-settings/SolutionPicker';
+import { ConfirmDialog } from '../common/ConfirmDialog';
+import { DismissIcon, HistoryIcon } from '../common/Icons';
+
+interface ChangeSetDrawerProps {
+  changeSet: AuditChangeSet;
+}
+
+const SCOPE_LABELS: Record<AuditChangeScope, string> = {
+  organization: 'Organization',
+  table: 'Tables',
+  attribute: 'Columns',
+};
+
+const SCOPE_ORDER: AuditChangeScope[] = ['organization', 'table', 'attribute'];
+
+// Logical name shown under the change label
+function getChangeTarget(change: AuditConfigChange): string {
+  switch (change.scope) {
+    case 'table':
+      return change.entityLogicalName || '';
+    case 'attribute':
+      return `${change.entityLogicalName}.${change.attribute?.logicalName}`;
+    default:
+      return change.organizationSetting === 'isUserAccessAuditEnabled'
+        ? 'isuseraccessauditenabled'
+        : 'isauditenabled';
+  }
+}
+
+const FlagBadge: React.FC<{ isEnabled: boolean }> = ({ isEnabled }) => (
+  <span className={`badge ${isEnabled ? 'badge-success' : 'badge-neutral'}`}>
+    {isEnabled ? 'On' : 'Off'}
+  </span>
+);
+
+export const ChangeSetDrawer: React.FC<ChangeSetDrawerProps> = ({ changeSet }) => {
+  const {
+    changes,
+    appliedChangeSets,
+    solutionUniqueName,
+    setSolutionUniqueName,
+    isApplying,
+    progress,
+    isReviewOpen,
+    closeReview,
+    unstageChange,
+    discardChanges,
+    applyChanges,
+    rollback,
+  } = changeSet;
+
+  const [pendingRollback, setPendingRollback] = useState<AppliedChangeSet | null>(null);
+
+  const handleConfirmRollback = useCallback(async () => {
+    if (!pendingRollback) return;
+    setPendingRollback(null);
+    await rollback(pendingRollback);
+  }, [pendingRollback, rollback]);
+
+  if (!isReviewOpen) return null;
+
+  const renderChange = (change: AuditConfigChange) => (
+    <div key={change.key} className="flex items-center gap-2 px-3 py-2 border-b border-stroke-2">
+      <div className="flex-1 min-w-0 flex flex-col gap-0.5">
+        <span className="font-semibold text-truncate">{change.label}</span>
+        <span className="text-xs text-foreground-3 text-truncate">{getChangeTarget(change)}</span>
+      </div>
+      <FlagBadge isEnabled={change.before} />
+      <span className="text-foreground-3">→</span>
+      <FlagBadge isEnabled={change.after} />
+      <button
+        className="btn-icon btn-subtle"
+        onClick={() => unstageChange(change.key)}
+        disabled={isApplying}
+        title="Remove from change set"
+      >
+        <DismissIcon className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  const renderPending = () => {
+    if (changes.length === 0) {
+      return (
+        <div className="py-8 text-center text-foreground-3">
+          No pending changes. Audit toggles on the Global Settings and Table Settings views are queued here.
+        </div>
+      );
+    }
+
+    return SCOPE_ORDER.map(scope => {
+      const scopeChanges = changes.filter(c => c.scope === scope);
+      if (scopeChanges.length === 0) return null;
+      return (
+        <div key={scope} className="flex flex-col">
+          <span className="text-xs font-semibold text-foreground-3 uppercase px-3 py-1 bg-background-2">
+            {SCOPE_LABELS[scope]} ({scopeChanges.length})
+          </span>
+          {scopeChanges.map(renderChange)}
+        </div>
+      );
+    });
+  };
+
+  const renderHistory = () => {
+    if (appliedChangeSets.length === 0) {
+      return <div className="py-4 text-center text-sm text-foreground-3">No change sets applied yet</div>;
+    }
+
+    return appliedChangeSets.map(applied => (
+      <details key={applied.id} className="border-b border-stroke-2">
+        <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer">
+          <div className="flex-1 min-w-0 flex flex-col gap-0.5">
+            <span className="font-semibold">{new Date(applied.appliedOn).toLocaleString()}</span>
+            <span className="text-xs text-foreground-3">
+              {applied.changes.length} change{applied.changes.length !== 1 ? 's' : ''}
+              {applied.result.failed > 0 && `, ${applied.result.failed} failed`}
+              {applied.environmentName && ` · ${applied.environmentName}`}
+              {applied.solutionUniqueName && ` · ${applied.solutionUniqueName}`}
+            </span>
+          </div>
+          {applied.rolledBackOn ? (
+            <span className="badge badge-neutral" title={new Date(applied.rolledBackOn).toLocaleString()}>
+              Rolled back
+            </span>
+          ) : (
+            <button
+              className="btn-secondary"
+              onClick={e => {
+                e.preventDefault();
+                setPendingRollback(applied);
+              }}
+              disabled={isApplying || applied.changes.length === 0}
+            >
+              Roll back
+            </button>
+          )}
+        </summary>
+        <div className="flex flex-col gap-1 px-3 pb-2 text-xs">
+          {applied.changes.map(change => (
+            <div key={change.key} className="flex items-center gap-2">
+              <span className="flex-1 min-w-0 text-truncate" title={getChangeTarget(change)}>
+                {change.label}
+              </span>
+              <span className="text-foreground-3">
+                {change.before ? 'On' : 'Off'} → {change.after ? 'On' : 'Off'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </details>
+    ));
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="dialog-backdrop" onClick={isApplying ? undefined : closeReview} />
+
+      {/* Drawer */}
+      <div className="drawer">
+        <div className="dialog-header">
+          <span className="font-semibold text-lg">Pending Audit Changes</span>
+          <button className="btn-icon btn-subtle" onClick={closeReview} disabled={isApplying}>
+            <DismissIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {renderPending()}
+
+          <div className="flex items-center gap-2 px-3 py-2 mt-4 border-y border-stroke-1 bg-background-2">
+            <HistoryIcon className="w-5 h-5 text-foreground-3" />
+            <span className="font-semibold">Applied Change Sets</span>
+          </div>
+          {renderHistory()}
+        </div>
+
+        {progress && (
+          <div className="flex flex-col gap-1 px-6 py-3 border-t border-stroke-1">
+            <div className="flex justify-between text-sm">
+              <span className="text-truncate">{progress.current || 'Applying changes...'}</span>
+              <span className="text-foreground-3">{progress.completed} / {progress.total}</span>
+            </div>
+            <div className="h-2 rounded bg-background-3 overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all"
+                style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 px-6 py-3 border-t border-stroke-1">
+          <SolutionPicker
+            value={solutionUniqueName}
+            onChange={setSolutionUniqueName}
+            disabled={isApplying}
+          />
+        </div>
+
+        <div className="dialog-footer">
+          <button
+            className="btn-secondary"
+            onClick={discardChanges}
+            disabled={isApplying || changes.length === 0}
+          >
+            Discard all
+          </button>
+          <button
+            className="btn-primary"
+            onClick={applyChanges}
+            disabled={isApplying || changes.length === 0}
+          >
+            {isApplying ? 'Applying...' : `Apply ${changes.length} change${changes.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={!!pendingRollback}
+        title="Roll Back Change Set"
+        confirmLabel="Roll back"
+        onConfirm={handleConfirmRollback}
+        onCancel={() => setPendingRollback(null)}
+      >
+        {pendingRollback && (
+          <>
+            <span>
+              Roll back {pendingRollback.changes.length} change{pendingRollback.changes.length !== 1 ? 's' : ''} applied
+              on {new Date(pendingRollback.appliedOn).toLocaleString()}
+              {pendingRollback.environmentName && ` to ${pendingRollback.environmentName}`}?
+            </span>
+            <span className="text-foreground-3">Each audit flag is set back to its value before the change set.</span>
+          </>
+        )}
+      </ConfirmDialog>
+    </>
+  );
+};
@@ -0,0 +1 @@
+export { ChangeSetDrawer } from './ChangeSetDrawer';
@@ -0,0 +1,63 @@
+import React from 'react';
+import { DismissIcon } from './Icons';
+
+interface ConfirmDialogProps {
+  isOpen: boolean;
+  title: string;
+  children: React.ReactNode;
+  confirmLabel?: string;
+  isDestructive?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// In-app replacement for window.confirm, stacked above drawers and other dialogs
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  isOpen,
+  title,
+  children,
+  confirmLabel = 'Confirm',
+  isDestructive = false,
+  onConfirm,
+  onCancel,
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="dialog-backdrop z-[55]" onClick={onCancel} />
+
+      {/* Dialog */}
+      <div
+        className="dialog z-[60] max-w-md"
+        role="alertdialog"
+        aria-modal="true"
+        onKeyDown={e => {
+          if (e.key === 'Escape') onCancel();
+        }}
+      >
+        <div className="dialog-header">
+          <span className="font-semibold text-lg">{title}</span>
+          <button className="btn-icon btn-subtle" onClick={onCancel}>
+            <DismissIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="dialog-body text-sm flex flex-col gap-2">
+          {children}
+        </div>
+        <div className="dialog-footer">
+          <button className="btn-secondary" onClick={onCancel} autoFocus>
+            Cancel
+          </button>
+          <button
+            className={isDestructive ? 'btn bg-red-600 text-white hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600' : 'btn-primary'}
+            onClick={onConfirm}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface HighlightTextProps {
+  text: string;
+  highlight?: string;
+}
+
+// Escape regular expression characters so the search text is matched literally
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const HighlightText: React.FC<HighlightTextProps> = ({ text, highlight }) => {
+  if (!highlight) {
+    return <>{text}</>;
+  }
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(highlight)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.toLowerCase() === highlight.toLowerCase() ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
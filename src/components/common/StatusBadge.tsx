@@ -49,3 +49,24 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
     </span>
   );
 };
+
+interface ComparisonBadgeProps {
+  value: boolean | undefined;  // Undefined when the component doesn't exist on the other side
+}
+
+// Audit flag of the other environment in a comparison
+export const ComparisonBadge: React.FC<ComparisonBadgeProps> = ({ value }) => {
+  if (value === undefined) {
+    return (
+      <span className="badge badge-neutral text-2xs" title="Not found in the target environment">
+        Missing
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-0.5 pl-1 border-l border-stroke-1" title="Target environment">
+      <StatusBadge isEnabled={value} size="small" />
+    </span>
+  );
+};
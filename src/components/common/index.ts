@@ -1,8 +1,10 @@
 export { SearchInput } from './SearchInput';
-export { StatusBadge } from './StatusBadge';
+export { StatusBadge, ComparisonBadge } from './StatusBadge';
 export { SelectionToolbar } from './SelectionToolbar';
 export { EmptyState } from './EmptyState';
 export { LoadingState } from './LoadingState';
 export { ErrorBoundary } from './ErrorBoundary';
 export { LoadingOverlay } from './LoadingOverlay';
+export { HighlightText } from './HighlightText';
+export { ConfirmDialog } from './ConfirmDialog';
 export * from './Icons';
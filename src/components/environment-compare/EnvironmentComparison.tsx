@@ -0,0 +1,321 @@
+import React, { useState, useCallback } from 'react';
+import { useEnvironmentComparison } from '../../hooks/useEnvironmentComparison';
+import type { AuditChangeSet } from '../../hooks/useAuditChangeSet';
+import type { AuditConfigChange, ComparisonMode } from '../../model/audit';
+import {
+  getAttributeAlignmentChanges,
+  getOrganizationAlignmentChanges,
+  getTableAlignmentChanges,
+} from '../../services/comparisonService';
+import { ORGANIZATION_AUDIT_SETTINGS } from '../../services/changeSetService';
+import { SearchInput, LoadingState, EmptyState, StatusBadge, ConfirmDialog, ArrowSyncIcon, TableSimpleIcon } from '../common';
+import { TableList } from '../table-settings/TableList';
+import { AttributeList } from '../table-settings/AttributeList';
+
+const MODE_OPTIONS: { value: ComparisonMode; label: string }[] = [
+  { value: 'secondary', label: 'Current connection → Secondary connection' },
+  { value: 'baseline', label: 'Baseline file → Current connection' },
+];
+
+const ORGANIZATION_LABELS = {
+  isAuditEnabled: 'Auditing',
+  isUserAccessAuditEnabled: 'User access auditing',
+};
+
+interface EnvironmentComparisonProps {
+  changeSet: AuditChangeSet;
+}
+
+export const EnvironmentComparison: React.FC<EnvironmentComparisonProps> = ({ changeSet }) => {
+  const {
+    mode,
+    setMode,
+    source,
+    target,
+    isLoading,
+    error,
+    searchTerm,
+    setSearchTerm,
+    onlyDifferences,
+    setOnlyDifferences,
+    filteredTables,
+    differenceCount,
+    sourceOnlyCount,
+    targetOnlyCount,
+    targetTableValues,
+    selectedIds,
+    selectedTables,
+    toggleSelection,
+    clearSelection,
+    activeTable,
+    toggleActiveTable,
+    sourceAttributes,
+    targetAttributes,
+    filteredAttributes,
+    targetAttributeValues,
+    isLoadingAttributes,
+    isAligning,
+    progress,
+    compare,
+    alignSecondary,
+  } = useEnvironmentComparison();
+
+  // Changes waiting for confirmation before they are written to the secondary connection
+  const [pendingAlignment, setPendingAlignment] = useState<AuditConfigChange[] | null>(null);
+
+  // Write to the secondary connection directly; changes to the current connection go through the change set
+  const alignTarget = useCallback(async (changes: AuditConfigChange[]) => {
+    if (!target) return;
+
+    if (changes.length === 0) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Nothing to Align',
+        body: 'The target already matches, or the differing settings cannot be modified',
+        type: 'info',
+        duration: 3000,
+      });
+      return;
+    }
+
+    if (target.connectionTarget !== 'secondary') {
+      changeSet.stageChanges(changes);
+      changeSet.openReview();
+      return;
+    }
+
+    setPendingAlignment(changes);
+  }, [target, changeSet]);
+
+  const handleConfirmAlignment = useCallback(async () => {
+    if (!target || !pendingAlignment) return;
+    const changes = pendingAlignment;
+    setPendingAlignment(null);
+
+    const result = await alignSecondary(changes);
+    await window.toolboxAPI.utils.showNotification({
+      title: 'Target Aligned',
+      body: result.failed > 0
+        ? `Updated ${result.success} settings. ${result.failed} failed: ${result.errors[0] || 'Unknown error'}`
+        : `Updated ${result.success} setting${result.success !== 1 ? 's' : ''} on ${target.label}`,
+      type: result.failed > 0 ? (result.success > 0 ? 'warning' : 'error') : 'success',
+      duration: result.failed > 0 ? 5000 : 3000,
+    });
+  }, [target, pendingAlignment, alignSecondary]);
+
+  const handleAlignTables = useCallback(() => {
+    if (!source || !target) return;
+    // Align the selected tables, or every visible table when nothing is selected
+    const tables = selectedTables.length > 0 ? selectedTables : filteredTables;
+    alignTarget([
+      ...(selectedTables.length > 0 ? [] : getOrganizationAlignmentChanges(source, target)),
+      ...getTableAlignmentChanges(tables, target.tables),
+    ]);
+    clearSelection();
+  }, [source, target, selectedTables, filteredTables, alignTarget, clearSelection]);
+
+  const handleAlignColumns = useCallback(() => {
+    if (!activeTable) return;
+    alignTarget(getAttributeAlignmentChanges(activeTable.logicalName, sourceAttributes, targetAttributes));
+  }, [activeTable, sourceAttributes, targetAttributes, alignTarget]);
+
+  const isBusy = isLoading || isAligning || changeSet.isApplying;
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <LoadingState message="Loading audit settings..." />;
+    }
+
+    if (error) {
+      return (
+        <div className="flex flex-col items-center justify-center h-full gap-4 p-12">
+          <span className="text-xl font-semibold">Comparison failed</span>
+          <span className="text-red-600 dark:text-red-400 text-center">{error}</span>
+        </div>
+      );
+    }
+
+    if (!source || !target) {
+      return (
+        <EmptyState
+          icon="database"
+          title="Compare audit settings"
+          description="Choose what to compare and select Compare. Secondary connections are picked in Power Platform Toolbox."
+        />
+      );
+    }
+
+    return (
+      <div className="flex flex-1 overflow-hidden">
+        {/* Table Pane */}
+        <div className="flex-1 min-w-[300px] max-w-[50%] flex flex-col border-r border-stroke-1 overflow-hidden">
+          <div className="flex items-center gap-2 px-4 py-2 border-b border-stroke-1 bg-background-2 text-xs text-foreground-3">
+            <span className="flex-1">
+              {differenceCount} table{differenceCount !== 1 ? 's' : ''} differ
+              {sourceOnlyCount > 0 && `, ${sourceOnlyCount} missing on the target`}
+              {targetOnlyCount > 0 && `, ${targetOnlyCount} only exist on the target`}
+            </span>
+            <span title={source.label}>Source</span>
+            <span>|</span>
+            <span title={target.label}>Target</span>
+          </div>
+          <div className="flex-1 overflow-auto">
+            {filteredTables.length === 0 ? (
+              <EmptyState
+                icon="search"
+                title={onlyDifferences ? 'No differences' : 'No tables found'}
+                description={onlyDifferences ? 'Table audit settings match' : 'Try adjusting your search criteria'}
+              />
+            ) : (
+              <TableList
+                tables={filteredTables}
+                selectedIds={selectedIds}
+                activeTableId={activeTable?.metadataId}
+                onToggleSelection={toggleSelection}
+                onTableClick={toggleActiveTable}
+                comparisonValues={targetTableValues}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Column Pane */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          {!activeTable ? (
+            <div className="flex items-center justify-center h-full p-12">
+              <div className="flex flex-col items-center gap-4 text-foreground-3">
+                <TableSimpleIcon className="w-12 h-12 text-foreground-4" />
+                <span className="text-lg font-semibold">Select a table</span>
+                <span className="text-center">Click on a table to compare its column audit settings</span>
+              </div>
+            </div>
+          ) : isLoadingAttributes ? (
+            <LoadingState message="Loading columns..." />
+          ) : (
+            <>
+              <div className="flex items-center gap-2 p-3 border-b border-stroke-1 bg-background-2">
+                <TableSimpleIcon className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                <span className="flex-1 min-w-0 font-semibold text-base text-truncate">
+                  {activeTable.displayName}
+                </span>
+                <button
+                  className="btn-secondary"
+                  onClick={handleAlignColumns}
+                  disabled={isBusy || targetAttributes.length === 0}
+                >
+                  Align target columns
+                </button>
+              </div>
+              <div className="flex-1 overflow-auto">
+                {filteredAttributes.length === 0 ? (
+                  <EmptyState
+                    icon="search"
+                    title={onlyDifferences ? 'No differences' : 'No columns found'}
+                    description={onlyDifferences ? 'Column audit settings match' : 'The table has no auditable columns'}
+                  />
+                ) : (
+                  <AttributeList
+                    attributes={filteredAttributes}
+                    selectedIds={new Set()}
+                    onToggleSelection={() => {}}
+                    entityLogicalName={activeTable.logicalName}
+                    comparisonValues={targetAttributeValues}
+                  />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      {/* Filter Bar */}
+      <div className="flex items-center gap-4 p-3 border-b border-stroke-1 bg-background-1">
+        <select
+          className="select min-w-[280px]"
+          value={mode}
+          onChange={e => setMode(e.target.value as ComparisonMode)}
+          disabled={isBusy}
+        >
+          {MODE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button className="btn-primary flex items-center gap-2" onClick={compare} disabled={isBusy}>
+          <ArrowSyncIcon className="w-5 h-5" />
+          Compare
+        </button>
+        <SearchInput
+          value={searchTerm}
+          onChange={setSearchTerm}
+          placeholder="Search tables..."
+        />
+        <label className="flex items-center gap-2 text-sm cursor-pointer whitespace-nowrap">
+          <input
+            type="checkbox"
+            className="checkbox"
+            checked={onlyDifferences}
+            onChange={e => setOnlyDifferences(e.target.checked)}
+          />
+          Only differences
+        </label>
+      </div>
+
+      {/* Organization flags and alignment */}
+      {source && target && !isLoading && (
+        <div className="toolbar">
+          <span className="font-semibold text-truncate" title={source.label}>{source.label}</span>
+          <span className="text-foreground-3">→</span>
+          <span className="font-semibold text-truncate" title={target.label}>{target.label}</span>
+          <div className="w-px h-6 bg-stroke-1 mx-2" />
+          {ORGANIZATION_AUDIT_SETTINGS.map(setting => (
+            <span
+              key={setting}
+              className={`flex items-center gap-1 text-sm ${source.organization[setting] !== target.organization[setting] ? 'text-yellow-700 dark:text-yellow-400' : ''}`}
+            >
+              {ORGANIZATION_LABELS[setting]}
+              <StatusBadge isEnabled={source.organization[setting]} size="small" />
+              <StatusBadge isEnabled={target.organization[setting]} size="small" />
+            </span>
+          ))}
+          <div className="flex-1" />
+          {progress && (
+            <span className="text-sm text-foreground-3">
+              {progress.completed} / {progress.total}
+            </span>
+          )}
+          {isAligning && <div className="spinner spinner-sm text-blue-600" />}
+          <button className="btn-primary" onClick={handleAlignTables} disabled={isBusy}>
+            {selectedTables.length > 0 ? `Align ${selectedTables.length} selected` : 'Align target'}
+          </button>
+        </div>
+      )}
+
+      {renderContent()}
+
+      <ConfirmDialog
+        isOpen={!!pendingAlignment}
+        title="Align Target"
+        confirmLabel="Apply"
+        onConfirm={handleConfirmAlignment}
+        onCancel={() => setPendingAlignment(null)}
+      >
+        {pendingAlignment && target && (
+          <>
+            <span>
+              Apply {pendingAlignment.length} audit setting change{pendingAlignment.length !== 1 ? 's' : ''} to{' '}
+              <span className="font-semibold">{target.label}</span>?
+            </span>
+            <span className="text-foreground-3">
+              The changes are written to the secondary connection directly and are not added to the change set.
+            </span>
+          </>
+        )}
+      </ConfirmDialog>
+    </div>
+  );
+};
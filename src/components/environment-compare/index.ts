@@ -0,0 +1 @@
+export { EnvironmentComparison } from './EnvironmentComparison';
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useAuditLogCleanup } from '../../hooks/useAuditLogCleanup';
+import { formatDateTime } from '../../utils/formatters';
+import { DeleteIcon, InfoIcon, LockClosedIcon } from '../common/Icons';
+
+// Text the user has to type before the deletion can be submitted
+const CONFIRMATION_TEXT = 'DELETE';
+
+export const AuditLogCleanup: React.FC = () => {
+  const {
+    isAdministrator,
+    cutoffValue,
+    setCutoffValue,
+    estimate,
+    isEstimating,
+    isSubmitting,
+    job,
+    error,
+    estimateDeletion,
+    submitDeletion,
+  } = useAuditLogCleanup();
+  const [confirmation, setConfirmation] = useState('');
+
+  const isJobRunning = !!job && !job.isComplete;
+  const canSubmit = !!estimate && estimate.count > 0 && confirmation === CONFIRMATION_TEXT &&
+    !isSubmitting && !isJobRunning;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    if (await submitDeletion()) {
+      setConfirmation('');
+    }
+  };
+
+  const renderContent = () => {
+    if (isAdministrator === null) {
+      return (
+        <div className="flex items-center gap-2 text-foreground-3">
+          <div className="spinner spinner-sm text-blue-600" />
+          <span className="text-sm">Checking permissions...</span>
+        </div>
+      );
+    }
+
+    if (!isAdministrator) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-foreground-3">
+          <LockClosedIcon className="w-5 h-5" />
+          <span>Deleting audit logs requires the System Administrator security role</span>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <span className="text-sm text-foreground-3">
+          Permanently delete all audit records created before a date. Deleted audit history cannot be recovered.
+        </span>
+
+        <div className="flex items-end gap-2">
+          <div className="flex flex-col gap-1">
+            <label className="text-xs font-semibold text-foreground-3">Delete records before</label>
+            <input
+              type="date"
+              className="input"
+              value={cutoffValue}
+              max={new Date().toISOString().split('T')[0]}
+              onChange={e => setCutoffValue(e.target.value)}
+              disabled={isSubmitting || isJobRunning}
+            />
+          </div>
+          <button
+            className="btn-secondary"
+            onClick={estimateDeletion}
+            disabled={!cutoffValue || isEstimating || isSubmitting || isJobRunning}
+          >
+            {isEstimating ? 'Counting...' : 'Estimate'}
+          </button>
+        </div>
+
+        {estimate && (
+          <div className="flex flex-col gap-2 p-3 bg-background-3 rounded">
+            <span className="text-sm">
+              {estimate.count === 0
+                ? 'No audit records were created before this date'
+                : `${estimate.isLimitExceeded ? 'More than ' : ''}${estimate.count.toLocaleString()} audit record${estimate.count !== 1 ? 's' : ''} will be deleted`}
+            </span>
+            {estimate.count > 0 && (
+              <>
+                <label className="text-xs text-foreground-3">
+                  Type <span className="font-semibold">{CONFIRMATION_TEXT}</span> to confirm
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className="input w-40"
+                    value={confirmation}
+                    onChange={e => setConfirmation(e.target.value)}
+                    placeholder={CONFIRMATION_TEXT}
+                    disabled={isSubmitting || isJobRunning}
+                  />
+                  <button className="btn-primary" onClick={handleSubmit} disabled={!canSubmit}>
+                    {isSubmitting ? 'Submitting...' : 'Delete audit logs'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <span className="text-sm text-red-600 dark:text-red-400">{error}</span>}
+      </>
+    );
+  };
+
+  return (
+    <div className="card max-w-xl">
+      {/* Header */}
+      <div className="card-header">
+        <div className="flex items-center gap-2">
+          <DeleteIcon className="w-6 h-6 text-red-600 dark:text-red-400" />
+          <span className="font-semibold text-lg">Audit Log Cleanup</span>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-6 flex flex-col gap-4">
+        {renderContent()}
+
+        {/* Last deletion job */}
+        {job && (
+          <div className="flex items-start gap-2 p-4 bg-background-2 rounded-lg">
+            <InfoIcon className="w-5 h-5 text-foreground-3 flex-shrink-0 mt-0.5" />
+            <div className="flex flex-col gap-1 flex-1 min-w-0 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">Last cleanup job</span>
+                <span className={`badge ${job.isComplete ? (job.isSucceeded ? 'badge-success' : 'badge-danger') : 'badge-info'}`}>
+                  {job.statusLabel}
+                </span>
+                {isJobRunning && <div className="spinner spinner-sm text-blue-600" />}
+              </div>
+              <span className="text-foreground-3">
+                Records before {new Date(job.cutoffDate).toLocaleDateString()}, submitted {formatDateTime(job.submittedOn)}
+              </span>
+              {job.deletedCount !== undefined && (
+                <span className="text-foreground-3">{job.deletedCount.toLocaleString()} records deleted</span>
+              )}
+              {job.message && (
+                <span className="text-red-600 dark:text-red-400 break-words">{job.message}</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
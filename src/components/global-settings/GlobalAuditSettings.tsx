@@ -1,5 +1,8 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useOrganizationAudit } from '../../hooks/useOrganizationAudit';
+import type { AuditChangeSet } from '../../hooks/useAuditChangeSet';
+import { createOrganizationChange } from '../../services/changeSetService';
+import { RetentionPeriodEditor } from './RetentionPeriodEditor';
 import { ShieldCheckmarkIcon, ArrowSyncIcon, InfoIcon, PersonIcon } from '../common/Icons';
 
 // Custom Switch component
@@ -22,16 +25,30 @@ const Switch: React.FC<SwitchProps> = ({ checked, onChange, disabled = false })
   </button>
 );
 
-export const GlobalAuditSettings: React.FC = () => {
+const PendingBadge: React.FC = () => (
+  <span className="badge badge-warning text-2xs" title="Staged, not applied yet">Pending</span>
+);
+
+interface GlobalAuditSettingsProps {
+  changeSet: AuditChangeSet;
+}
+
+export const GlobalAuditSettings: React.FC<GlobalAuditSettingsProps> = ({ changeSet }) => {
   const {
     settings,
+    oldestAuditDate,
     isLoading,
-    isUpdating,
+    isUpdatingRetention,
     error,
-    toggleAuditEnabled,
-    toggleUserAccessAuditEnabled,
     refresh,
+    updateRetentionPeriod,
   } = useOrganizationAudit();
+  const { revision, isApplying, stageChanges, getStagedValue } = changeSet;
+
+  // Reload after a change set was applied or rolled back
+  useEffect(() => {
+    if (revision > 0) refresh();
+  }, [revision, refresh]);
 
   if (isLoading) {
     return (
@@ -66,6 +83,12 @@ export const GlobalAuditSettings: React.FC = () => {
     return null;
   }
 
+  const auditEnabled = getStagedValue('organization:isAuditEnabled', settings.isAuditEnabled);
+  const userAccessAuditEnabled = getStagedValue(
+    'organization:isUserAccessAuditEnabled',
+    settings.isUserAccessAuditEnabled
+  );
+
   return (
     <div className="card max-w-xl">
       {/* Header */}
@@ -84,22 +107,17 @@ export const GlobalAuditSettings: React.FC = () => {
             <div className="flex items-center gap-2">
               <ShieldCheckmarkIcon className="w-5 h-5 text-foreground-3" />
               <span className="font-semibold text-base">Enable Auditing</span>
+              {auditEnabled !== settings.isAuditEnabled && <PendingBadge />}
             </div>
             <span className="text-sm text-foreground-3">
               When enabled, changes to records will be logged in the audit history
             </span>
-            {settings.auditRetentionPeriodV2 !== null && (
-              <span className="badge badge-outline mt-2 w-fit">
-                Retention: {settings.auditRetentionPeriodV2} days
-              </span>
-            )}
           </div>
           <div className="flex items-center gap-2 flex-shrink-0">
-            {isUpdating && <div className="spinner spinner-sm text-blue-600" />}
             <Switch
-              checked={settings.isAuditEnabled}
-              onChange={toggleAuditEnabled}
-              disabled={isUpdating}
+              checked={auditEnabled}
+              onChange={checked => stageChanges([createOrganizationChange(settings, 'isAuditEnabled', checked)])}
+              disabled={isApplying}
             />
           </div>
         </div>
@@ -110,28 +128,40 @@ export const GlobalAuditSettings: React.FC = () => {
             <div className="flex items-center gap-2">
               <PersonIcon className="w-5 h-5 text-foreground-3" />
               <span className="font-semibold text-base">Enable User Access Auditing</span>
+              {userAccessAuditEnabled !== settings.isUserAccessAuditEnabled && <PendingBadge />}
             </div>
             <span className="text-sm text-foreground-3">
               When enabled, user read access to records will be logged in the audit history
             </span>
           </div>
           <div className="flex items-center gap-2 flex-shrink-0">
-            {isUpdating && <div className="spinner spinner-sm text-blue-600" />}
             <Switch
-              checked={settings.isUserAccessAuditEnabled}
-              onChange={toggleUserAccessAuditEnabled}
-              disabled={isUpdating || !settings.isAuditEnabled}
+              checked={userAccessAuditEnabled}
+              onChange={checked => stageChanges([
+                createOrganizationChange(settings, 'isUserAccessAuditEnabled', checked),
+              ])}
+              disabled={isApplying || !auditEnabled}
             />
           </div>
         </div>
 
+        {/* Retention Period */}
+        <RetentionPeriodEditor
+          retentionPeriod={settings.auditRetentionPeriodV2}
+          oldestAuditDate={oldestAuditDate}
+          isUpdating={isUpdatingRetention}
+          disabled={isApplying}
+          onSave={updateRetentionPeriod}
+        />
+
         {/* Info Section */}
         <div className="flex items-start gap-2 p-4 bg-background-3 rounded-lg">
           <InfoIcon className="w-5 h-5 text-foreground-3 flex-shrink-0 mt-0.5" />
           <span className="text-sm text-foreground-2">
             Global auditing must be enabled before you can configure table-level,
             attribute-level, or user access auditing. When disabled, no audit logs
-            will be recorded regardless of individual settings.
+            will be recorded regardless of individual settings. Changes are staged
+            and only written once the pending change set is applied.
           </span>
         </div>
       </div>
@@ -0,0 +1,191 @@
+import React, { useState, useEffect } from 'react';
+import { AUDIT_RETENTION_FOREVER, AUDIT_RETENTION_MAX_DAYS } from '../../model/audit';
+import { validateAuditRetentionPeriod } from '../../services/auditService';
+import { formatDate, formatRetentionPeriod } from '../../utils/formatters';
+import { ConfirmDialog } from '../common/ConfirmDialog';
+import { HistoryIcon } from '../common/Icons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRESET_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '365 days' },
+  { value: String(AUDIT_RETENTION_FOREVER), label: 'Forever' },
+  { value: 'custom', label: 'Custom...' },
+];
+
+function toPreset(days: number | null): string {
+  if (days === null) return 'custom';
+  const preset = PRESET_OPTIONS.find(o => o.value === String(days));
+  return preset ? preset.value : 'custom';
+}
+
+// A shorter retention, or any retention after "forever", lets the platform delete existing records
+function isShortening(current: number | null, next: number): boolean {
+  if (next === AUDIT_RETENTION_FOREVER) return false;
+  return current === null || current === AUDIT_RETENTION_FOREVER || next < current;
+}
+
+interface RetentionPeriodEditorProps {
+  retentionPeriod: number | null;
+  oldestAuditDate: Date | null;
+  isUpdating: boolean;
+  disabled?: boolean;
+  onSave: (days: number) => Promise<boolean>;
+}
+
+export const RetentionPeriodEditor: React.FC<RetentionPeriodEditorProps> = ({
+  retentionPeriod,
+  oldestAuditDate,
+  isUpdating,
+  disabled = false,
+  onSave,
+}) => {
+  const [preset, setPreset] = useState(() => toPreset(retentionPeriod));
+  const [customDays, setCustomDays] = useState(() =>
+    retentionPeriod !== null && retentionPeriod !== AUDIT_RETENTION_FOREVER ? String(retentionPeriod) : ''
+  );
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  // Follow the saved value after a refresh
+  useEffect(() => {
+    setPreset(toPreset(retentionPeriod));
+    if (retentionPeriod !== null && retentionPeriod !== AUDIT_RETENTION_FOREVER) {
+      setCustomDays(String(retentionPeriod));
+    }
+  }, [retentionPeriod]);
+
+  const days = preset === 'custom' ? Number(customDays) : Number(preset);
+  const validationError = preset === 'custom' && customDays.trim() === ''
+    ? 'Enter a number of days'
+    : validateAuditRetentionPeriod(days);
+  const isChanged = days !== retentionPeriod;
+
+  const handleSave = async () => {
+    if (validationError || !isChanged) return;
+
+    if (isShortening(retentionPeriod, days)) {
+      setIsConfirmOpen(true);
+      return;
+    }
+
+    await onSave(days);
+  };
+
+  const handleConfirmSave = async () => {
+    setIsConfirmOpen(false);
+    await onSave(days);
+  };
+
+  // Audit records the shorter retention removes, shown before it is saved
+  const renderDeletionImpact = () => {
+    const cutoff = new Date(Date.now() - days * DAY_MS);
+    const hasExpiredRecords = !!oldestAuditDate && oldestAuditDate < cutoff;
+
+    return (
+      <>
+        <span>
+          Shorten audit retention from {formatRetentionPeriod(retentionPeriod).toLowerCase()} to{' '}
+          {formatRetentionPeriod(days).toLowerCase()}?
+        </span>
+        <ul className="list-disc pl-5 flex flex-col gap-1">
+          {hasExpiredRecords ? (
+            <li>
+              Audit records of all tables and users created before{' '}
+              <span className="font-semibold">{formatDate(cutoff)}</span> are permanently deleted by the next
+              retention run. The oldest record is from {formatDate(oldestAuditDate)}.
+            </li>
+          ) : (
+            <li>No existing audit record is older than {days.toLocaleString()} days yet, so nothing is deleted right away.</li>
+          )}
+          <li>From then on, every audit record is deleted once it is {days.toLocaleString()} days old.</li>
+          <li>Deleted audit history cannot be recovered, even if retention is extended again later.</li>
+        </ul>
+      </>
+    );
+  };
+
+  const renderPurgeProjection = () => {
+    if (!oldestAuditDate) {
+      return 'The audit log is empty';
+    }
+    if (retentionPeriod === null || retentionPeriod === AUDIT_RETENTION_FOREVER) {
+      return `Oldest record from ${formatDate(oldestAuditDate)} is kept forever`;
+    }
+    const purgeDate = new Date(oldestAuditDate.getTime() + retentionPeriod * DAY_MS);
+    return purgeDate.getTime() <= Date.now()
+      ? `Oldest record from ${formatDate(oldestAuditDate)} is due for deletion`
+      : `Oldest record from ${formatDate(oldestAuditDate)} will be deleted around ${formatDate(purgeDate)}`;
+  };
+
+  const isDisabled = disabled || isUpdating;
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-background-2 rounded-lg">
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center gap-2">
+          <HistoryIcon className="w-5 h-5 text-foreground-3" />
+          <span className="font-semibold text-base">Retention Period</span>
+          <span className="badge badge-outline">{formatRetentionPeriod(retentionPeriod)}</span>
+        </div>
+        <span className="text-sm text-foreground-3">
+          Audit records older than the retention period are deleted automatically
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          className="select"
+          value={preset}
+          onChange={e => setPreset(e.target.value)}
+          disabled={isDisabled}
+        >
+          {PRESET_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {preset === 'custom' && (
+          <input
+            type="number"
+            className="input w-32"
+            min={1}
+            max={AUDIT_RETENTION_MAX_DAYS}
+            step={1}
+            value={customDays}
+            onChange={e => setCustomDays(e.target.value)}
+            placeholder="Days"
+            disabled={isDisabled}
+          />
+        )}
+        <button
+          className="btn-primary"
+          onClick={handleSave}
+          disabled={isDisabled || !!validationError || !isChanged}
+        >
+          {isUpdating ? 'Saving...' : 'Save'}
+        </button>
+        {isUpdating && <div className="spinner spinner-sm text-blue-600" />}
+      </div>
+
+      {validationError && isChanged && (
+        <span className="text-sm text-red-600 dark:text-red-400">{validationError}</span>
+      )}
+
+      <span className="text-xs text-foreground-3">{renderPurgeProjection()}</span>
+
+      <ConfirmDialog
+        isOpen={isConfirmOpen}
+        title="Shorten Retention Period"
+        confirmLabel="Shorten retention"
+        isDestructive
+        onConfirm={handleConfirmSave}
+        onCancel={() => setIsConfirmOpen(false)}
+      >
+        {renderDeletionImpact()}
+      </ConfirmDialog>
+    </div>
+  );
+};
@@ -1 +1,2 @@
 export { GlobalAuditSettings } from './GlobalAuditSettings';
+export { AuditLogCleanup } from './AuditLogCleanup';
@@ -1,11 +1,15 @@
 import React, { useCallback } from 'react';
-import { StatusBadge } from '../common';
+import { StatusBadge, ComparisonBadge } from '../common';
+import { getAttributeChangeKey } from '../../services/changeSetService';
 import type { AttributeAuditInfo } from '../../model/audit';
 
 interface AttributeListProps {
   attributes: AttributeAuditInfo[];
   selectedIds: Set<string>;
   onToggleSelection: (id: string) => void;
+  entityLogicalName: string;
+  getStagedValue?: (key: string, currentValue: boolean) => boolean;
+  comparisonValues?: Map<string, boolean>;  // Audit flags of the other environment, by logical name
 }
 
 // Format attribute type for display
@@ -21,6 +25,9 @@ export const AttributeList: React.FC<AttributeListProps> = ({
   attributes,
   selectedIds,
   onToggleSelection,
+  entityLogicalName,
+  getStagedValue,
+  comparisonValues,
 }) => {
   const handleRowClick = useCallback(
     (id: string, canModify: boolean) => {
@@ -35,10 +42,17 @@ export const AttributeList: React.FC<AttributeListProps> = ({
     <div className="flex flex-col">
       {attributes.map(attr => {
         const isSelected = selectedIds.has(attr.metadataId);
+        const stagedValue = getStagedValue
+          ? getStagedValue(getAttributeChangeKey(entityLogicalName, attr.logicalName), attr.isAuditEnabled)
+          : attr.isAuditEnabled;
+        const comparisonValue = comparisonValues?.get(attr.logicalName);
+        const isDifferent = !!comparisonValues && comparisonValue !== attr.isAuditEnabled;
 
         let rowClasses = 'flex items-center gap-2 px-4 py-2 border-b border-stroke-2 cursor-pointer transition-colors';
         if (isSelected) {
           rowClasses += ' bg-blue-50 dark:bg-blue-900/20';
+        } else if (isDifferent) {
+          rowClasses += ' bg-yellow-50 dark:bg-yellow-900/20 hover:bg-background-2';
         } else {
           rowClasses += ' hover:bg-background-2';
         }
@@ -70,11 +84,19 @@ export const AttributeList: React.FC<AttributeListProps> = ({
               <span className="badge badge-outline text-2xs">
                 {formatAttributeType(attr.attributeType)}
               </span>
+              {stagedValue !== attr.isAuditEnabled && (
+                <span className="badge badge-warning text-2xs" title="Staged, not applied yet">
+                  Pending
+                </span>
+              )}
               <StatusBadge
-                isEnabled={attr.isAuditEnabled}
+                isEnabled={stagedValue}
                 canModify={attr.canModifyAuditSettings}
                 size="small"
               />
+              {comparisonValues && (
+                <ComparisonBadge value={comparisonValue} />
+              )}
             </div>
           </div>
         );
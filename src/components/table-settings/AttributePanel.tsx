@@ -1,34 +1,54 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect } from 'react';
 import { useAttributeAudit } from '../../hooks/useAttributeAudit';
 import { SearchInput, SelectionToolbar, LoadingState, EmptyState, TableSimpleIcon } from '../common';
 import { AttributeList } from './AttributeList';
+import { createAttributeChange } from '../../services/changeSetService';
+import type { AuditChangeSet } from '../../hooks/useAuditChangeSet';
 import type { TableAuditInfo } from '../../model/audit';
 
 interface AttributePanelProps {
   selectedTable: TableAuditInfo | null;
+  changeSet: AuditChangeSet;
 }
 
-export const AttributePanel: React.FC<AttributePanelProps> = ({ selectedTable }) => {
+export const AttributePanel: React.FC<AttributePanelProps> = ({ selectedTable, changeSet }) => {
   const {
     filteredAttributes,
     isLoading,
-    isUpdating,
     searchTerm,
     setSearchTerm,
     selectedIds,
+    selectedAttributes,
     toggleSelection,
     selectAll,
     clearSelection,
-    bulkToggleAudit,
+    refresh,
   } = useAttributeAudit(selectedTable?.logicalName ?? null);
+  const { revision, isApplying, stageChanges, getStagedValue } = changeSet;
+
+  // Reload after a change set was applied or rolled back
+  useEffect(() => {
+    if (revision > 0) refresh();
+  }, [revision, refresh]);
+
+  // Queue the change for the selected columns; nothing is written until the change set is applied
+  const stageSelected = useCallback((isEnabled: boolean) => {
+    if (!selectedTable) return;
+    stageChanges(
+      selectedAttributes
+        .filter(a => a.canModifyAuditSettings)
+        .map(a => createAttributeChange(selectedTable.logicalName, a, isEnabled))
+    );
+    clearSelection();
+  }, [selectedTable, selectedAttributes, stageChanges, clearSelection]);
 
   const handleEnableSelected = useCallback(() => {
-    bulkToggleAudit(true);
-  }, [bulkToggleAudit]);
+    stageSelected(true);
+  }, [stageSelected]);
 
   const handleDisableSelected = useCallback(() => {
-    bulkToggleAudit(false);
-  }, [bulkToggleAudit]);
+    stageSelected(false);
+  }, [stageSelected]);
 
   // No table selected
   if (!selectedTable) {
@@ -72,13 +92,12 @@ export const AttributePanel: React.FC<AttributePanelProps> = ({ selectedTable })
       <SelectionToolbar
         selectedCount={selectedIds.size}
         totalCount={filteredAttributes.length}
-        isUpdating={isUpdating}
+        isUpdating={isApplying}
         onSelectAll={selectAll}
         onClearSelection={clearSelection}
         onEnableSelected={handleEnableSelected}
         onDisableSelected={handleDisableSelected}
         entityName="attributes"
-        disableAuditButtons={true}
       />
 
       {/* Attribute List */}
@@ -94,6 +113,8 @@ export const AttributePanel: React.FC<AttributePanelProps> = ({ selectedTable })
             attributes={filteredAttributes}
             selectedIds={selectedIds}
             onToggleSelection={toggleSelection}
+            entityLogicalName={selectedTable.logicalName}
+            getStagedValue={getStagedValue}
           />
         )}
       </div>
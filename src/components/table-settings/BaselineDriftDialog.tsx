@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { AuditDriftItem, AuditDriftReport, ChangeSetProgress } from '../../model/audit';
+import type { AuditChangeSet } from '../../hooks/useAuditChangeSet';
+import { compareWithBaseline, importAuditBaseline, splitDriftItems } from '../../services/baselineService';
+import { formatRetentionPeriod } from '../../utils/formatters';
+import { DismissIcon, LockClosedIcon } from '../common/Icons';
+
+interface BaselineDriftDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  changeSet: AuditChangeSet;
+}
+
+const SCOPE_LABELS = {
+  organization: 'Organization',
+  table: 'Table',
+  attribute: 'Column',
+};
+
+export const BaselineDriftDialog: React.FC<BaselineDriftDialogProps> = ({ isOpen, onClose, changeSet }) => {
+  const [report, setReport] = useState<AuditDriftReport | null>(null);
+  const [progress, setProgress] = useState<ChangeSetProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick the baseline file and compare it when the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setReport(null);
+    setError(null);
+
+    const load = async () => {
+      try {
+        const baseline = await importAuditBaseline();
+        if (!baseline) {
+          if (!cancelled) onClose();
+          return;
+        }
+        setProgress({ completed: 0, total: baseline.tables.length });
+        const result = await compareWithBaseline(baseline, p => {
+          if (!cancelled) setProgress(p);
+        });
+        if (!cancelled) setReport(result);
+      } catch (err) {
+        console.error('[BaselineDriftDialog] Error:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare with baseline');
+      } finally {
+        if (!cancelled) setProgress(null);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, onClose]);
+
+  const modifiableItems = report ? report.items.filter(i => i.canModify) : [];
+
+  const handleStage = useCallback(() => {
+    changeSet.stageChanges(modifiableItems.map(i => i.change));
+    changeSet.openReview();
+    onClose();
+  }, [changeSet, modifiableItems, onClose]);
+
+  if (!isOpen) return null;
+
+  const renderItems = (title: string, items: AuditDriftItem[]) => (
+    <div>
+      <span className="font-semibold text-sm">{title} ({items.length})</span>
+      {items.length > 0 && (
+        <div className="border border-stroke-1 rounded mt-1">
+          <table className="table w-full">
+            <thead className="table-header">
+              <tr>
+                <th className="px-3 py-2 font-semibold text-left">Type</th>
+                <th className="px-3 py-2 font-semibold text-left">Name</th>
+                <th className="px-3 py-2 font-semibold text-left">Logical Name</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => (
+                <tr key={item.change.key} className="table-row">
+                  <td className="px-3 py-2 text-xs">{SCOPE_LABELS[item.change.scope]}</td>
+                  <td className="px-3 py-2">
+                    <span className="flex items-center gap-1">
+                      {item.change.label}
+                      {!item.canModify && (
+                        <span title="Cannot be modified" className="text-foreground-3">
+                          <LockClosedIcon className="w-4 h-4" />
+                        </span>
+                      )}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-xs text-foreground-3">
+                    {item.change.scope === 'attribute'
+                      ? `${item.change.entityLogicalName}.${item.change.attribute?.logicalName}`
+                      : item.change.entityLogicalName || item.change.organizationSetting}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderBody = () => {
+    if (error) {
+      return <div className="py-6 text-center text-red-600 dark:text-red-400">{error}</div>;
+    }
+
+    if (!report) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <div className="flex flex-col items-center gap-4">
+            <div className="spinner spinner-md text-blue-600" />
+            <span className="text-foreground-3">
+              {progress
+                ? `Comparing ${progress.current || ''} (${progress.completed} of ${progress.total} tables)...`
+                : 'Waiting for the baseline file...'}
+            </span>
+          </div>
+        </div>
+      );
+    }
+
+    const { enabledHere, enabledInBaseline } = splitDriftItems(report.items);
+    const differenceCount = report.items.length + (report.retentionPeriod ? 1 : 0);
+
+    return (
+      <div className="flex flex-col gap-4 overflow-auto max-h-[460px]">
+        <div className="flex gap-8 p-3 bg-background-3 rounded">
+          <div className="flex flex-col gap-0.5">
+            <span className="text-xs text-foreground-3">Baseline taken</span>
+            <span className="font-semibold">{new Date(report.baseline.createdOn).toLocaleString()}</span>
+          </div>
+          {report.baseline.environment && (
+            <div className="flex flex-col gap-0.5 min-w-0">
+              <span className="text-xs text-foreground-3">Environment</span>
+              <span className="font-semibold text-truncate">{report.baseline.environment}</span>
+            </div>
+          )}
+          <div className="flex flex-col gap-0.5">
+            <span className="text-xs text-foreground-3">Differences</span>
+            <span className="font-semibold">{differenceCount}</span>
+          </div>
+        </div>
+
+        {differenceCount === 0 && report.failedTables.length === 0 && (
+          <div className="py-4 text-center text-green-600 dark:text-green-400">
+            This environment matches the baseline
+          </div>
+        )}
+        {report.retentionPeriod && (
+          <div className="text-sm">
+            <span className="font-semibold">Retention period</span>: {formatRetentionPeriod(report.retentionPeriod.current)} here,{' '}
+            {formatRetentionPeriod(report.retentionPeriod.baseline)} in the baseline.{' '}
+            <span className="text-foreground-3">Change it in the global audit settings; it isn't part of the change set.</span>
+          </div>
+        )}
+        {enabledHere.length > 0 && renderItems('Enabled here, not in the baseline', enabledHere)}
+        {enabledInBaseline.length > 0 && renderItems('Enabled in the baseline, not here', enabledInBaseline)}
+
+        {(report.missingTables.length > 0 || report.missingAttributes.length > 0) && (
+          <div className="text-sm text-yellow-700 dark:text-yellow-400">
+            Not found in this environment: {[...report.missingTables, ...report.missingAttributes].join(', ')}
+          </div>
+        )}
+        {report.failedTables.length > 0 && (
+          <div className="text-sm text-red-600 dark:text-red-400">
+            Columns not compared because they could not be loaded: {report.failedTables.join(', ')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="dialog-backdrop" onClick={onClose} />
+
+      {/* Dialog */}
+      <div className="dialog max-w-3xl w-[95vw] max-h-[80vh]">
+        <div className="dialog-header">
+          <span className="font-semibold text-lg">Compare with Audit Baseline</span>
+          <button className="btn-icon btn-subtle" onClick={onClose}>
+            <DismissIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="dialog-body">
+          {renderBody()}
+        </div>
+        <div className="dialog-footer">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+          <button
+            className="btn-primary"
+            onClick={handleStage}
+            disabled={!report || modifiableItems.length === 0 || changeSet.isApplying}
+            title="Queue the baseline values in the pending change set"
+          >
+            Apply baseline ({modifiableItems.length})
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useState, useEffect } from 'react';
+import { getUnmanagedSolutions } from '../../services/auditService';
+import type { SolutionOption } from '../../model/audit';
+
+interface SolutionPickerProps {
+  value: string;
+  onChange: (solutionUniqueName: string) => void;
+  disabled?: boolean;
+}
+
+export const SolutionPicker: React.FC<SolutionPickerProps> = ({ value, onChange, disabled }) => {
+  const [solutions, setSolutions] = useState<SolutionOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getUnmanagedSolutions()
+      .then(setSolutions)
+      .catch(err => {
+        console.error('[SolutionPicker] Failed to load solutions:', err);
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-foreground-3 whitespace-nowrap">Solution</span>
+      <select
+        className="select min-w-[200px]"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        disabled={disabled || isLoading}
+        title="Unmanaged solution that audit setting changes are added to"
+      >
+        <option value="">{isLoading ? 'Loading solutions...' : 'Default Solution'}</option>
+        {solutions.map(solution => (
+          <option key={solution.solutionId} value={solution.uniqueName}>
+            {solution.friendlyName}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useTableAudit } from '../../hooks/useTableAudit';
 import { SearchInput, SelectionToolbar, LoadingState, EmptyState, ArrowSyncIcon } from '../common';
 import { TableList } from './TableList';
 import { AttributePanel } from './AttributePanel';
 import { TableSettingsExportMenu } from './TableSettingsExportMenu';
+import { BaselineDriftDialog } from './BaselineDriftDialog';
 import { getAttributesForTable } from '../../services/auditService';
+import { createTableChange } from '../../services/changeSetService';
+import type { AuditChangeSet } from '../../hooks/useAuditChangeSet';
 import type { TableAuditInfo, TableFilterType } from '../../model/audit';
 
 const FILTER_OPTIONS: { value: TableFilterType; label: string }[] = [
@@ -15,33 +18,47 @@ const FILTER_OPTIONS: { value: TableFilterType; label: string }[] = [
   { value: 'system', label: 'System Tables' },
 ];
 
-export const TableAuditManager: React.FC = () => {
+interface TableAuditManagerProps {
+  changeSet: AuditChangeSet;
+}
+
+export const TableAuditManager: React.FC<TableAuditManagerProps> = ({ changeSet }) => {
   const [selectedTable, setSelectedTable] = useState<TableAuditInfo | null>(null);
+  const [isBaselineOpen, setIsBaselineOpen] = useState(false);
+  const { revision, isApplying, stageChanges, getStagedValue } = changeSet;
 
   const {
     tables,
     filteredTables,
     isLoading,
-    isUpdating,
     error,
     searchTerm,
     setSearchTerm,
     filterType,
     setFilterType,
     selectedIds,
+    selectedTables,
     toggleSelection,
     selectAll,
     clearSelection,
-    bulkToggleAudit,
     refresh,
   } = useTableAudit();
 
+  // Reload after a change set was applied or rolled back
+  useEffect(() => {
+    if (revision > 0) refresh();
+  }, [revision, refresh]);
+
   const handleTableSelect = useCallback((table: TableAuditInfo) => {
     setSelectedTable(prev =>
       prev?.metadataId === table.metadataId ? null : table
     );
   }, []);
 
+  const handleBaselineClose = useCallback(() => {
+    setIsBaselineOpen(false);
+  }, []);
+
   const handleFilterChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
       setFilterType((e.target.value as TableFilterType) || 'all');
@@ -49,13 +66,23 @@ export const TableAuditManager: React.FC = () => {
     [setFilterType]
   );
 
+  // Queue the change for the selected tables; nothing is written until the change set is applied
+  const stageSelected = useCallback((isEnabled: boolean) => {
+    stageChanges(
+      selectedTables
+        .filter(t => t.canModifyAuditSettings)
+        .map(t => createTableChange(t, isEnabled))
+    );
+    clearSelection();
+  }, [selectedTables, stageChanges, clearSelection]);
+
   const handleEnableSelected = useCallback(() => {
-    bulkToggleAudit(true);
-  }, [bulkToggleAudit]);
+    stageSelected(true);
+  }, [stageSelected]);
 
   const handleDisableSelected = useCallback(() => {
-    bulkToggleAudit(false);
-  }, [bulkToggleAudit]);
+    stageSelected(false);
+  }, [stageSelected]);
 
   if (isLoading) {
     return <LoadingState message="Loading tables..." />;
@@ -100,6 +127,7 @@ export const TableAuditManager: React.FC = () => {
           <TableSettingsExportMenu
             tables={tables}
             getAttributesForTable={getAttributesForTable}
+            onCompareBaseline={() => setIsBaselineOpen(true)}
             disabled={isLoading}
           />
         </div>
@@ -109,13 +137,12 @@ export const TableAuditManager: React.FC = () => {
       <SelectionToolbar
         selectedCount={selectedIds.size}
         totalCount={filteredTables.length}
-        isUpdating={isUpdating}
+        isUpdating={isApplying}
         onSelectAll={selectAll}
         onClearSelection={clearSelection}
         onEnableSelected={handleEnableSelected}
         onDisableSelected={handleDisableSelected}
         entityName="tables"
-        disableAuditButtons={true}
       />
 
       {/* Content Area */}
@@ -136,6 +163,7 @@ export const TableAuditManager: React.FC = () => {
                 activeTableId={selectedTable?.metadataId}
                 onToggleSelection={toggleSelection}
                 onTableClick={handleTableSelect}
+                getStagedValue={getStagedValue}
               />
             )}
           </div>
@@ -143,9 +171,15 @@ export const TableAuditManager: React.FC = () => {
 
         {/* Attribute Pane */}
         <div className="flex-1 flex flex-col overflow-hidden">
-          <AttributePanel selectedTable={selectedTable} />
+          <AttributePanel selectedTable={selectedTable} changeSet={changeSet} />
         </div>
       </div>
+
+      <BaselineDriftDialog
+        isOpen={isBaselineOpen}
+        onClose={handleBaselineClose}
+        changeSet={changeSet}
+      />
     </div>
   );
 };
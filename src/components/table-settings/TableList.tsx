@@ -1,5 +1,6 @@
 import React, { useCallback } from 'react';
-import { StatusBadge } from '../common';
+import { StatusBadge, ComparisonBadge } from '../common';
+import { getTableChangeKey } from '../../services/changeSetService';
 import type { TableAuditInfo } from '../../model/audit';
 
 interface TableListProps {
@@ -8,6 +9,8 @@ interface TableListProps {
   activeTableId?: string;
   onToggleSelection: (id: string) => void;
   onTableClick: (table: TableAuditInfo) => void;
+  getStagedValue?: (key: string, currentValue: boolean) => boolean;
+  comparisonValues?: Map<string, boolean>;  // Audit flags of the other environment, by logical name
 }
 
 export const TableList: React.FC<TableListProps> = ({
@@ -16,6 +19,8 @@ export const TableList: React.FC<TableListProps> = ({
   activeTableId,
   onToggleSelection,
   onTableClick,
+  getStagedValue,
+  comparisonValues,
 }) => {
   const handleCheckboxChange = useCallback(
     (e: React.MouseEvent, id: string) => {
@@ -30,12 +35,19 @@ export const TableList: React.FC<TableListProps> = ({
       {tables.map(table => {
         const isSelected = selectedIds.has(table.metadataId);
         const isActive = activeTableId === table.metadataId;
+        const stagedValue = getStagedValue
+          ? getStagedValue(getTableChangeKey(table.logicalName), table.isAuditEnabled)
+          : table.isAuditEnabled;
+        const comparisonValue = comparisonValues?.get(table.logicalName);
+        const isDifferent = !!comparisonValues && comparisonValue !== table.isAuditEnabled;
 
         let rowClasses = 'flex items-center gap-2 px-4 py-2 border-b border-stroke-2 cursor-pointer transition-colors';
         if (isActive) {
           rowClasses += ' bg-background-3';
         } else if (isSelected) {
           rowClasses += ' bg-blue-50 dark:bg-blue-900/20';
+        } else if (isDifferent) {
+          rowClasses += ' bg-yellow-50 dark:bg-yellow-900/20 hover:bg-background-2';
         } else {
           rowClasses += ' hover:bg-background-2';
         }
@@ -70,11 +82,19 @@ export const TableList: React.FC<TableListProps> = ({
                   Custom
                 </span>
               )}
+              {stagedValue !== table.isAuditEnabled && (
+                <span className="badge badge-warning text-2xs" title="Staged, not applied yet">
+                  Pending
+                </span>
+              )}
               <StatusBadge
-                isEnabled={table.isAuditEnabled}
+                isEnabled={stagedValue}
                 canModify={table.canModifyAuditSettings}
                 size="small"
               />
+              {comparisonValues && (
+                <ComparisonBadge value={comparisonValue} />
+              )}
             </div>
           </div>
         );
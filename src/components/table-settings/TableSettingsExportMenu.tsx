@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { ArrowDownloadIcon, TableSimpleIcon, CheckmarkCircleIcon } from '../common/Icons';
 import { exportTableSettings, TableExportScope } from '../../services/exportService';
+import { buildAuditBaseline, exportAuditBaseline } from '../../services/baselineService';
 import { TableAuditInfo, AttributeAuditInfo } from '../../model/audit';
 
 // Table icon for the menu
@@ -14,12 +15,14 @@ const TableIcon: React.FC<{ className?: string }> = ({ className = '' }) => (
 interface TableSettingsExportMenuProps {
   tables: TableAuditInfo[];
   getAttributesForTable: (logicalName: string) => Promise<AttributeAuditInfo[]>;
+  onCompareBaseline: () => void;
   disabled?: boolean;
 }
 
 export const TableSettingsExportMenu: React.FC<TableSettingsExportMenuProps> = ({
   tables,
   getAttributesForTable,
+  onCompareBaseline,
   disabled = false,
 }) => {
   const [isExporting, setIsExporting] = useState(false);
@@ -107,6 +110,52 @@ export const TableSettingsExportMenu: React.FC<TableSettingsExportMenuProps> = (
     }
   }, [tables, getAttributesForTable, auditEnabledOnly]);
 
+  const handleExportBaseline = useCallback(async () => {
+    setIsExporting(true);
+    setIsOpen(false);
+
+    try {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Exporting',
+        body: 'Reading the audit settings of all tables and columns...',
+        type: 'info',
+        duration: 2000,
+      });
+
+      const result = await exportAuditBaseline(await buildAuditBaseline());
+
+      if (result.success) {
+        await window.toolboxAPI.utils.showNotification({
+          title: 'Export Complete',
+          body: `Saved to ${result.filename}`,
+          type: 'success',
+          duration: 3000,
+        });
+      } else if (result.error !== 'Export cancelled') {
+        await window.toolboxAPI.utils.showNotification({
+          title: 'Export Failed',
+          body: result.error || 'Unknown error',
+          type: 'error',
+          duration: 5000,
+        });
+      }
+    } catch (error) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Export Failed',
+        body: error instanceof Error ? error.message : 'Unknown error',
+        type: 'error',
+        duration: 5000,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  const handleCompareBaseline = useCallback(() => {
+    setIsOpen(false);
+    onCompareBaseline();
+  }, [onCompareBaseline]);
+
   const toggleAuditEnabledOnly = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
     setAuditEnabledOnly(prev => !prev);
@@ -165,6 +214,27 @@ export const TableSettingsExportMenu: React.FC<TableSettingsExportMenuProps> = (
             <TableIcon className="w-5 h-5" />
             Tables with Attributes
           </button>
+
+          <div className="dropdown-divider" />
+
+          {/* Baseline Options */}
+          <div className="px-3 py-1.5 text-xs font-semibold text-foreground-3 uppercase">
+            Audit Baseline (JSON)
+          </div>
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={handleExportBaseline}
+          >
+            <ArrowDownloadIcon className="w-5 h-5" />
+            Export Baseline
+          </button>
+          <button
+            className="dropdown-item w-full text-left"
+            onClick={handleCompareBaseline}
+          >
+            <CheckmarkCircleIcon className="w-5 h-5" />
+            Compare with Baseline...
+          </button>
         </div>
       )}
     </div>
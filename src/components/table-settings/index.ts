@@ -3,3 +3,5 @@ export { TableList } from './TableList';
 export { AttributePanel } from './AttributePanel';
 export { AttributeList } from './AttributeList';
 export { TableSettingsExportMenu } from './TableSettingsExportMenu';
+export { SolutionPicker } from './SolutionPicker';
+export { BaselineDriftDialog } from './BaselineDriftDialog';
@@ -0,0 +1,219 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type {
+  AuditConfigChange,
+  AppliedChangeSet,
+  BulkOperationResult,
+  ChangeSetProgress,
+} from '../model/audit';
+import {
+  applyAuditChanges,
+  getAppliedChangeSets,
+  getEnvironmentKey,
+  recordAppliedChangeSet,
+  rollbackChangeSet,
+} from '../services/changeSetService';
+
+// Build the notification for a change set run
+function getResultNotification(result: BulkOperationResult): { body: string; type: 'success' | 'warning' | 'error' } {
+  if (result.failed > 0 && result.success === 0) {
+    return {
+      body: result.errors.length > 0 ? result.errors[0] : `All ${result.failed} changes failed`,
+      type: 'error',
+    };
+  }
+  if (result.failed > 0) {
+    return {
+      body: `Applied ${result.success} changes. ${result.failed} failed: ${result.errors[0] || 'Unknown error'}`,
+      type: 'warning',
+    };
+  }
+  return {
+    body: `Successfully applied ${result.success} change${result.success !== 1 ? 's' : ''}`,
+    type: 'success',
+  };
+}
+
+/**
+ * Staged audit configuration changes of the active connection
+ * Changes are staged for one environment and discarded when the connection changes.
+ */
+export function useAuditChangeSet(connection: ToolBoxAPI.DataverseConnection | null) {
+  const [pendingChanges, setPendingChanges] = useState<Record<string, AuditConfigChange>>({});
+  // Environment the pending changes were staged for
+  const [pendingEnvironment, setPendingEnvironment] = useState<string | null>(null);
+  const [appliedChangeSets, setAppliedChangeSets] = useState<AppliedChangeSet[]>([]);
+  const [solutionUniqueName, setSolutionUniqueName] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [progress, setProgress] = useState<ChangeSetProgress | null>(null);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  // Incremented after every apply/rollback so views can reload their settings
+  const [revision, setRevision] = useState(0);
+
+  const changes = useMemo(() => Object.values(pendingChanges), [pendingChanges]);
+  const environmentKey = getEnvironmentKey(connection?.url);
+
+  // Queue changes; a change back to the original value removes it from the set
+  const stageChanges = useCallback((toStage: AuditConfigChange[]) => {
+    setPendingEnvironment(environmentKey);
+    setPendingChanges(prev => {
+      const next = { ...prev };
+      for (const change of toStage) {
+        const before = prev[change.key]?.before ?? change.before;
+        if (before === change.after) {
+          delete next[change.key];
+        } else {
+          next[change.key] = { ...change, before };
+        }
+      }
+      return next;
+    });
+  }, [environmentKey]);
+
+  const unstageChange = useCallback((key: string) => {
+    setPendingChanges(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  }, []);
+
+  const discardChanges = useCallback(() => {
+    setPendingChanges({});
+    setPendingEnvironment(null);
+  }, []);
+
+  // Changes staged for one environment must never be applied to another
+  useEffect(() => {
+    if (pendingEnvironment !== null && pendingEnvironment !== environmentKey) {
+      console.log('[ChangeSet] Connection changed, discarding pending changes');
+      discardChanges();
+    }
+  }, [environmentKey, pendingEnvironment, discardChanges]);
+
+  const openReview = useCallback(() => setIsReviewOpen(true), []);
+  const closeReview = useCallback(() => setIsReviewOpen(false), []);
+
+  // Effective value of a flag, taking the pending change into account
+  const getStagedValue = useCallback((key: string, currentValue: boolean): boolean => {
+    const change = pendingChanges[key];
+    return change ? change.after : currentValue;
+  }, [pendingChanges]);
+
+  const applyChanges = useCallback(async (): Promise<BulkOperationResult> => {
+    if (changes.length === 0) {
+      return { success: 0, failed: 0, errors: ['No pending changes'] };
+    }
+    if (!connection || pendingEnvironment !== environmentKey) {
+      const errorMessage = 'The pending changes were staged for another connection and have been discarded';
+      discardChanges();
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Apply Cancelled',
+        body: errorMessage,
+        type: 'warning',
+        duration: 5000,
+      });
+      return { success: 0, failed: 0, errors: [errorMessage] };
+    }
+
+    setIsApplying(true);
+    setProgress({ completed: 0, total: changes.length });
+    try {
+      const solution = solutionUniqueName || undefined;
+      const outcome = await applyAuditChanges(changes, solution, setProgress);
+
+      if (outcome.appliedChanges.length > 0) {
+        setAppliedChangeSets(await recordAppliedChangeSet(outcome, solution, connection));
+      }
+
+      // Keep failed changes queued so they can be retried
+      const appliedKeys = new Set(outcome.appliedChanges.map(c => c.key));
+      setPendingChanges(prev => {
+        const next: Record<string, AuditConfigChange> = {};
+        for (const [key, change] of Object.entries(prev)) {
+          if (!appliedKeys.has(key)) next[key] = change;
+        }
+        return next;
+      });
+
+      const notification = getResultNotification(outcome.result);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Audit Changes Applied',
+        body: notification.body,
+        type: notification.type,
+        duration: outcome.result.failed > 0 ? 5000 : 3000,
+      });
+
+      return outcome.result;
+    } catch (err) {
+      const errorMessage = (err as Error).message || String(err);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Apply Failed',
+        body: errorMessage,
+        type: 'error',
+        duration: 5000,
+      });
+      return { success: 0, failed: 1, errors: [errorMessage] };
+    } finally {
+      setIsApplying(false);
+      setProgress(null);
+      setRevision(r => r + 1);
+    }
+  }, [changes, solutionUniqueName, connection, pendingEnvironment, environmentKey, discardChanges]);
+
+  const rollback = useCallback(async (changeSet: AppliedChangeSet): Promise<BulkOperationResult> => {
+    setIsApplying(true);
+    setProgress({ completed: 0, total: changeSet.changes.length });
+    try {
+      const { outcome, changeSets } = await rollbackChangeSet(changeSet, setProgress);
+      setAppliedChangeSets(changeSets);
+
+      const notification = getResultNotification(outcome.result);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Change Set Rolled Back',
+        body: notification.body,
+        type: notification.type,
+        duration: outcome.result.failed > 0 ? 5000 : 3000,
+      });
+
+      return outcome.result;
+    } catch (err) {
+      const errorMessage = (err as Error).message || String(err);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Rollback Failed',
+        body: errorMessage,
+        type: 'error',
+        duration: 5000,
+      });
+      return { success: 0, failed: 1, errors: [errorMessage] };
+    } finally {
+      setIsApplying(false);
+      setProgress(null);
+      setRevision(r => r + 1);
+    }
+  }, []);
+
+  useEffect(() => {
+    getAppliedChangeSets().then(setAppliedChangeSets);
+  }, []);
+
+  return {
+    changes,
+    appliedChangeSets,
+    solutionUniqueName,
+    setSolutionUniqueName,
+    isApplying,
+    progress,
+    revision,
+    isReviewOpen,
+    openReview,
+    closeReview,
+    stageChanges,
+    unstageChange,
+    discardChanges,
+    getStagedValue,
+    applyChanges,
+    rollback,
+  };
+}
+
+export type AuditChangeSet = ReturnType<typeof useAuditChangeSet>;
@@ -1,17 +1,28 @@
 import { useReducer, useCallback } from 'react';
-import { AuditFiltersState, initialFiltersState } from '../model/auditLog';
+import { AuditFiltersState, RelativeDateRange, initialFiltersState } from '../model/auditLog';
+import { AttributeOption } from '../model/metadata';
 
 // Action types for filter reducer
 type FilterAction =
   | { type: 'SET_TABLES'; payload: string[] }
   | { type: 'SET_RECORD'; payload: { id: string | null; name: string | null } }
-  | { type: 'SET_ATTRIBUTES'; payload: string[] }
+  | { type: 'SET_ATTRIBUTES'; payload: AttributeOption[] }
   | { type: 'SET_OPERATIONS'; payload: number[] }
   | { type: 'SET_ACTIONS'; payload: number[] }
   | { type: 'SET_FROM_DATE'; payload: Date | null }
   | { type: 'SET_TO_DATE'; payload: Date | null }
+  | { type: 'SET_RELATIVE_DATE'; payload: RelativeDateRange | null }
   | { type: 'SET_USERS'; payload: Array<{ id: string; name: string }> }
+  | { type: 'SET_BUSINESS_UNITS'; payload: Array<{ id: string; name: string }> }
+  | { type: 'SET_TEAMS'; payload: Array<{ id: string; name: string }> }
+  | { type: 'SET_USER_ROLES'; payload: Array<{ id: string; name: string }> }
   | { type: 'SET_SECURITY_ROLES'; payload: Array<{ id: string; name: string }> }
+  | { type: 'SET_SEARCH_TEXT'; payload: string }
+  | { type: 'SET_EXCLUDED_TABLES'; payload: string[] }
+  | { type: 'SET_EXCLUDED_OPERATIONS'; payload: number[] }
+  | { type: 'SET_EXCLUDED_ACTIONS'; payload: number[] }
+  | { type: 'SET_EXCLUDED_USERS'; payload: Array<{ id: string; name: string }> }
+  | { type: 'SET_FILTERS'; payload: AuditFiltersState }
   | { type: 'CLEAR_FILTERS' };
 
 // Filter reducer
@@ -21,9 +32,11 @@ function filterReducer(state: AuditFiltersState, action: FilterAction): AuditFil
       return {
         ...state,
         tableLogicalNames: action.payload,
-        // Clear record selection when tables change
+        // Clear record and attribute selection when tables change
         recordId: null,
         recordName: null,
+        selectedAttributes: [],
+        selectedAttributeColumns: [],
       };
     case 'SET_RECORD':
       return {
@@ -32,25 +45,53 @@ function filterReducer(state: AuditFiltersState, action: FilterAction): AuditFil
         recordName: action.payload.name,
       };
     case 'SET_ATTRIBUTES':
-      return { ...state, selectedAttributes: action.payload };
+      return {
+        ...state,
+        selectedAttributes: action.payload.map(a => a.logicalName),
+        // Attributes without a column number cannot appear in attributemask
+        selectedAttributeColumns: action.payload
+          .map(a => a.columnNumber)
+          .filter((n): n is number => typeof n === 'number'),
+      };
     case 'SET_OPERATIONS':
       return { ...state, operations: action.payload };
     case 'SET_ACTIONS':
       return { ...state, actions: action.payload };
+    // Absolute and relative date ranges are mutually exclusive
     case 'SET_FROM_DATE':
-      return { ...state, fromDate: action.payload };
+      return { ...state, fromDate: action.payload, relativeDate: null };
     case 'SET_TO_DATE':
-      return { ...state, toDate: action.payload };
+      return { ...state, toDate: action.payload, relativeDate: null };
+    case 'SET_RELATIVE_DATE':
+      return { ...state, relativeDate: action.payload, fromDate: null, toDate: null };
     case 'SET_USERS':
       return {
         ...state,
         selectedUsers: action.payload,
       };
+    case 'SET_BUSINESS_UNITS':
+      return { ...state, selectedBusinessUnits: action.payload };
+    case 'SET_TEAMS':
+      return { ...state, selectedTeams: action.payload };
+    case 'SET_USER_ROLES':
+      return { ...state, selectedUserRoles: action.payload };
     case 'SET_SECURITY_ROLES':
       return {
         ...state,
         selectedSecurityRoles: action.payload,
       };
+    case 'SET_SEARCH_TEXT':
+      return { ...state, searchText: action.payload };
+    case 'SET_EXCLUDED_TABLES':
+      return { ...state, excludedTables: action.payload };
+    case 'SET_EXCLUDED_OPERATIONS':
+      return { ...state, excludedOperations: action.payload };
+    case 'SET_EXCLUDED_ACTIONS':
+      return { ...state, excludedActions: action.payload };
+    case 'SET_EXCLUDED_USERS':
+      return { ...state, excludedUsers: action.payload };
+    case 'SET_FILTERS':
+      return action.payload;
     case 'CLEAR_FILTERS':
       return {
         ...initialFiltersState,
@@ -65,13 +106,23 @@ export interface UseAuditFiltersResult {
   filters: AuditFiltersState;
   setTables: (logicalNames: string[]) => void;
   setRecord: (id: string | null, name: string | null) => void;
-  setSelectedAttributes: (attributes: string[]) => void;
+  setSelectedAttributes: (attributes: AttributeOption[]) => void;
   setOperations: (operations: number[]) => void;
   setActions: (actions: number[]) => void;
   setFromDate: (date: Date | null) => void;
   setToDate: (date: Date | null) => void;
+  setRelativeDate: (range: RelativeDateRange | null) => void;
   setUsers: (users: Array<{ id: string; name: string }>) => void;
+  setBusinessUnits: (businessUnits: Array<{ id: string; name: string }>) => void;
+  setTeams: (teams: Array<{ id: string; name: string }>) => void;
+  setUserRoles: (roles: Array<{ id: string; name: string }>) => void;
   setSecurityRoles: (roles: Array<{ id: string; name: string }>) => void;
+  setSearchText: (text: string) => void;
+  setExcludedTables: (logicalNames: string[]) => void;
+  setExcludedOperations: (operations: number[]) => void;
+  setExcludedActions: (actions: number[]) => void;
+  setExcludedUsers: (users: Array<{ id: string; name: string }>) => void;
+  setFilters: (filters: AuditFiltersState) => void;
   clearFilters: () => void;
 }
 
@@ -92,9 +143,10 @@ export function useAuditFilters(onFilterChange?: () => void): UseAuditFiltersRes
     onFilterChange?.();
   }, [onFilterChange]);
 
-  const setSelectedAttributes = useCallback((attributes: string[]) => {
+  const setSelectedAttributes = useCallback((attributes: AttributeOption[]) => {
     dispatch({ type: 'SET_ATTRIBUTES', payload: attributes });
-  }, []);
+    onFilterChange?.();
+  }, [onFilterChange]);
 
   const setOperations = useCallback((operations: number[]) => {
     dispatch({ type: 'SET_OPERATIONS', payload: operations });
@@ -116,16 +168,66 @@ export function useAuditFilters(onFilterChange?: () => void): UseAuditFiltersRes
     onFilterChange?.();
   }, [onFilterChange]);
 
+  const setRelativeDate = useCallback((range: RelativeDateRange | null) => {
+    dispatch({ type: 'SET_RELATIVE_DATE', payload: range });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
   const setUsers = useCallback((users: Array<{ id: string; name: string }>) => {
     dispatch({ type: 'SET_USERS', payload: users });
     onFilterChange?.();
   }, [onFilterChange]);
 
+  const setBusinessUnits = useCallback((businessUnits: Array<{ id: string; name: string }>) => {
+    dispatch({ type: 'SET_BUSINESS_UNITS', payload: businessUnits });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setTeams = useCallback((teams: Array<{ id: string; name: string }>) => {
+    dispatch({ type: 'SET_TEAMS', payload: teams });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setUserRoles = useCallback((roles: Array<{ id: string; name: string }>) => {
+    dispatch({ type: 'SET_USER_ROLES', payload: roles });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
   const setSecurityRoles = useCallback((roles: Array<{ id: string; name: string }>) => {
     dispatch({ type: 'SET_SECURITY_ROLES', payload: roles });
     onFilterChange?.();
   }, [onFilterChange]);
 
+  const setSearchText = useCallback((text: string) => {
+    dispatch({ type: 'SET_SEARCH_TEXT', payload: text });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setExcludedTables = useCallback((logicalNames: string[]) => {
+    dispatch({ type: 'SET_EXCLUDED_TABLES', payload: logicalNames });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setExcludedOperations = useCallback((operations: number[]) => {
+    dispatch({ type: 'SET_EXCLUDED_OPERATIONS', payload: operations });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setExcludedActions = useCallback((actions: number[]) => {
+    dispatch({ type: 'SET_EXCLUDED_ACTIONS', payload: actions });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setExcludedUsers = useCallback((users: Array<{ id: string; name: string }>) => {
+    dispatch({ type: 'SET_EXCLUDED_USERS', payload: users });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
+  const setFilters = useCallback((next: AuditFiltersState) => {
+    dispatch({ type: 'SET_FILTERS', payload: next });
+    onFilterChange?.();
+  }, [onFilterChange]);
+
   const clearFilters = useCallback(() => {
     dispatch({ type: 'CLEAR_FILTERS' });
     onFilterChange?.();
@@ -140,8 +242,18 @@ export function useAuditFilters(onFilterChange?: () => void): UseAuditFiltersRes
     setActions,
     setFromDate,
     setToDate,
+    setRelativeDate,
     setUsers,
+    setBusinessUnits,
+    setTeams,
+    setUserRoles,
     setSecurityRoles,
+    setSearchText,
+    setExcludedTables,
+    setExcludedOperations,
+    setExcludedActions,
+    setExcludedUsers,
+    setFilters,
     clearFilters,
   };
 }
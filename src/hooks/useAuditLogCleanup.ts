@@ -0,0 +1,165 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { AuditDeletionEstimate, AuditDeletionJob } from '../model/audit';
+import { countAuditRecordsBefore } from '../services/auditLogService';
+import {
+  getAuditDeletionJobStatus,
+  isCurrentUserSystemAdministrator,
+  submitAuditLogDeletion,
+} from '../services/auditCleanupService';
+
+const JOB_SETTINGS_KEY = 'auditCleanupJob';
+const POLL_INTERVAL_MS = 5000;
+
+// Cutoff dates are picked as calendar days and apply from midnight UTC, like the audit log date filters
+function toCutoffDate(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function useAuditLogCleanup() {
+  const [isAdministrator, setIsAdministrator] = useState<boolean | null>(null);
+  const [cutoffValue, setCutoffValue] = useState('');
+  const [estimate, setEstimate] = useState<AuditDeletionEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [job, setJob] = useState<AuditDeletionJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Check the role and restore the last submitted job
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const isAdmin = await isCurrentUserSystemAdministrator();
+        if (!cancelled) setIsAdministrator(isAdmin);
+      } catch (err) {
+        console.error('[useAuditLogCleanup] Error checking security roles:', err);
+        if (!cancelled) setIsAdministrator(false);
+      }
+
+      try {
+        const savedJob = await window.toolboxAPI.settings.get(JOB_SETTINGS_KEY) as AuditDeletionJob | undefined;
+        if (!cancelled && savedJob?.jobId) setJob(savedJob);
+      } catch (err) {
+        console.error('[useAuditLogCleanup] Error loading the last cleanup job:', err);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // A new cutoff needs a new estimate
+  useEffect(() => {
+    setEstimate(null);
+  }, [cutoffValue]);
+
+  const saveJob = useCallback(async (next: AuditDeletionJob) => {
+    setJob(next);
+    try {
+      await window.toolboxAPI.settings.set(JOB_SETTINGS_KEY, next);
+    } catch (err) {
+      console.error('[useAuditLogCleanup] Error saving the cleanup job:', err);
+    }
+  }, []);
+
+  // Poll the job until it completes
+  useEffect(() => {
+    if (!job || job.isComplete) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const next = await getAuditDeletionJobStatus(job);
+        if (next.statusCode !== job.statusCode || next.deletedCount !== job.deletedCount || next.isComplete) {
+          await saveJob(next);
+        }
+        if (next.isComplete) {
+          await window.toolboxAPI.utils.showNotification({
+            title: next.isSucceeded ? 'Audit Cleanup Complete' : 'Audit Cleanup Finished',
+            body: next.isSucceeded
+              ? `Deleted ${next.deletedCount ?? 'the'} audit records created before ${new Date(next.cutoffDate).toLocaleDateString()}`
+              : `The deletion job ended with status: ${next.statusLabel}`,
+            type: next.isSucceeded ? 'success' : 'error',
+            duration: 5000,
+          });
+        }
+      } catch (err) {
+        console.error('[useAuditLogCleanup] Error polling the cleanup job:', err);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [job, saveJob]);
+
+  const estimateDeletion = useCallback(async () => {
+    const cutoffDate = toCutoffDate(cutoffValue);
+    if (!cutoffDate) return;
+
+    setIsEstimating(true);
+    setError(null);
+    try {
+      setEstimate(await countAuditRecordsBefore(cutoffDate));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsEstimating(false);
+    }
+  }, [cutoffValue]);
+
+  const submitDeletion = useCallback(async (): Promise<boolean> => {
+    const cutoffDate = toCutoffDate(cutoffValue);
+    if (!cutoffDate) return false;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const jobId = await submitAuditLogDeletion(cutoffDate);
+      await saveJob({
+        jobId,
+        cutoffDate: cutoffDate.toISOString(),
+        submittedOn: new Date().toISOString(),
+        statusCode: 0,
+        statusLabel: 'Submitted',
+        isComplete: false,
+        isSucceeded: false,
+      });
+      setEstimate(null);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Audit Cleanup Submitted',
+        body: 'The deletion runs as a background job; its status is shown in the cleanup panel',
+        type: 'info',
+        duration: 3000,
+      });
+      return true;
+    } catch (err) {
+      const message = (err as Error).message;
+      setError(message);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Audit Cleanup Failed',
+        body: `Failed to submit the deletion: ${message}`,
+        type: 'error',
+        duration: 5000,
+      });
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [cutoffValue, saveJob]);
+
+  return {
+    isAdministrator,
+    cutoffValue,
+    setCutoffValue,
+    estimate,
+    isEstimating,
+    isSubmitting,
+    job,
+    error,
+    estimateDeletion,
+    submitDeletion,
+  };
+}
@@ -1,22 +1,27 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   AuditLogEntry,
   AuditFiltersState,
   PaginationState,
   AuditDetail,
+  RelativeDateRange,
   SortState,
   SortColumn,
 } from '../model/auditLog';
+import { AttributeOption } from '../model/metadata';
 import {
   queryAuditLogs,
   getAuditDetails,
   getRecordChangeHistory,
   getCachedDetails,
   clearAuditDetailsCache,
+  loadDetailsInBatches,
 } from '../services/auditLogService';
+import { clearPrincipalGroupCache } from '../services/principalService';
 import { useAuditFilters } from './useAuditFilters';
 import { useAuditPagination } from './useAuditPagination';
 import { useAuditSorting } from './useAuditSorting';
+import { matchesSearchText } from '../utils/auditHelpers';
 
 interface UseAuditLogsResult {
   // Data
@@ -26,28 +31,46 @@ interface UseAuditLogsResult {
   // Loading states
   isLoading: boolean;
   isLoadingDetails: boolean;
+  isSearchingChanges: boolean;
 
   // Pagination
   pagination: PaginationState;
   setPage: (page: number) => void;
   setPageSize: (size: number) => void;
+  restorePage: (page: number, pageSize?: number, anchorDate?: string) => void;
+  jumpToDate: (date: Date | null) => void;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  goBack: () => void;
+  goForward: () => void;
   canNavigateToPage: (page: number) => boolean;
 
   // Sorting
   sort: SortState;
   setSort: (column: SortColumn) => void;
+  setSortState: (sort: SortState) => void;
 
   // Filters
   filters: AuditFiltersState;
   setTables: (logicalNames: string[]) => void;
   setRecord: (id: string | null, name: string | null) => void;
-  setSelectedAttributes: (attributes: string[]) => void;
+  setSelectedAttributes: (attributes: AttributeOption[]) => void;
   setOperations: (operations: number[]) => void;
   setActions: (actions: number[]) => void;
   setFromDate: (date: Date | null) => void;
   setToDate: (date: Date | null) => void;
+  setRelativeDate: (range: RelativeDateRange | null) => void;
   setUsers: (users: Array<{ id: string; name: string }>) => void;
+  setBusinessUnits: (businessUnits: Array<{ id: string; name: string }>) => void;
+  setTeams: (teams: Array<{ id: string; name: string }>) => void;
+  setUserRoles: (roles: Array<{ id: string; name: string }>) => void;
   setSecurityRoles: (roles: Array<{ id: string; name: string }>) => void;
+  setSearchText: (text: string) => void;
+  setExcludedTables: (logicalNames: string[]) => void;
+  setExcludedOperations: (operations: number[]) => void;
+  setExcludedActions: (actions: number[]) => void;
+  setExcludedUsers: (users: Array<{ id: string; name: string }>) => void;
+  setFilters: (filters: AuditFiltersState) => void;
   clearFilters: () => void;
 
   // Actions
@@ -70,12 +93,17 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
   const [detailsMap, setDetailsMap] = useState<Map<string, AuditDetail[]>>(new Map());
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  const [isSearchingChanges, setIsSearchingChanges] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Ref to track latest entries for use in callbacks
   const entriesRef = useRef<AuditLogEntry[]>(entries);
   entriesRef.current = entries;
 
+  // Ref to the loaded details, so the change value search skips entries that already have them
+  const detailsMapRef = useRef(detailsMap);
+  detailsMapRef.current = detailsMap;
+
   // Compose pagination hook
   const {
     pagination,
@@ -85,6 +113,15 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
     setPage,
     canNavigateToPage,
     setPageSize,
+    restorePage,
+    getCachedPage,
+    cachePage,
+    clearPageCache,
+    jumpToDate,
+    canGoBack,
+    canGoForward,
+    goBack,
+    goForward,
     resetPagination,
   } = useAuditPagination();
 
@@ -93,6 +130,7 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
     resetPagination();
     setDetailsMap(new Map());
     clearAuditDetailsCache();
+    clearPrincipalGroupCache();
   }, [resetPagination]);
 
   // Compose filters hook with pagination reset callback
@@ -105,8 +143,18 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
     setActions,
     setFromDate,
     setToDate,
+    setRelativeDate,
     setUsers,
+    setBusinessUnits,
+    setTeams,
+    setUserRoles,
     setSecurityRoles,
+    setSearchText,
+    setExcludedTables,
+    setExcludedOperations,
+    setExcludedActions,
+    setExcludedUsers,
+    setFilters,
     clearFilters: clearFiltersBase,
   } = useAuditFilters(handleFilterChange);
 
@@ -127,8 +175,21 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
     clearFiltersBase();
   }, [clearFiltersBase]);
 
-  // Compose sorting hook
-  const { sort, setSort, sortedEntries } = useAuditSorting(entries);
+  // Compose sorting hook; the sort is applied server-side, so a change restarts paging
+  const { sort, setSort, setSortState } = useAuditSorting(resetPagination);
+
+  // The search box keeps what was typed; surrounding spaces don't change the search
+  const searchText = filters.searchText.trim();
+
+  // Identifies the server query behind a page; the search text is part of it as a changedata condition
+  const pageSignature = useMemo(() => {
+    return JSON.stringify({
+      filters: { ...filters, searchText },
+      sort,
+      pageSize: pagination.pageSize,
+      anchorDate: pagination.anchorDate,
+    });
+  }, [filters, searchText, sort, pagination.pageSize, pagination.anchorDate]);
 
   // Fetch audit logs
   const fetchAuditLogs = useCallback(async () => {
@@ -139,12 +200,31 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
       return;
     }
 
+    // Pages already fetched for these filters are shown without querying again
+    const cached = getCachedPage(pageSignature, pagination.pageNumber);
+    if (cached) {
+      console.log('[AuditLogs] Using cached page', pagination.pageNumber);
+      setError(null);
+      setEntries(cached.entries);
+      if (cached.details) {
+        const details = cached.details;
+        setDetailsMap(prev => new Map([...prev, ...details]));
+      }
+      setPagination(p => ({
+        ...p,
+        totalCount: cached.totalCount,
+        hasMoreRecords: cached.hasMoreRecords,
+      }));
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
       console.log('[AuditLogs] Querying audit logs...');
       let result;
+      let resultDetails: Map<string, AuditDetail[]> | undefined;
 
       // Build pagination object with current paging cookie from ref
       const paginationWithCookie = {
@@ -158,22 +238,38 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
         const historyResult = await getRecordChangeHistory(
           filters.tableLogicalNames[0],
           filters.recordId,
-          paginationWithCookie
+          paginationWithCookie,
+          sort
         );
         result = {
           entries: historyResult.entries || [],
           totalCount: historyResult.totalCount || 0,
           hasMoreRecords: historyResult.hasMoreRecords || false,
           pagingCookie: historyResult.pagingCookie,
+          error: historyResult.error,
         };
         // Merge details from history API
         if (historyResult.details) {
+          resultDetails = historyResult.details;
           setDetailsMap(prev => new Map([...prev, ...historyResult.details]));
         }
       } else {
         // Fetch audit logs (with or without table filter)
         console.log('[AuditLogs] Fetching audit logs');
-        result = await queryAuditLogs(filters, paginationWithCookie);
+        result = await queryAuditLogs(filters, paginationWithCookie, sort);
+        // Details loaded to search change values client-side
+        if (result.details) {
+          const queryDetails = result.details;
+          resultDetails = queryDetails;
+          setDetailsMap(prev => new Map([...prev, ...queryDetails]));
+        }
+      }
+
+      // A failed query comes back as an empty page; show the error and leave it out of the cache
+      if (result.error) {
+        setError(result.error);
+        setEntries([]);
+        return;
       }
 
       console.log('[AuditLogs] Query complete, entries:', result?.entries?.length || 0, 'hasMore:', result?.hasMoreRecords);
@@ -193,6 +289,14 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
         totalCount: result?.totalCount || 0,
         hasMoreRecords: result?.hasMoreRecords || false,
       }));
+
+      cachePage(pageSignature, pagination.pageNumber, {
+        entries: result?.entries || [],
+        totalCount: result?.totalCount || 0,
+        hasMoreRecords: result?.hasMoreRecords || false,
+        pagingCookie: result?.pagingCookie,
+        details: resultDetails,
+      });
     } catch (err) {
       console.error('[AuditLogs] Error fetching audit logs:', err);
       const message = err instanceof Error ? err.message : 'Failed to load audit logs';
@@ -202,7 +306,13 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
       console.log('[AuditLogs] Fetch complete, setting isLoading to false');
       setIsLoading(false);
     }
-  }, [isConnected, filters, pagination.pageNumber, pagination.pageSize, pagingCookieRef, setPagination]);
+  }, [isConnected, filters, sort, pagination.pageNumber, pagination.pageSize, pagination.anchorDate, pageSignature, pagingCookieRef, setPagination, getCachedPage, cachePage]);
+
+  // Refresh discards the cached pages so every page is fetched again
+  const refresh = useCallback(async () => {
+    clearPageCache();
+    await fetchAuditLogs();
+  }, [clearPageCache, fetchAuditLogs]);
 
   // Fetch when connected and filters or pagination changes
   useEffect(() => {
@@ -211,6 +321,41 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
     }
   }, [isConnected, fetchAuditLogs]);
 
+  // While searching change values, load the details of the page so they can be matched
+  useEffect(() => {
+    const entriesToLoad = entries.filter(entry =>
+      entry.objectTypeCode && !detailsMapRef.current.has(entry.id) && !getCachedDetails(entry.id)
+    );
+    if (!searchText || entriesToLoad.length === 0) return;
+
+    let cancelled = false;
+    const loadPageDetails = async () => {
+      setIsSearchingChanges(true);
+      try {
+        const details = await loadDetailsInBatches(entriesToLoad);
+        if (!cancelled) {
+          setDetailsMap(prev => new Map([...prev, ...details]));
+        }
+      } finally {
+        if (!cancelled) setIsSearchingChanges(false);
+      }
+    };
+    loadPageDetails();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [entries, searchText]);
+
+  // Hide entries whose loaded change values don't contain the search text
+  const visibleEntries = useMemo(() => {
+    if (!searchText) return entries;
+    return entries.filter(entry => {
+      const details = detailsMap.get(entry.id) || getCachedDetails(entry.id);
+      return !details || matchesSearchText(details, searchText);
+    });
+  }, [entries, detailsMap, searchText]);
+
   // Load details for a specific entry
   const loadDetails = useCallback(async (entryId: string, entityLogicalName?: string) => {
     console.log('[AuditLogs] loadDetails called for:', entryId, 'entity:', entityLogicalName);
@@ -279,16 +424,24 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
   }, [loadDetails]);
 
   return {
-    entries: sortedEntries,
+    entries: visibleEntries,
     detailsMap,
     isLoading,
     isLoadingDetails,
+    isSearchingChanges,
     pagination,
     setPage,
     setPageSize,
+    restorePage,
+    jumpToDate,
+    canGoBack,
+    canGoForward,
+    goBack,
+    goForward,
     canNavigateToPage,
     sort,
     setSort,
+    setSortState,
     filters,
     setTables,
     setRecord,
@@ -297,10 +450,20 @@ export function useAuditLogs(isConnected: boolean = false): UseAuditLogsResult {
     setActions,
     setFromDate,
     setToDate,
+    setRelativeDate,
     setUsers,
+    setBusinessUnits,
+    setTeams,
+    setUserRoles,
     setSecurityRoles,
+    setSearchText,
+    setExcludedTables,
+    setExcludedOperations,
+    setExcludedActions,
+    setExcludedUsers,
+    setFilters,
     clearFilters,
-    refresh: fetchAuditLogs,
+    refresh,
     loadDetails,
     toggleExpanded,
     error,
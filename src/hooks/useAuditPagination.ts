@@ -1,5 +1,27 @@
 import { useState, useCallback, useRef } from 'react';
-import { PaginationState, initialPaginationState } from '../model/auditLog';
+import { AuditDetail, AuditLogEntry, PaginationState, initialPaginationState } from '../model/auditLog';
+
+// Most audit rows kept in the page cache across all filter signatures; least recently used pages go first
+const MAX_CACHED_ENTRIES = 2000;
+
+/**
+ * A fetched page kept for instant backward navigation
+ */
+export interface CachedPage {
+  entries: AuditLogEntry[];
+  totalCount: number;
+  hasMoreRecords: boolean;
+  pagingCookie?: string;               // Cookie returned with this page, needed for the next one
+  details?: Map<string, AuditDetail[]>; // Details returned with record history pages
+}
+
+// Dates jumped to, latest jump last; undefined is the unanchored start of the results
+interface AnchorHistory {
+  stack: Array<string | undefined>;
+  index: number;
+}
+
+const initialAnchorHistory: AnchorHistory = { stack: [undefined], index: 0 };
 
 export interface UseAuditPaginationResult {
   pagination: PaginationState;
@@ -11,6 +33,15 @@ export interface UseAuditPaginationResult {
   goToNextPage: () => void;
   goToFirstPage: () => void;
   setPageSize: (size: number) => void;
+  restorePage: (page: number, pageSize?: number, anchorDate?: string) => void;
+  getCachedPage: (signature: string, page: number) => CachedPage | undefined;
+  cachePage: (signature: string, page: number, cached: CachedPage) => void;
+  clearPageCache: () => void;
+  jumpToDate: (date: Date | null) => void;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  goBack: () => void;
+  goForward: () => void;
   resetPagination: () => void;
 }
 
@@ -21,6 +52,10 @@ export interface UseAuditPaginationResult {
  * - Uses page number and count attributes in FetchXML
  * - Uses paging cookie for efficient navigation
  * - Paging cookies are cached by page number to enable backward navigation
+ * - Fetched pages are kept in an LRU cache keyed by filter signature and page number, so going back
+ *   or returning to a tab doesn't refetch; refreshing clears it
+ * - "Jump to date" re-anchors the query on createdon (keyset paging) instead of walking pages;
+ *   anchors are kept as a stack so Back/Forward can move between them
  *
  * @see https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/page-results
  */
@@ -35,6 +70,57 @@ export function useAuditPagination(): UseAuditPaginationResult {
   // Page 1 doesn't need a cookie, page 2 needs the cookie from page 1's response, etc.
   const pagingCookieCacheRef = useRef<Map<number, string>>(new Map());
 
+  // Fetched pages by "signature|page"; Map keeps insertion order, so the first key is the least recently used
+  const pageCacheRef = useRef<Map<string, CachedPage>>(new Map());
+
+  const getCachedPage = useCallback((signature: string, page: number): CachedPage | undefined => {
+    const key = `${signature}|${page}`;
+    const cached = pageCacheRef.current.get(key);
+    if (!cached) return undefined;
+
+    // Move to the most recently used end
+    pageCacheRef.current.delete(key);
+    pageCacheRef.current.set(key, cached);
+
+    // Restore the cookie for the following page, as if it had just been fetched
+    pagingCookieRef.current = cached.pagingCookie;
+    if (cached.pagingCookie) {
+      pagingCookieCacheRef.current.set(page + 1, cached.pagingCookie);
+    }
+    return cached;
+  }, []);
+
+  const cachePage = useCallback((signature: string, page: number, cached: CachedPage) => {
+    const cache = pageCacheRef.current;
+    const key = `${signature}|${page}`;
+    cache.delete(key);
+    cache.set(key, cached);
+
+    let total = 0;
+    cache.forEach(p => {
+      total += p.entries.length;
+    });
+    // Evict until under the cap, always keeping the page just stored
+    for (const [oldestKey, oldest] of cache) {
+      if (total <= MAX_CACHED_ENTRIES || oldestKey === key) break;
+      cache.delete(oldestKey);
+      total -= oldest.entries.length;
+    }
+  }, []);
+
+  const clearPageCache = useCallback(() => {
+    pageCacheRef.current.clear();
+  }, []);
+
+  const [anchorHistory, setAnchorHistory] = useState<AnchorHistory>(initialAnchorHistory);
+
+  // Start over from the first page of an anchor
+  const applyAnchor = useCallback((anchorDate: string | undefined) => {
+    pagingCookieRef.current = undefined;
+    pagingCookieCacheRef.current.clear();
+    setPagination(p => ({ ...p, pageNumber: 1, pagingCookie: undefined, anchorDate }));
+  }, []);
+
   /**
    * Go to the next page using the stored paging cookie.
    */
@@ -54,15 +140,16 @@ export function useAuditPagination(): UseAuditPaginationResult {
    * Check if we can navigate to a specific page.
    * Returns true if:
    * - It's page 1 (no cookie needed)
-   * - It's the next page (current + 1, cookie is in pagingCookieRef)
+   * - It's the next page (current + 1, cookie is in pagingCookieRef, or more records exist
+   *   without a cookie, which Dataverse does for some orders such as lookup columns)
    * - We have a cached cookie for that page
    */
   const canNavigateToPage = useCallback((page: number): boolean => {
     if (page === 1) return true;
-    if (page === pagination.pageNumber + 1 && pagingCookieRef.current) return true;
+    if (page === pagination.pageNumber + 1 && (pagingCookieRef.current || pagination.hasMoreRecords)) return true;
     if (pagingCookieCacheRef.current.has(page)) return true;
     return false;
-  }, [pagination.pageNumber]);
+  }, [pagination.pageNumber, pagination.hasMoreRecords]);
 
   /**
    * Navigate to a specific page.
@@ -107,8 +194,53 @@ export function useAuditPagination(): UseAuditPaginationResult {
     setPagination(p => ({ ...p, pageSize: size, pageNumber: 1, pagingCookie: undefined }));
   }, []);
 
+  /**
+   * Jump straight to a page, e.g. from a shared link.
+   * No paging cookie is available, so Dataverse pages by number; cookies are collected again from there.
+   */
+  const restorePage = useCallback((page: number, size?: number, anchorDate?: string) => {
+    pagingCookieRef.current = undefined;
+    pagingCookieCacheRef.current.clear();
+    setAnchorHistory(anchorDate ? { stack: [undefined, anchorDate], index: 1 } : initialAnchorHistory);
+    setPagination(p => ({
+      ...p,
+      pageSize: size ?? p.pageSize,
+      pageNumber: Math.max(1, page),
+      pagingCookie: undefined,
+      anchorDate,
+    }));
+  }, []);
+
+  /**
+   * Show the results from a date onwards (older records when newest first); null returns to the start.
+   * The new anchor replaces any anchors after the current one, like browser history.
+   */
+  const jumpToDate = useCallback((date: Date | null) => {
+    const anchorDate = date ? date.toISOString() : undefined;
+    setAnchorHistory(h => ({ stack: [...h.stack.slice(0, h.index + 1), anchorDate], index: h.index + 1 }));
+    applyAnchor(anchorDate);
+  }, [applyAnchor]);
+
+  const canGoBack = anchorHistory.index > 0;
+  const canGoForward = anchorHistory.index < anchorHistory.stack.length - 1;
+
+  const goBack = useCallback(() => {
+    if (anchorHistory.index === 0) return;
+    const index = anchorHistory.index - 1;
+    setAnchorHistory(h => ({ ...h, index }));
+    applyAnchor(anchorHistory.stack[index]);
+  }, [anchorHistory, applyAnchor]);
+
+  const goForward = useCallback(() => {
+    if (anchorHistory.index >= anchorHistory.stack.length - 1) return;
+    const index = anchorHistory.index + 1;
+    setAnchorHistory(h => ({ ...h, index }));
+    applyAnchor(anchorHistory.stack[index]);
+  }, [anchorHistory, applyAnchor]);
+
   const resetPagination = useCallback(() => {
     setPagination(initialPaginationState);
+    setAnchorHistory(initialAnchorHistory);
     pagingCookieRef.current = undefined;
     pagingCookieCacheRef.current.clear();
   }, []);
@@ -123,6 +255,15 @@ export function useAuditPagination(): UseAuditPaginationResult {
     goToNextPage,
     goToFirstPage,
     setPageSize,
+    restorePage,
+    getCachedPage,
+    cachePage,
+    clearPageCache,
+    jumpToDate,
+    canGoBack,
+    canGoForward,
+    goBack,
+    goForward,
     resetPagination,
   };
 }
@@ -1,22 +1,23 @@
-import { useState, useCallback, useMemo } from 'react';
-import { AuditLogEntry, SortState, SortColumn, initialSortState } from '../model/auditLog';
+import { useState, useCallback } from 'react';
+import { SortState, SortColumn, initialSortState } from '../model/auditLog';
 
 export interface UseAuditSortingResult {
   sort: SortState;
   setSort: (column: SortColumn) => void;
-  sortedEntries: AuditLogEntry[];
+  setSortState: (sort: SortState) => void;
 }
 
 /**
  * Hook for managing audit log sorting state
- * @param entries - The entries to sort
+ * Sorting is applied by the FetchXML query, so changing it has to restart paging.
+ * @param onSortChange - Optional callback when the sort changes (for resetting pagination)
  */
-export function useAuditSorting(entries: AuditLogEntry[]): UseAuditSortingResult {
-  const [sort, setSortState] = useState<SortState>(initialSortState);
+export function useAuditSorting(onSortChange?: () => void): UseAuditSortingResult {
+  const [sort, setSortValue] = useState<SortState>(initialSortState);
 
   // Handle column sort - toggles between asc, desc, null
   const setSort = useCallback((column: SortColumn) => {
-    setSortState(prev => {
+    setSortValue(prev => {
       if (prev.column === column) {
         // Cycle: desc -> asc -> null -> desc
         if (prev.direction === 'desc') {
@@ -30,40 +31,18 @@ export function useAuditSorting(entries: AuditLogEntry[]): UseAuditSortingResult
       // New column - start with desc
       return { column, direction: 'desc' };
     });
-  }, []);
+    onSortChange?.();
+  }, [onSortChange]);
 
-  // Sort entries client-side based on sort state
-  const sortedEntries = useMemo(() => {
-    if (!sort.column || !sort.direction) {
-      return entries;
-    }
-
-    return [...entries].sort((a, b) => {
-      let comparison = 0;
-      switch (sort.column) {
-        case 'createdOn':
-          comparison = new Date(a.createdOn).getTime() - new Date(b.createdOn).getTime();
-          break;
-        case 'operation':
-          comparison = a.operation - b.operation;
-          break;
-        case 'action':
-          comparison = a.action - b.action;
-          break;
-        case 'objectName':
-          comparison = (a.objectName || '').localeCompare(b.objectName || '');
-          break;
-        case 'userName':
-          comparison = (a.userName || '').localeCompare(b.userName || '');
-          break;
-      }
-      return sort.direction === 'asc' ? comparison : -comparison;
-    });
-  }, [entries, sort.column, sort.direction]);
+  // Replace the sort, e.g. when a saved view is restored
+  const setSortState = useCallback((next: SortState) => {
+    setSortValue(next);
+    onSortChange?.();
+  }, [onSortChange]);
 
   return {
     sort,
     setSort,
-    sortedEntries,
+    setSortState,
   };
 }
@@ -0,0 +1,218 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type {
+  AttributeAuditInfo,
+  AuditConfigChange,
+  AuditSettingsSide,
+  BulkOperationResult,
+  ChangeSetProgress,
+  ComparisonMode,
+  TableAuditInfo,
+} from '../model/audit';
+import {
+  getSideAttributes,
+  loadBaselineSide,
+  loadConnectionSide,
+  toComparisonValues,
+} from '../services/comparisonService';
+import { importAuditBaseline } from '../services/baselineService';
+import { applyAuditChanges } from '../services/changeSetService';
+
+function matchesSearch(item: TableAuditInfo | AttributeAuditInfo, searchTerm: string): boolean {
+  const term = searchTerm.toLowerCase();
+  return term === '' ||
+    item.displayName.toLowerCase().includes(term) ||
+    item.logicalName.toLowerCase().includes(term);
+}
+
+export function useEnvironmentComparison() {
+  const [mode, setMode] = useState<ComparisonMode>('secondary');
+  const [source, setSource] = useState<AuditSettingsSide | null>(null);
+  const [target, setTarget] = useState<AuditSettingsSide | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [activeTable, setActiveTable] = useState<TableAuditInfo | null>(null);
+  const [sourceAttributes, setSourceAttributes] = useState<AttributeAuditInfo[]>([]);
+  const [targetAttributes, setTargetAttributes] = useState<AttributeAuditInfo[]>([]);
+  const [isLoadingAttributes, setIsLoadingAttributes] = useState(false);
+  const [isAligning, setIsAligning] = useState(false);
+  const [progress, setProgress] = useState<ChangeSetProgress | null>(null);
+
+  // Load both sides; in baseline mode the user picks the baseline file first
+  const compare = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setActiveTable(null);
+    setSelectedIds(new Set());
+
+    try {
+      if (mode === 'secondary') {
+        const [primarySide, secondarySide] = await Promise.all([
+          loadConnectionSide('primary'),
+          loadConnectionSide('secondary'),
+        ]);
+        setSource(primarySide);
+        setTarget(secondarySide);
+      } else {
+        const baseline = await importAuditBaseline();
+        if (!baseline) return;
+        setSource(loadBaselineSide(baseline));
+        setTarget(await loadConnectionSide('primary'));
+      }
+    } catch (err) {
+      setError((err as Error).message);
+      setSource(null);
+      setTarget(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [mode]);
+
+  // Load the columns of the active table from both sides
+  useEffect(() => {
+    if (!activeTable || !source || !target) {
+      setSourceAttributes([]);
+      setTargetAttributes([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingAttributes(true);
+
+    Promise.all([
+      getSideAttributes(source, activeTable.logicalName),
+      getSideAttributes(target, activeTable.logicalName).catch(() => [] as AttributeAuditInfo[]),
+    ])
+      .then(([sourceResult, targetResult]) => {
+        if (cancelled) return;
+        setSourceAttributes(sourceResult);
+        setTargetAttributes(targetResult);
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingAttributes(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTable, source, target]);
+
+  const targetTableValues = useMemo(
+    () => toComparisonValues(target?.tables || []),
+    [target]
+  );
+
+  const targetAttributeValues = useMemo(
+    () => toComparisonValues(targetAttributes),
+    [targetAttributes]
+  );
+
+  const filteredTables = useMemo(() => {
+    return (source?.tables || []).filter(table =>
+      matchesSearch(table, searchTerm) &&
+      (!onlyDifferences || targetTableValues.get(table.logicalName) !== table.isAuditEnabled)
+    );
+  }, [source, searchTerm, onlyDifferences, targetTableValues]);
+
+  const filteredAttributes = useMemo(() => {
+    return sourceAttributes.filter(attr =>
+      !onlyDifferences || targetAttributeValues.get(attr.logicalName) !== attr.isAuditEnabled
+    );
+  }, [sourceAttributes, onlyDifferences, targetAttributeValues]);
+
+  // Tables on both sides whose audit flag differs; tables missing on the target are counted separately
+  const differenceCount = useMemo(() => {
+    return (source?.tables || []).filter(t => {
+      const targetValue = targetTableValues.get(t.logicalName);
+      return targetValue !== undefined && targetValue !== t.isAuditEnabled;
+    }).length;
+  }, [source, targetTableValues]);
+
+  // Tables that only exist on the source
+  const sourceOnlyCount = useMemo(() => {
+    return (source?.tables || []).filter(t => !targetTableValues.has(t.logicalName)).length;
+  }, [source, targetTableValues]);
+
+  // Tables that only exist on the target
+  const targetOnlyCount = useMemo(() => {
+    if (!source || !target) return 0;
+    const sourceNames = new Set(source.tables.map(t => t.logicalName));
+    return target.tables.filter(t => !sourceNames.has(t.logicalName)).length;
+  }, [source, target]);
+
+  const selectedTables = useMemo(() => {
+    return (source?.tables || []).filter(t => selectedIds.has(t.metadataId));
+  }, [source, selectedIds]);
+
+  const toggleSelection = useCallback((metadataId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(metadataId)) {
+        next.delete(metadataId);
+      } else {
+        next.add(metadataId);
+      }
+      return next;
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+  }, []);
+
+  const toggleActiveTable = useCallback((table: TableAuditInfo) => {
+    setActiveTable(prev => prev?.metadataId === table.metadataId ? null : table);
+  }, []);
+
+  // Write alignment changes to the secondary connection, then reload both sides
+  const alignSecondary = useCallback(async (changes: AuditConfigChange[]): Promise<BulkOperationResult> => {
+    setIsAligning(true);
+    setProgress({ completed: 0, total: changes.length });
+    try {
+      const { result } = await applyAuditChanges(changes, undefined, setProgress, 'secondary');
+      return result;
+    } finally {
+      setIsAligning(false);
+      setProgress(null);
+      await compare();
+    }
+  }, [compare]);
+
+  return {
+    mode,
+    setMode,
+    source,
+    target,
+    isLoading,
+    error,
+    searchTerm,
+    setSearchTerm,
+    onlyDifferences,
+    setOnlyDifferences,
+    filteredTables,
+    differenceCount,
+    sourceOnlyCount,
+    targetOnlyCount,
+    targetTableValues,
+    selectedIds,
+    selectedTables,
+    toggleSelection,
+    clearSelection,
+    activeTable,
+    toggleActiveTable,
+    sourceAttributes,
+    targetAttributes,
+    filteredAttributes,
+    targetAttributeValues,
+    isLoadingAttributes,
+    isAligning,
+    progress,
+    compare,
+    alignSecondary,
+  };
+}
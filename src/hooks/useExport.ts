@@ -1,19 +1,61 @@
-import { useState, useCallback } from 'react';
-import { AuditDetail, AuditFiltersState } from '../model/auditLog';
-import { ExportFormat, ExportResult, AuditTabType } from '../model/export';
-import { exportAuditLogs } from '../services/exportService';
-import { getAuditDetails, queryAllAuditLogs } from '../services/auditLogService';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AuditDetail, AuditFiltersState, AuditLogEntry } from '../model/auditLog';
+import {
+  EvidenceReportInfo,
+  ExportCheckpoint,
+  ExportFormat,
+  ExportResult,
+  ExportSheetData,
+  AuditTabType,
+  multiSheetTabs,
+  StreamExportFormat,
+  StreamExportProgress,
+} from '../model/export';
+import { exportAuditLogs, streamAuditExport } from '../services/exportService';
+import { loadAuditDetails, queryAllAuditLogs } from '../services/auditLogService';
+import { getCurrentUserName } from '../services/principalService';
+import {
+  clearExportCheckpoint,
+  getCheckpointFilters,
+  getExportCheckpoint,
+} from '../services/exportCheckpointService';
+import { auditTabFilters, EXCLUDED_FROM_DETAILS } from '../utils/constants';
+import { formatDuration } from '../utils/formatters';
 
-// Maximum records when including details (due to additional API calls)
+// Maximum records when including details (due to additional API calls); streamed exports have no limit
 const MAX_RECORDS_WITH_DETAILS = 5000;
 
+// CSV and NDJSON are written to disk page by page instead of being built in memory
+const STREAMED_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+// Describe streamed export progress, with the time left once the total is known
+// The rate only counts records fetched since startedAt, as a resumed export starts with earlier records
+function describeStreamProgress(progress: StreamExportProgress, startedAt: number, recordsAtStart: number): string {
+  const { recordsFetched, totalCount, isTotalCountExact, rowsWritten } = progress;
+  const rows = `${rowsWritten.toLocaleString()} rows`;
+  if (!isTotalCountExact) {
+    return `Exported ${recordsFetched.toLocaleString()} records (${rows})...`;
+  }
+
+  const elapsedSeconds = (Date.now() - startedAt) / 1000;
+  const fetchedSinceStart = recordsFetched - recordsAtStart;
+  const remainingSeconds = (elapsedSeconds / fetchedSinceStart) * (totalCount - recordsFetched);
+  const eta = fetchedSinceStart > 0 && recordsFetched < totalCount ? `, about ${formatDuration(remainingSeconds)} left` : '';
+  return `Exported ${recordsFetched.toLocaleString()} of ${totalCount.toLocaleString()} records (${rows}${eta})...`;
+}
+
 interface UseExportResult {
   isExporting: boolean;
   exportProgress: string | null;
   error: string | null;
   lastExport: ExportResult | null;
+  canCancel: boolean;
+  cancelExport: () => void;
+  resumableExport: ExportCheckpoint | null;
+  resumeExport: () => Promise<ExportResult>;
+  discardResumableExport: () => Promise<void>;
   exportToCSV: (includeDetails?: boolean) => Promise<ExportResult>;
-  exportData: (format: ExportFormat, includeDetails?: boolean) => Promise<ExportResult>;
+  exportData: (format: ExportFormat, includeDetails?: boolean, multiSheet?: boolean) => Promise<ExportResult>;
 }
 
 /**
@@ -33,93 +75,233 @@ export function useExport(
   const [exportProgress, setExportProgress] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [lastExport, setLastExport] = useState<ExportResult | null>(null);
+  const [canCancel, setCanCancel] = useState(false);
+  const [resumableExport, setResumableExport] = useState<ExportCheckpoint | null>(null);
 
-  const exportData = useCallback(async (
-    format: ExportFormat,
-    includeDetails: boolean = true
+  // An export left unfinished (also by an earlier session) can be resumed
+  useEffect(() => {
+    let cancelled = false;
+    getExportCheckpoint().then(checkpoint => {
+      if (!cancelled) setResumableExport(checkpoint);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Aborts the running streamed export
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const cancelExport = useCallback(() => {
+    abortControllerRef.current?.abort();
+    setExportProgress('Cancelling...');
+  }, []);
+
+  // Stream all matching records to disk page by page, or continue an unfinished export
+  const streamExport = useCallback(async (
+    format: StreamExportFormat,
+    includeDetails: boolean,
+    resumeFrom?: ExportCheckpoint
   ): Promise<ExportResult> => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setCanCancel(true);
+    const startedAt = Date.now();
+    const recordsAtStart = resumeFrom?.recordsFetched ?? 0;
+
+    try {
+      // Resumed exports keep the filters and tab they were started with
+      return await streamAuditExport(
+        resumeFrom ? getCheckpointFilters(resumeFrom) : filters,
+        format,
+        includeDetails,
+        resumeFrom ? resumeFrom.tabType : tabType,
+        progress => {
+          if (!controller.signal.aborted) {
+            setExportProgress(describeStreamProgress(progress, startedAt, recordsAtStart));
+          }
+        },
+        controller.signal,
+        resumeFrom
+      );
+    } finally {
+      abortControllerRef.current = null;
+      setCanCancel(false);
+      setResumableExport(await getExportCheckpoint());
+    }
+  }, [filters, tabType]);
+
+  const resumeExport = useCallback(async (): Promise<ExportResult> => {
+    if (!resumableExport) {
+      return { success: false, error: 'No export to resume' };
+    }
+
     setIsExporting(true);
     setError(null);
-    setExportProgress('Fetching records...');
+    setExportProgress(`Resuming after ${resumableExport.rowsWritten.toLocaleString()} rows...`);
 
     try {
-      // Determine max records based on whether we're including details
-      // Details require additional API calls, so we cap at 5000
-      const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
-      const maxRecords = shouldIncludeDetails ? MAX_RECORDS_WITH_DETAILS : 0;
+      const result = await streamExport(resumableExport.format, resumableExport.includeDetails, resumableExport);
+      setLastExport(result);
+      if (!result.success) {
+        setError(result.error || 'Export failed');
+      }
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Export failed';
+      const result = { success: false, error: message };
+      setError(message);
+      setLastExport(result);
+      return result;
+    } finally {
+      setIsExporting(false);
+      setExportProgress(null);
+    }
+  }, [resumableExport, streamExport]);
 
-      console.log('[Export] Starting export, includeDetails:', shouldIncludeDetails, 'maxRecords:', maxRecords);
+  const discardResumableExport = useCallback(async () => {
+    await clearExportCheckpoint();
+    setResumableExport(null);
+  }, []);
 
-      // Fetch ALL records matching the current filters
-      const { entries } = await queryAllAuditLogs(
-        filters,
-        maxRecords,
-        (fetched, total) => {
-          const limitInfo = maxRecords > 0 ? ` (max ${maxRecords})` : '';
-          setExportProgress(`Fetching records: ${fetched} of ${total}${limitInfo}...`);
-        }
-      );
+  // Load change details for entries that don't have them yet
+  // A failed load fails the export instead of writing entries without their changes
+  const loadExportDetails = useCallback(async (
+    entries: AuditLogEntry[],
+    exportDetailsMap: Map<string, AuditDetail[]>
+  ): Promise<void> => {
+    // Find entries that don't have details loaded yet
+    const entriesToLoad = entries.filter(entry => !exportDetailsMap.has(entry.id));
+    if (entriesToLoad.length === 0) return;
 
-      if (entries.length === 0) {
-        const result = { success: false, error: 'No data to export' };
-        setLastExport(result);
-        return result;
-      }
+    setExportProgress(`Loading change details: 0 of ${entriesToLoad.length}...`);
 
-      console.log('[Export] Fetched', entries.length, 'entries for export');
+    // Process in batches to avoid overwhelming the API
+    const batchSize = 50;
+    let loadedCount = 0;
 
-      // If including details, load details for all entries
-      let exportDetailsMap = new Map(detailsMap);
+    for (let i = 0; i < entriesToLoad.length; i += batchSize) {
+      const batch = entriesToLoad.slice(i, i + batchSize);
 
-      if (shouldIncludeDetails) {
-        // Find entries that don't have details loaded yet
-        const entriesToLoad = entries.filter(entry => !exportDetailsMap.has(entry.id));
+      // Create promises for this batch
+      const detailsPromises = batch.map(async (entry) => {
+        try {
+          const details = await loadAuditDetails(entry.id, entry.objectTypeCode, entry);
+          return { entryId: entry.id, details };
+        } catch (err) {
+          console.warn(`[Export] Failed to load details for ${entry.id}:`, err);
+          const message = err instanceof Error ? err.message : String(err);
+          throw new Error(`Failed to load the changes of audit record ${entry.id}: ${message}`);
+        }
+      });
 
-        if (entriesToLoad.length > 0) {
-          setExportProgress(`Loading change details: 0 of ${entriesToLoad.length}...`);
-          console.log(`[Export] Loading details for ${entriesToLoad.length} entries...`);
+      // Use toolbox executeParallel to run batch requests concurrently
+      const results = await window.toolboxAPI.utils.executeParallel(...detailsPromises);
 
-          // Process in batches to avoid overwhelming the API
-          const batchSize = 50;
-          let loadedCount = 0;
+      // Add results to the map
+      for (const { entryId, details } of results) {
+        exportDetailsMap.set(entryId, details);
+      }
+
+      loadedCount += batch.length;
+      setExportProgress(`Loading change details: ${loadedCount} of ${entriesToLoad.length}...`);
+    }
+  }, []);
+
+  const exportData = useCallback(async (
+    format: ExportFormat,
+    includeDetails: boolean = true,
+    multiSheet: boolean = false
+  ): Promise<ExportResult> => {
+    setIsExporting(true);
+    setError(null);
+    setExportProgress('Fetching records...');
 
-          for (let i = 0; i < entriesToLoad.length; i += batchSize) {
-            const batch = entriesToLoad.slice(i, i + batchSize);
+    try {
+      if (STREAMED_FORMATS.includes(format)) {
+        const result = await streamExport(format as StreamExportFormat, includeDetails);
+        setLastExport(result);
+        if (!result.success) {
+          setError(result.error || 'Export failed');
+        }
+        return result;
+      }
 
-            // Create promises for this batch
-            const detailsPromises = batch.map(async (entry) => {
-              try {
-                const details = await getAuditDetails(entry.id, entry.objectTypeCode, entry);
-                return { entryId: entry.id, details };
-              } catch (err) {
-                console.warn(`[Export] Failed to load details for ${entry.id}:`, err);
-                return { entryId: entry.id, details: [] };
-              }
-            });
+      // Multi-sheet workbooks export every category; a single export uses the current tab
+      const isMultiSheet = format === 'xlsx' && multiSheet;
+      const sheetTabs = isMultiSheet ? multiSheetTabs : [tabType];
+      const exportDetailsMap = new Map(detailsMap);
+      const sheets: ExportSheetData[] = [];
 
-            // Use toolbox executeParallel to run batch requests concurrently
-            const results = await window.toolboxAPI.utils.executeParallel(...detailsPromises);
+      for (const sheetTab of sheetTabs) {
+        // Determine max records based on whether we're including details
+        // Details require additional API calls, so we cap at 5000
+        const shouldIncludeDetails = sheetTab === 'access' ? false : includeDetails;
+        const maxRecords = shouldIncludeDetails ? MAX_RECORDS_WITH_DETAILS : 0;
+        const label = isMultiSheet ? `${sheetTab}: ` : '';
 
-            // Add results to the map
-            for (const { entryId, details } of results) {
-              exportDetailsMap.set(entryId, details);
-            }
+        // Other categories use their own operations and actions with the rest of the current filters
+        const sheetFilters: AuditFiltersState = sheetTab === tabType
+          ? filters
+          : { ...filters, ...auditTabFilters[sheetTab], excludedOperations: [], excludedActions: [] };
 
-            loadedCount += batch.length;
-            setExportProgress(`Loading change details: ${loadedCount} of ${entriesToLoad.length}...`);
+        // Fetch ALL records matching the filters
+        const { entries } = await queryAllAuditLogs(
+          sheetFilters,
+          maxRecords,
+          (fetched, total) => {
+            const limitInfo = maxRecords > 0 ? ` (max ${maxRecords})` : '';
+            setExportProgress(`${label}Fetching records: ${fetched} of ${total}${limitInfo}...`);
           }
+        );
 
-          console.log(`[Export] Details loaded for ${entriesToLoad.length} entries`);
+        // The data changes tab leaves out actions shown on the other tabs
+        const sheetEntries = isMultiSheet && sheetTab === 'details'
+          ? entries.filter(e => !EXCLUDED_FROM_DETAILS.includes(e.action))
+          : entries;
+
+        // If including details, load details for all entries
+        if (shouldIncludeDetails) {
+          await loadExportDetails(sheetEntries, exportDetailsMap);
         }
+
+        sheets.push({ tabType: sheetTab, entries: sheetEntries });
       }
 
-      setExportProgress('Generating CSV...');
+      if (sheets.every(sheet => sheet.entries.length === 0)) {
+        const result = { success: false, error: 'No data to export' };
+        setLastExport(result);
+        return result;
+      }
 
-      const result = await exportAuditLogs(entries, exportDetailsMap, {
+      // The evidence report's cover page names the environment and who generated it
+      let reportInfo: EvidenceReportInfo | undefined;
+      if (format === 'html') {
+        setExportProgress('Generating evidence report...');
+        const [connection, generatedBy] = await Promise.all([
+          window.toolboxAPI.connections.getActiveConnection(),
+          getCurrentUserName().catch(err => {
+            console.warn('[Export] Failed to look up the current user:', err);
+            return undefined;
+          }),
+        ]);
+        reportInfo = {
+          environmentName: connection ? `${connection.name} (${connection.environment})` : undefined,
+          environmentUrl: connection?.url,
+          generatedBy,
+        };
+      } else {
+        setExportProgress(format === 'xlsx' ? 'Generating workbook...' : `Generating ${format.toUpperCase()}...`);
+      }
+
+      const result = await exportAuditLogs(sheets[0].entries, exportDetailsMap, {
         format,
-        includeDetails: shouldIncludeDetails,
+        includeDetails: isMultiSheet || tabType !== 'access' ? includeDetails : false,
         tabType,
-      });
+        multiSheet: isMultiSheet,
+        filters,
+        reportInfo,
+      }, sheets);
 
       setLastExport(result);
 
@@ -138,7 +320,7 @@ export function useExport(
       setIsExporting(false);
       setExportProgress(null);
     }
-  }, [filters, detailsMap, tabType]);
+  }, [filters, detailsMap, tabType, loadExportDetails, streamExport]);
 
   const exportToCSV = useCallback(
     (includeDetails: boolean = true) => exportData('csv', includeDetails),
@@ -150,6 +332,11 @@ export function useExport(
     exportProgress,
     error,
     lastExport,
+    canCancel,
+    cancelExport,
+    resumableExport,
+    resumeExport,
+    discardResumableExport,
     exportToCSV,
     exportData,
   };
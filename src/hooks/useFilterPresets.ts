@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { AuditFilterPreset, AuditFiltersState, SortState } from '../model/auditLog';
+import type { AuditTabType } from '../model/export';
+import {
+  createFilterPreset,
+  duplicateFilterPreset,
+  getFilterPresets,
+  saveFilterPresets,
+} from '../services/filterPresetService';
+
+export interface UseFilterPresetsResult {
+  presets: AuditFilterPreset[];
+  isLoading: boolean;
+  savePreset: (
+    name: string,
+    tab: AuditTabType,
+    filters: AuditFiltersState,
+    sort: SortState,
+    keepRelative: boolean
+  ) => Promise<boolean>;
+  renamePreset: (id: string, name: string) => Promise<boolean>;
+  duplicatePreset: (id: string) => Promise<boolean>;
+  deletePreset: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Hook for the saved filter presets of the audit log explorer
+ */
+export function useFilterPresets(): UseFilterPresetsResult {
+  const [presets, setPresets] = useState<AuditFilterPreset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getFilterPresets().then(stored => {
+      if (!cancelled) {
+        setPresets(stored);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist the new list, keeping the current one if the settings cannot be written
+  const persist = useCallback(async (next: AuditFilterPreset[], failureMessage: string): Promise<boolean> => {
+    try {
+      await saveFilterPresets(next);
+      setPresets([...next].sort((a, b) => a.name.localeCompare(b.name)));
+      return true;
+    } catch (err) {
+      console.error('[useFilterPresets] Error saving filter presets:', err);
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Filter Presets',
+        body: `${failureMessage}: ${(err as Error).message}`,
+        type: 'error',
+        duration: 5000,
+      });
+      return false;
+    }
+  }, []);
+
+  const savePreset = useCallback(async (
+    name: string,
+    tab: AuditTabType,
+    filters: AuditFiltersState,
+    sort: SortState,
+    keepRelative: boolean
+  ): Promise<boolean> => {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+
+    // Saving under an existing name replaces that preset
+    const preset = createFilterPreset(trimmed, tab, filters, sort, keepRelative);
+    const next = [...presets.filter(p => p.name !== trimmed), preset];
+    const saved = await persist(next, 'Failed to save the preset');
+    if (saved) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Preset Saved',
+        body: `Saved filter preset "${trimmed}"`,
+        type: 'success',
+        duration: 3000,
+      });
+    }
+    return saved;
+  }, [presets, persist]);
+
+  const renamePreset = useCallback(async (id: string, name: string): Promise<boolean> => {
+    const trimmed = name.trim();
+    if (!trimmed) return false;
+
+    if (presets.some(p => p.id !== id && p.name === trimmed)) {
+      await window.toolboxAPI.utils.showNotification({
+        title: 'Filter Presets',
+        body: `A preset named "${trimmed}" already exists`,
+        type: 'warning',
+        duration: 3000,
+      });
+      return false;
+    }
+
+    return persist(
+      presets.map(p => (p.id === id ? { ...p, name: trimmed } : p)),
+      'Failed to rename the preset'
+    );
+  }, [presets, persist]);
+
+  const duplicatePreset = useCallback(async (id: string): Promise<boolean> => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return false;
+
+    return persist([...presets, duplicateFilterPreset(preset, presets)], 'Failed to duplicate the preset');
+  }, [presets, persist]);
+
+  const deletePreset = useCallback(async (id: string): Promise<boolean> => {
+    return persist(presets.filter(p => p.id !== id), 'Failed to delete the preset');
+  }, [presets, persist]);
+
+  return {
+    presets,
+    isLoading,
+    savePreset,
+    renamePreset,
+    duplicatePreset,
+    deletePreset,
+  };
+}
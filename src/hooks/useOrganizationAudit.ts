@@ -2,22 +2,31 @@ import { useState, useCallback, useEffect } from 'react';
 import type { OrganizationAuditSettings } from '../model/audit';
 import {
   getOrganizationAuditSettings,
-  updateOrganizationAuditEnabled,
-  updateOrganizationUserAccessAuditEnabled,
+  updateOrganizationAuditRetentionPeriod,
 } from '../services/auditService';
+import { getOldestAuditDate } from '../services/auditLogService';
 
 export function useOrganizationAudit() {
   const [settings, setSettings] = useState<OrganizationAuditSettings | null>(null);
+  const [oldestAuditDate, setOldestAuditDate] = useState<Date | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isUpdating, setIsUpdating] = useState(false);
+  const [isUpdatingRetention, setIsUpdatingRetention] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const fetchSettings = useCallback(async () => {
     setIsLoading(true);
     setError(null);
     try {
-      const result = await getOrganizationAuditSettings();
+      const [result, oldest] = await Promise.all([
+        getOrganizationAuditSettings(),
+        // The purge projection is informational, so a failed lookup should not hide the settings
+        getOldestAuditDate().catch(err => {
+          console.warn('[useOrganizationAudit] Could not read the oldest audit record:', err);
+          return null;
+        }),
+      ]);
       setSettings(result);
+      setOldestAuditDate(oldest);
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -25,59 +34,30 @@ export function useOrganizationAudit() {
     }
   }, []);
 
-  const toggleAuditEnabled = useCallback(async (isEnabled: boolean) => {
-    if (!settings) return;
+  const updateRetentionPeriod = useCallback(async (days: number): Promise<boolean> => {
+    if (!settings) return false;
 
-    setIsUpdating(true);
-    setError(null);
-    try {
-      await updateOrganizationAuditEnabled(settings.organizationId, isEnabled);
-      setSettings(prev => prev ? { ...prev, isAuditEnabled: isEnabled } : null);
-      await window.toolboxAPI.utils.showNotification({
-        title: 'Audit Settings Updated',
-        body: `Global auditing has been ${isEnabled ? 'enabled' : 'disabled'}`,
-        type: 'success',
-        duration: 3000,
-      });
-    } catch (err) {
-      const errorMessage = (err as Error).message || String(err);
-      setError(errorMessage);
-      await window.toolboxAPI.utils.showNotification({
-        title: 'Update Failed',
-        body: errorMessage,
-        type: 'error',
-        duration: 5000,
-      });
-    } finally {
-      setIsUpdating(false);
-    }
-  }, [settings]);
-
-  const toggleUserAccessAuditEnabled = useCallback(async (isEnabled: boolean) => {
-    if (!settings) return;
-
-    setIsUpdating(true);
-    setError(null);
+    setIsUpdatingRetention(true);
     try {
-      await updateOrganizationUserAccessAuditEnabled(settings.organizationId, isEnabled);
-      setSettings(prev => prev ? { ...prev, isUserAccessAuditEnabled: isEnabled } : null);
+      await updateOrganizationAuditRetentionPeriod(settings.organizationId, days);
+      setSettings(prev => prev ? { ...prev, auditRetentionPeriodV2: days } : prev);
       await window.toolboxAPI.utils.showNotification({
-        title: 'Audit Settings Updated',
-        body: `User access auditing has been ${isEnabled ? 'enabled' : 'disabled'}`,
+        title: 'Retention Updated',
+        body: 'The audit retention period was saved',
         type: 'success',
         duration: 3000,
       });
+      return true;
     } catch (err) {
-      const errorMessage = (err as Error).message || String(err);
-      setError(errorMessage);
       await window.toolboxAPI.utils.showNotification({
         title: 'Update Failed',
-        body: errorMessage,
+        body: `Failed to update the retention period: ${(err as Error).message}`,
         type: 'error',
         duration: 5000,
       });
+      return false;
     } finally {
-      setIsUpdating(false);
+      setIsUpdatingRetention(false);
     }
   }, [settings]);
 
@@ -87,11 +67,11 @@ export function useOrganizationAudit() {
 
   return {
     settings,
+    oldestAuditDate,
     isLoading,
-    isUpdating,
+    isUpdatingRetention,
     error,
-    toggleAuditEnabled,
-    toggleUserAccessAuditEnabled,
     refresh: fetchSettings,
+    updateRetentionPeriod,
   };
 }
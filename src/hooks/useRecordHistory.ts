@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AuditLogEntry, AttributeHistory } from '../model/auditLog';
+import { retrieveRecordChangeHistory } from '../services/auditLogService';
+import { buildAttributeHistory } from '../utils/auditHelpers';
+
+// Page size for record history requests
+const HISTORY_PAGE_SIZE = 50;
+
+interface UseRecordHistoryResult {
+  // Entries in chronological order (oldest first)
+  entries: AuditLogEntry[];
+  attributeHistory: AttributeHistory[];
+  totalCount: number;
+  hasMoreRecords: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook to load the full change history of a single record
+ * Follows MoreRecords/PagingCookie from RetrieveRecordChangeHistory to load older pages
+ * @param entityLogicalName - Logical name of the record's table
+ * @param recordId - GUID of the record
+ * @param enabled - Whether the history should be loaded (e.g. dialog is open)
+ */
+export function useRecordHistory(
+  entityLogicalName: string | null,
+  recordId: string | null,
+  enabled: boolean = true
+): UseRecordHistoryResult {
+  const [loadedEntries, setLoadedEntries] = useState<AuditLogEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [hasMoreRecords, setHasMoreRecords] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Paging state for the next request (avoids dependency cycles in callbacks)
+  const nextPageRef = useRef(1);
+  const pagingCookieRef = useRef<string | undefined>(undefined);
+
+  const fetchFirstPage = useCallback(async () => {
+    if (!entityLogicalName || !recordId) {
+      setLoadedEntries([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setLoadedEntries([]);
+    nextPageRef.current = 1;
+    pagingCookieRef.current = undefined;
+
+    try {
+      const page = await retrieveRecordChangeHistory(entityLogicalName, recordId, HISTORY_PAGE_SIZE, 1);
+      setLoadedEntries(page.entries);
+      setTotalCount(page.totalCount);
+      setHasMoreRecords(page.hasMoreRecords);
+      nextPageRef.current = 2;
+      pagingCookieRef.current = page.pagingCookie;
+    } catch (err) {
+      console.error('[RecordHistory] Error:', err);
+      const message = err instanceof Error ? err.message : 'Failed to retrieve record history';
+      setError(message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityLogicalName, recordId]);
+
+  const loadMore = useCallback(async () => {
+    if (!entityLogicalName || !recordId || !hasMoreRecords || isLoadingMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    setError(null);
+
+    try {
+      const page = await retrieveRecordChangeHistory(
+        entityLogicalName,
+        recordId,
+        HISTORY_PAGE_SIZE,
+        nextPageRef.current,
+        pagingCookieRef.current
+      );
+      setLoadedEntries(prev => {
+        const seen = new Set(prev.map(e => e.id));
+        return [...prev, ...page.entries.filter(e => !seen.has(e.id))];
+      });
+      setTotalCount(page.totalCount);
+      setHasMoreRecords(page.hasMoreRecords);
+      nextPageRef.current += 1;
+      pagingCookieRef.current = page.pagingCookie;
+    } catch (err) {
+      console.error('[RecordHistory] Error loading more:', err);
+      const message = err instanceof Error ? err.message : 'Failed to retrieve record history';
+      setError(message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [entityLogicalName, recordId, hasMoreRecords, isLoadingMore]);
+
+  useEffect(() => {
+    if (enabled) {
+      fetchFirstPage();
+    }
+  }, [enabled, fetchFirstPage]);
+
+  // The API returns newest first; present the timeline from creation to today
+  const entries = useMemo(() => {
+    return [...loadedEntries].sort((a, b) => a.createdOn.getTime() - b.createdOn.getTime());
+  }, [loadedEntries]);
+
+  const attributeHistory = useMemo(() => buildAttributeHistory(loadedEntries), [loadedEntries]);
+
+  return {
+    entries,
+    attributeHistory,
+    totalCount,
+    hasMoreRecords,
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    refresh: fetchFirstPage,
+  };
+}
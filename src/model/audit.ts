@@ -6,6 +6,12 @@ export interface OrganizationAuditSettings {
   auditRetentionPeriodV2: number | null;
 }
 
+// auditretentionperiodv2 value that keeps audit records forever
+export const AUDIT_RETENTION_FOREVER = -1;
+
+// Largest retention period Dataverse accepts, in days
+export const AUDIT_RETENTION_MAX_DAYS = 365000;
+
 // Table/Entity audit info
 export interface TableAuditInfo {
   metadataId: string;
@@ -30,7 +36,24 @@ export interface AttributeAuditInfo {
 export type TableFilterType = 'all' | 'auditEnabled' | 'auditDisabled' | 'custom' | 'system';
 
 // View/Tab types
-export type AuditView = 'logs' | 'global' | 'tables';
+export type AuditView = 'logs' | 'global' | 'tables' | 'compare';
+
+// Connection that Dataverse calls are sent to (multi-connection tools)
+export type ConnectionTarget = 'primary' | 'secondary';
+
+// Unmanaged solution that metadata changes can be added to
+export interface SolutionOption {
+  solutionId: string;
+  uniqueName: string;
+  friendlyName: string;
+}
+
+// Options for table/attribute metadata writes
+export interface MetadataUpdateOptions {
+  solutionUniqueName?: string;  // Unmanaged solution to add the component to (default solution if empty)
+  onItemComplete?: (logicalName: string, succeeded: boolean) => void;  // Called after each item of a bulk update
+  connectionTarget?: ConnectionTarget;
+}
 
 // Bulk operation result
 export interface BulkOperationResult {
@@ -38,3 +61,110 @@ export interface BulkOperationResult {
   failed: number;
   errors: string[];
 }
+
+// Scope of a staged audit configuration change
+export type AuditChangeScope = 'organization' | 'table' | 'attribute';
+
+// Organization-level audit flags that can be staged
+export type OrganizationAuditSetting = 'isAuditEnabled' | 'isUserAccessAuditEnabled';
+
+// Single staged audit flag change (before/after)
+export interface AuditConfigChange {
+  key: string;  // scope:table:attribute, unique within a change set
+  scope: AuditChangeScope;
+  label: string;
+  before: boolean;
+  after: boolean;
+  organizationId?: string;
+  organizationSetting?: OrganizationAuditSetting;
+  table?: TableAuditInfo;
+  entityLogicalName?: string;
+  attribute?: AttributeAuditInfo;
+}
+
+// Progress of applying a change set
+export interface ChangeSetProgress {
+  completed: number;
+  total: number;
+  current?: string;
+}
+
+// Change set that was applied, kept so it can be rolled back
+export interface AppliedChangeSet {
+  id: string;
+  appliedOn: string;  // ISO date
+  environmentUrl: string;  // Environment the changes were written to; rollbacks only run there
+  environmentName: string;
+  solutionUniqueName?: string;
+  changes: AuditConfigChange[];  // Changes that succeeded
+  result: BulkOperationResult;
+  rolledBackOn?: string;  // ISO date
+}
+
+// Current version of the audit baseline file format
+export const AUDIT_BASELINE_VERSION = 1;
+
+// Table entry of an audit baseline, with its columns
+export interface AuditBaselineTable extends TableAuditInfo {
+  attributes: AttributeAuditInfo[];
+}
+
+// Versioned snapshot of an environment's audit configuration, exchanged as JSON
+export interface AuditBaseline {
+  version: number;
+  createdOn: string;  // ISO date
+  environment?: string;  // Connection the baseline was taken from
+  organization: Omit<OrganizationAuditSettings, 'organizationId'>;
+  tables: AuditBaselineTable[];
+}
+
+// Difference between the current environment and a baseline
+// The change sets the current value (before) to the baseline value (after)
+export interface AuditDriftItem {
+  change: AuditConfigChange;
+  canModify: boolean;
+}
+
+// Result of comparing the current environment with a baseline
+export interface AuditDriftReport {
+  baseline: AuditBaseline;
+  items: AuditDriftItem[];
+  missingTables: string[];  // In the baseline but not in this environment
+  missingAttributes: string[];  // table.column in the baseline but not in this environment
+  failedTables: string[];  // Columns could not be loaded here, so they were not compared
+  retentionPeriod?: {  // Set when the retention period differs; it isn't part of the change set
+    current: number | null;
+    baseline: number | null;
+  };
+}
+
+// How two environments are compared: the source side is aligned onto the target side
+export type ComparisonMode = 'secondary' | 'baseline';
+
+// Audit settings of one side of an environment comparison
+export interface AuditSettingsSide {
+  label: string;
+  connectionTarget?: ConnectionTarget;  // Live connection; unset when read from a baseline file
+  organization: OrganizationAuditSettings;
+  tables: TableAuditInfo[];
+  baseline?: AuditBaseline;  // Columns are read from the baseline instead of a connection
+}
+
+// Number of audit records a deletion would remove
+export interface AuditDeletionEstimate {
+  count: number;
+  isLimitExceeded: boolean;  // Dataverse stops counting at 5,000 records
+}
+
+// Status of the asynchronous job that deletes audit records
+export interface AuditDeletionJob {
+  jobId: string;
+  cutoffDate: string;  // ISO date; records created before it are deleted
+  submittedOn: string;  // ISO date
+  statusCode: number;
+  statusLabel: string;
+  isComplete: boolean;
+  isSucceeded: boolean;
+  message?: string;
+  deletedCount?: number;
+}
@@ -1,3 +1,5 @@
+import type { AuditTabType } from './export';
+
 // Audit Operation types (from Dataverse)
 export enum AuditOperation {
   Create = 1,
@@ -129,6 +131,9 @@ export interface AttributeAuditDetail {
   newValue: string | null;
   oldFormattedValue?: string;
   newFormattedValue?: string;
+  oldRawValue?: unknown;  // Unformatted value as returned by the API (GUID, option value, number)
+  newRawValue?: unknown;
+  oldLookupTarget?: string;  // Target table of the old lookup value
 }
 
 // Share audit detail (for actions 14, 48, 49 - share/modify share/unshare)
@@ -229,6 +234,7 @@ export interface RecordChangeHistoryResponse {
     PagingCookie: string;
     TotalRecordCount: number;
     AuditDetails: Array<{
+      '@odata.type'?: string;
       AuditRecord: AuditRecord;
       OldValue?: Record<string, any>;
       NewValue?: Record<string, any>;
@@ -236,6 +242,108 @@ export interface RecordChangeHistoryResponse {
   };
 }
 
+// Page of record change history with details parsed from the inline values
+export interface RecordChangeHistoryPage {
+  entries: AuditLogEntry[];
+  totalCount: number;
+  hasMoreRecords: boolean;
+  pagingCookie?: string;
+}
+
+// Single value change of an attribute within a record's history
+export interface AttributeValueChange {
+  auditId: string;
+  changedOn: Date;
+  changedBy: string;
+  operation: AuditOperation;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// Value progression of an attribute, oldest change first
+export interface AttributeHistory {
+  attributeName: string;
+  attributeDisplayName: string;
+  changes: AttributeValueChange[];
+}
+
+// Value of a single attribute reconstructed for a point in time
+export interface ReconstructedAttribute {
+  attributeName: string;
+  attributeDisplayName: string;
+  value: string | null;
+  currentValue: string | null;
+  isAuditEnabled: boolean;
+  changedSince: boolean;  // Value differs from the current record
+  hasGap: boolean;  // Audited values don't line up, so changes happened while auditing was off
+  gapReason?: string;
+  lastChangedOn?: Date;  // Last audited change at or before the point in time
+}
+
+// Snapshot of a record at a point in time, replayed backwards from its current state
+export interface RecordSnapshot {
+  entityLogicalName: string;
+  recordId: string;
+  pointInTime: Date;
+  existedAtTime: boolean;
+  isDeleted: boolean;  // Record no longer exists; replay starts from the delete snapshot
+  attributes: ReconstructedAttribute[];
+  replayedChanges: number;
+}
+
+// Field to restore when reverting audited changes
+export interface RevertFieldChange {
+  attributeName: string;
+  attributeDisplayName: string;
+  attributeType: string;
+  liveValue: string | null;  // Value currently on the record
+  expectedValue: string | null;  // Value written by the reverted change(s)
+  restoreValue: string | null;  // Value before the reverted change(s)
+  restoreRawValue: unknown;
+  restoreLookupTarget?: string;
+  hasConflict: boolean;  // Field changed again after the reverted change(s)
+  isAlreadyRestored: boolean;
+}
+
+// Revert plan for a single record (dry run against the live record)
+export interface RevertRecordPlan {
+  entityLogicalName: string;
+  recordId: string;
+  recordName: string;
+  auditIds: string[];
+  fields: RevertFieldChange[];
+  error?: string;  // Record can't be reverted (e.g. deleted)
+}
+
+// Field captured in a Delete audit snapshot
+export interface RecreateField {
+  attributeName: string;
+  attributeDisplayName: string;
+  attributeType: string;
+  value: string | null;
+  rawValue: unknown;
+  lookupTarget?: string;
+  skipReason?: string;  // Set when the field can't be restored
+}
+
+// Plan to recreate a deleted record from its Delete audit snapshot
+export interface RecreateRecordPlan {
+  entityLogicalName: string;
+  recordId: string;
+  recordName: string;
+  fields: RecreateField[];  // Fields written on create
+  skippedFields: RecreateField[];  // Fields that could not be restored
+  error?: string;  // Record can't be recreated (e.g. it still exists)
+}
+
+// Result of recreating a deleted record
+export interface RecreateRecordResult {
+  success: boolean;
+  recordId?: string;
+  keptOriginalId: boolean;
+  error?: string;
+}
+
 // Sort direction
 export type SortDirection = 'asc' | 'desc' | null;
 
@@ -248,18 +356,54 @@ export interface SortState {
   direction: SortDirection;
 }
 
+// FetchXML date operators offered for relative ranges
+// last-x-hours and last-x-days take a count; the others are evaluated by the server as-is
+export type RelativeDateOperator =
+  | 'last-x-hours'
+  | 'last-x-days'
+  | 'today'
+  | 'yesterday'
+  | 'this-week'
+  | 'last-week'
+  | 'this-month'
+  | 'last-month'
+  | 'this-year'
+  | 'last-year'
+  | 'this-fiscal-period'
+  | 'last-fiscal-period'
+  | 'this-fiscal-year'
+  | 'last-fiscal-year';
+
+// Date range that moves with the clock, resolved by the server when the query runs
+export interface RelativeDateRange {
+  operator: RelativeDateOperator;
+  value?: number;  // Hours or days for the last-x operators
+}
+
 // Filter state
 export interface AuditFiltersState {
   tableLogicalNames: string[];
   recordId: string | null;
   recordName: string | null;
   selectedAttributes: string[];
+  selectedAttributeColumns: number[];  // Column numbers of the selected attributes, matched against attributemask
   operations: AuditOperation[];
   actions: AuditAction[];
-  fromDate: Date | null;
-  toDate: Date | null;
+  fromDate: Date | null;  // Inclusive, to the minute
+  toDate: Date | null;    // Inclusive, to the minute
+  relativeDate: RelativeDateRange | null;  // Replaces fromDate/toDate when set
   selectedUsers: Array<{ id: string; name: string }>;
+  // Acting user's business unit, team membership or security role, resolved to user ids when querying
+  selectedBusinessUnits: Array<{ id: string; name: string }>;
+  selectedTeams: Array<{ id: string; name: string }>;
+  selectedUserRoles: Array<{ id: string; name: string }>;
   selectedSecurityRoles: Array<{ id: string; name: string }>;
+  searchText: string;  // Text to find in old or new change values
+  // Exclusions, applied on top of the inclusion filters above
+  excludedTables: string[];
+  excludedOperations: AuditOperation[];
+  excludedActions: AuditAction[];
+  excludedUsers: Array<{ id: string; name: string }>;
 }
 
 // Pagination state
@@ -270,6 +414,7 @@ export interface PaginationState {
   pagingCookie?: string;
   nextLink?: string;
   hasMoreRecords: boolean;
+  anchorDate?: string;  // ISO date the results start from ("jump to date"); paging continues from there
 }
 
 // Initial filter state
@@ -278,12 +423,22 @@ export const initialFiltersState: AuditFiltersState = {
   recordId: null,
   recordName: null,
   selectedAttributes: [],
+  selectedAttributeColumns: [],
   operations: [],
   actions: [],
   fromDate: null,
   toDate: null,
+  relativeDate: null,
   selectedUsers: [],
+  selectedBusinessUnits: [],
+  selectedTeams: [],
+  selectedUserRoles: [],
   selectedSecurityRoles: [],
+  searchText: '',
+  excludedTables: [],
+  excludedOperations: [],
+  excludedActions: [],
+  excludedUsers: [],
 };
 
 // Initial pagination state
@@ -299,3 +454,36 @@ export const initialSortState: SortState = {
   column: 'createdOn',
   direction: 'desc',
 };
+
+// Date range saved in a filter preset
+// A relative range is evaluated by the server whenever the preset is applied
+export type PresetDateRange =
+  | { type: 'absolute'; from: string | null; to: string | null }  // ISO dates
+  | { type: 'relative'; range: RelativeDateRange };
+
+// Named, reusable audit log explorer view
+// The selected record is not saved, so a preset can be reused across records
+export interface AuditFilterPreset {
+  id: string;
+  name: string;
+  tab: AuditTabType;
+  filters: Omit<AuditFiltersState, 'fromDate' | 'toDate' | 'relativeDate' | 'recordId' | 'recordName'>;
+  dateRange: PresetDateRange;
+  sort: SortState;
+  createdOn: string;  // ISO date
+}
+
+// Complete explorer view, restored from a preset or a shared link
+export interface AuditViewState {
+  tab: AuditTabType;
+  filters: AuditFiltersState;
+  sort: SortState;
+  pageNumber?: number;
+  pageSize?: number;
+  anchorDate?: string;
+}
+
+// View shared as a link, optionally pointing at a single audit entry
+export interface AuditViewLink extends AuditViewState {
+  auditId?: string;
+}
@@ -1,7 +1,7 @@
-import { AuditLogEntry, AuditDetail } from './auditLog';
+import { AuditLogEntry, AuditDetail, AuditFiltersState } from './auditLog';
 
 // Export format options
-export type ExportFormat = 'csv';
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'html';
 
 // Audit tab type for export customization
 export type AuditTabType = 'details' | 'shares' | 'access' | 'roles' | 'metadata' | 'relationships' | 'auditchanges';
@@ -13,6 +13,25 @@ export interface ExportOptions {
   includeDetails: boolean;
   selectedColumns?: string[];
   tabType?: AuditTabType;
+  multiSheet?: boolean;         // XLSX only: one sheet per audit category instead of the current tab
+  filters?: AuditFiltersState;  // Listed on the workbook's summary sheet and the report's cover page
+  reportInfo?: EvidenceReportInfo;
+}
+
+// Shown on the cover page of an evidence report
+export interface EvidenceReportInfo {
+  environmentName?: string;
+  environmentUrl?: string;
+  generatedBy?: string;
+}
+
+// Audit categories written as separate sheets in multi-sheet mode
+export const multiSheetTabs: AuditTabType[] = ['details', 'shares', 'roles', 'metadata', 'access'];
+
+// Entries for one sheet of a workbook export
+export interface ExportSheetData {
+  tabType: AuditTabType;
+  entries: AuditLogEntry[];
 }
 
 // Export column definition
@@ -37,9 +56,69 @@ export interface ExportDataRow {
   details?: AuditDetail[];
 }
 
+// Identifies JSON and NDJSON exports; bump the version when the shape of entries changes
+export const EXPORT_SCHEMA = 'auditing-manager/audit-export';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+// Header of a JSON export, and the first line of an NDJSON export
+export interface ExportFileHeader {
+  recordType: 'header';
+  schema: typeof EXPORT_SCHEMA;
+  schemaVersion: number;
+  exportedAt: string;
+  tabType: AuditTabType;
+  includeDetails: boolean;
+  recordCount: number;
+  part?: number;  // Part number when a streamed export is split across files
+  filters?: AuditFiltersState;
+}
+
+// Audit entry as written to JSON and NDJSON exports, with its typed details
+export interface ExportedAuditEntry extends Omit<AuditLogEntry, 'isExpanded' | 'details'> {
+  recordType: 'entry';
+  details?: AuditDetail[];  // Present when details are included
+}
+
+// Whole JSON export; NDJSON writes the header, then one entry per line
+export interface ExportFileJson extends ExportFileHeader {
+  entries: ExportedAuditEntry[];
+}
+
 // Export result
 export interface ExportResult {
   success: boolean;
   filename?: string;
   error?: string;
+  files?: string[];      // Every file written by a streamed export
+  rowsWritten?: number;  // Rows written by a streamed export, including one that was cancelled or failed
+}
+
+// Formats that can be streamed to disk page by page
+export type StreamExportFormat = 'csv' | 'ndjson';
+
+// Saved after each written page of a streamed export, so it can be resumed after a failure, cancel or crash
+export interface ExportCheckpoint {
+  signature: string;         // Filters, format, details and tab of the export
+  format: StreamExportFormat;
+  includeDetails: boolean;
+  tabType: AuditTabType;
+  filters: AuditFiltersState;
+  firstPath: string;         // File picked in the save dialog; further parts are written next to it
+  files: string[];           // Completed part files
+  nextPart: number;          // Part being filled
+  partRows: number;          // Rows already in that part
+  partLength: number;        // Length of that part's content, to cut off a page written after the checkpoint
+  rowsWritten: number;       // Rows in all files, including the part being filled
+  recordsFetched: number;
+  nextPageNumber: number;    // First page not written yet
+  pagingCookie?: string;     // Cookie to fetch that page
+  updatedAt: string;
+}
+
+// Progress of a streamed export
+export interface StreamExportProgress {
+  recordsFetched: number;
+  totalCount: number;
+  isTotalCountExact: boolean;  // Dataverse stops counting at 5000 records
+  rowsWritten: number;
 }
@@ -7,6 +7,7 @@ export interface EntityOption {
   primaryIdAttribute: string;
   primaryNameAttribute: string;
   objectTypeCode: number;
+  entitySetName: string;
 }
 
 // Simplified attribute option for dropdowns
@@ -16,6 +17,10 @@ export interface AttributeOption {
   attributeType: string;
   isAuditEnabled: boolean;
   columnNumber?: number;
+  isValidForCreate?: boolean;
+  isValidForUpdate?: boolean;
+  sourceType?: number;  // 0 = simple, 1 = calculated, 2 = rollup, 3 = formula
+  attributeOf?: string | null;  // Set for columns derived from another column (e.g. lookup names)
 }
 
 // Record search result
@@ -45,6 +50,21 @@ export interface EntityMetadataResponse {
   PrimaryIdAttribute: string;
   PrimaryNameAttribute: string;
   ObjectTypeCode: number;
+  EntitySetName: string;
+}
+
+// Many-to-one relationship of a lookup attribute
+export interface LookupRelationship {
+  referencingAttribute: string;
+  referencedEntity: string;
+  navigationPropertyName: string;
+}
+
+// Many-to-one relationship metadata from API
+export interface ManyToOneRelationshipResponse {
+  ReferencingAttribute: string;
+  ReferencedEntity: string;
+  ReferencingEntityNavigationPropertyName: string;
 }
 
 // Attribute metadata from API
@@ -60,6 +80,10 @@ export interface AttributeMetadataResponse {
     Value: boolean;
   };
   ColumnNumber?: number;
+  IsValidForCreate?: boolean;
+  IsValidForUpdate?: boolean;
+  SourceType?: number | null;
+  AttributeOf?: string | null;
 }
 
 // Helper to convert entity metadata to EntityOption
@@ -72,6 +96,7 @@ export function toEntityOption(metadata: EntityMetadataResponse): EntityOption {
     primaryIdAttribute: metadata.PrimaryIdAttribute,
     primaryNameAttribute: metadata.PrimaryNameAttribute,
     objectTypeCode: metadata.ObjectTypeCode,
+    entitySetName: metadata.EntitySetName,
   };
 }
 
@@ -83,5 +108,9 @@ export function toAttributeOption(metadata: AttributeMetadataResponse): Attribut
     attributeType: metadata.AttributeType,
     isAuditEnabled: metadata.IsAuditEnabled?.Value ?? false,
     columnNumber: metadata.ColumnNumber,
+    isValidForCreate: metadata.IsValidForCreate,
+    isValidForUpdate: metadata.IsValidForUpdate,
+    sourceType: metadata.SourceType ?? undefined,
+    attributeOf: metadata.AttributeOf,
   };
 }
@@ -0,0 +1,133 @@
+/**
+ * Audit log cleanup: deletes audit records older than a cutoff date through a bulk deletion job
+ * @see https://learn.microsoft.com/en-us/power-apps/developer/data-platform/auditing/delete-audit-data
+ */
+
+import type { AuditDeletionJob } from '../model/audit';
+
+// Role template shared by the System Administrator role of every business unit
+const SYSTEM_ADMINISTRATOR_ROLE_TEMPLATE_ID = '627090ff-40a3-4053-8790-584edc5be201';
+
+// asyncoperation statecode once the job has finished
+const ASYNC_OPERATION_COMPLETED = 3;
+
+// asyncoperation statuscode of a job that finished successfully
+const ASYNC_OPERATION_SUCCEEDED = 30;
+
+const asyncOperationStatusLabels: Record<number, string> = {
+  0: 'Waiting for resources',
+  10: 'Waiting',
+  20: 'In progress',
+  21: 'Pausing',
+  22: 'Canceling',
+  30: 'Succeeded',
+  31: 'Failed',
+  32: 'Canceled',
+};
+
+/**
+ * Check whether the signed-in user holds the System Administrator role, directly or through a team
+ * Deleting audit data requires it, so the cleanup panel is only offered to administrators.
+ */
+export async function isCurrentUserSystemAdministrator(): Promise<boolean> {
+  const whoAmI = await window.dataverseAPI.execute({
+    operationName: 'WhoAmI',
+    operationType: 'function',
+  });
+  const userId = whoAmI.UserId as string | undefined;
+  if (!userId) {
+    return false;
+  }
+
+  const directRoles = await window.dataverseAPI.queryData(
+    `systemusers(${userId})/systemuserroles_association?$select=roleid&$filter=_roletemplateid_value eq ${SYSTEM_ADMINISTRATOR_ROLE_TEMPLATE_ID}`
+  );
+  if ((directRoles.value || []).length > 0) {
+    return true;
+  }
+
+  // Users also inherit the roles of the teams they belong to
+  const adminTeams = await window.dataverseAPI.queryData(
+    `systemusers(${userId})/teammembership_association?$select=teamid&$filter=teamroles_association/any(r:r/_roletemplateid_value eq ${SYSTEM_ADMINISTRATOR_ROLE_TEMPLATE_ID})`
+  );
+  return (adminTeams.value || []).length > 0;
+}
+
+/**
+ * Start a bulk deletion job for all audit records created before the cutoff date
+ * @returns The ID of the asynchronous job
+ */
+export async function submitAuditLogDeletion(cutoffDate: Date): Promise<string> {
+  const response = await window.dataverseAPI.execute({
+    operationName: 'BulkDelete',
+    operationType: 'action',
+    parameters: {
+      QuerySet: [
+        {
+          EntityName: 'audit',
+          ColumnSet: { AllColumns: false, Columns: ['auditid'] },
+          Criteria: {
+            FilterOperator: 'And',
+            Conditions: [
+              {
+                AttributeName: 'createdon',
+                Operator: 'LessThan',
+                Values: [{ Value: cutoffDate.toISOString(), Type: 'System.DateTime' }],
+              },
+            ],
+          },
+        },
+      ],
+      JobName: `Audit log cleanup before ${cutoffDate.toISOString().slice(0, 10)}`,
+      SendEmailNotification: false,
+      ToRecipients: [],
+      CCRecipients: [],
+      RecurrencePattern: '',
+      StartDateTime: new Date().toISOString(),
+    },
+  });
+
+  const jobId = response.JobId as string | undefined;
+  if (!jobId) {
+    throw new Error('The deletion job was not created');
+  }
+
+  console.log('[AuditCleanupService] Audit deletion job submitted:', jobId);
+  return jobId;
+}
+
+/**
+ * Read the current status of an audit deletion job
+ * @param job - Job to refresh
+ */
+export async function getAuditDeletionJobStatus(job: AuditDeletionJob): Promise<AuditDeletionJob> {
+  const operation = await window.dataverseAPI.retrieve(
+    'asyncoperation',
+    job.jobId,
+    ['statecode', 'statuscode', 'message', 'friendlymessage']
+  );
+  const statusCode = Number(operation.statuscode);
+  const isComplete = operation.statecode === ASYNC_OPERATION_COMPLETED;
+
+  // The bulk delete operation tracks how many records were removed
+  let deletedCount: number | undefined;
+  try {
+    const bulkDelete = await window.dataverseAPI.queryData(
+      `bulkdeleteoperations?$select=successcount&$filter=_asyncoperationid_value eq ${job.jobId}`
+    );
+    const successCount = (bulkDelete.value?.[0] as Record<string, unknown> | undefined)?.successcount;
+    deletedCount = typeof successCount === 'number' ? successCount : undefined;
+  } catch (error) {
+    console.warn('[AuditCleanupService] Could not read the deleted record count:', error);
+  }
+
+  return {
+    ...job,
+    statusCode,
+    statusLabel: asyncOperationStatusLabels[statusCode] || `Status ${statusCode}`,
+    isComplete,
+    isSucceeded: statusCode === ASYNC_OPERATION_SUCCEEDED,
+    message: (operation.friendlymessage as string) || (operation.message as string) || undefined,
+    deletedCount,
+  };
+}
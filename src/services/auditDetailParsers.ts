@@ -147,10 +147,17 @@ export function parseAttributeAuditDetail(
     ]);
 
     for (const attrName of allAttributes) {
-      if (attrName.startsWith('@') || attrName.startsWith('_')) {
+      if (attrName.includes('@')) {
         continue;
       }
 
+      // Lookups come through the Web API as _<name>_value
+      const lookupName = getLookupAttributeName(attrName);
+      if (attrName.startsWith('_') && !lookupName) {
+        continue;
+      }
+      const logicalName = lookupName || attrName;
+
       const oldVal = oldValues[attrName];
       const newVal = newValues[attrName];
 
@@ -158,18 +165,23 @@ export function parseAttributeAuditDetail(
         continue;
       }
 
-      const attrMeta = attributeMap.get(attrName);
-      const displayName = attrMeta?.displayName || attrName;
+      const attrMeta = attributeMap.get(logicalName);
+      const displayName = attrMeta?.displayName || logicalName;
 
       const oldFormatted = formatAuditValue(oldVal, oldValues, attrName);
       const newFormatted = formatAuditValue(newVal, newValues, attrName);
 
       details.push({
         type: 'attribute',
-        attributeName: attrName,
+        attributeName: logicalName,
         attributeDisplayName: displayName,
         oldValue: oldFormatted,
         newValue: newFormatted,
+        oldRawValue: oldVal,
+        newRawValue: newVal,
+        oldLookupTarget: lookupName
+          ? (oldValues[`${attrName}@Microsoft.Dynamics.CRM.lookuplogicalname`] as string | undefined)
+          : undefined,
       });
     }
   } catch (err) {
@@ -420,6 +432,15 @@ export function formatAuditValue(value: unknown, allValues: Record<string, unkno
   return String(value);
 }
 
+/**
+ * Get the logical name of a lookup from its Web API key (_parentcustomerid_value -> parentcustomerid)
+ * Returns null when the key is not a lookup value key
+ */
+export function getLookupAttributeName(key: string): string | null {
+  const match = /^_(.+)_value$/.exec(key);
+  return match ? match[1] : null;
+}
+
 /**
  * Dispatch to the correct parser based on audit detail type
  */
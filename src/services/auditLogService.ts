@@ -4,12 +4,36 @@ import {
   PaginationState,
   AuditDetail,
   AuditRecord,
+  RecordChangeHistoryResponse,
+  RecordChangeHistoryPage,
+  SortState,
+  SortColumn,
 } from '../model/auditLog';
-import { toAuditLogEntry } from '../utils/auditHelpers';
+import type { AuditDeletionEstimate } from '../model/audit';
+import { matchesSearchText, toAuditLogEntry } from '../utils/auditHelpers';
 import { METADATA_ACTION_CODES, MetadataActionLabels } from '../utils/accessRightsConstants';
-import { getAttributeMap } from './metadataService';
+import { getAttributeMap, getEntityByLogicalName } from './metadataService';
+import { getPrincipalGroupMembers, lookupPrincipalName } from './principalService';
 import { parseMetadataAuditDetail, parseAuditDetail } from './auditDetailParsers';
 
+// FetchXML stops counting records at this number
+const TOTAL_RECORD_COUNT_LIMIT = 5000;
+
+// Values per "in" condition when filtering on a resolved list of users
+const USER_ID_CHUNK_SIZE = 200;
+
+// Most resolved users listed in the query; larger sets would exceed the URL limit of the GET request
+const MAX_INLINE_USER_IDS = 250;
+
+// Cleared when the server rejects a changedata condition; search then relies on client-side matching
+let isChangeDataFilterSupported = true;
+
+// Details loaded at once while matching change values client-side
+const SEARCH_DETAILS_BATCH_SIZE = 25;
+
+// Most server pages scanned to fill one page of client-side search results
+const MAX_SEARCH_PAGES = 10;
+
 // Cache for audit details
 const detailsCache = new Map<string, AuditDetail[]>();
 
@@ -25,6 +49,43 @@ function escapeXml(str: string): string {
     .replace(/'/g, '&apos;');
 }
 
+/**
+ * Escape the wildcard characters of a FetchXML like value
+ */
+function escapeLikeValue(str: string): string {
+  return str.replace(/[[%_]/g, '[$&]');
+}
+
+/**
+ * Get a readable message from a failed API call
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error || 'Failed to query audit logs');
+}
+
+/**
+ * Whether the server rejected the changedata search condition itself
+ * Such errors name the column; throttling and network failures don't, and leave the search on.
+ */
+function isChangeDataFilterRejected(error: unknown): boolean {
+  return /changedata/i.test(getErrorMessage(error));
+}
+
+/**
+ * Forget that the server rejected the changedata condition, e.g. after switching environments
+ */
+export function resetChangeDataFilterSupport(): void {
+  isChangeDataFilterSupported = true;
+}
+
+/**
+ * Page number stored in a decoded paging cookie (<cookie page="N">)
+ */
+function getPagingCookiePage(pagingCookie: string | undefined): number | null {
+  const match = pagingCookie?.match(/<cookie[^>]*\spage="(\d+)"/);
+  return match ? Number(match[1]) : null;
+}
+
 /**
  * Decode the FetchXML paging cookie from the API response.
  * The cookie is URL-encoded twice, so we need to decode it twice.
@@ -50,10 +111,119 @@ function decodePagingCookie(rawCookie: string): string {
   }
 }
 
+/**
+ * Build a condition that leaves out the given values
+ */
+function buildExclusionCondition(attribute: string, values: Array<string | number>): string {
+  if (values.length === 1) {
+    return `<condition attribute="${attribute}" operator="ne" value="${escapeXml(String(values[0]))}" />`;
+  }
+  const valueElements = values.map(v => `<value>${escapeXml(String(v))}</value>`).join('');
+  return `<condition attribute="${attribute}" operator="not-in">${valueElements}</condition>`;
+}
+
+/**
+ * Resolve the business unit, team and security role filters to the ids of the acting users
+ * Each kind matches any of its selections; kinds are combined so a user has to match all of them.
+ * @returns null when none of these filters is set
+ */
+async function resolveActingUserIds(filters: AuditFiltersState): Promise<string[] | null> {
+  const groups = [
+    { type: 'businessunit' as const, selected: filters.selectedBusinessUnits },
+    { type: 'team' as const, selected: filters.selectedTeams },
+    { type: 'role' as const, selected: filters.selectedUserRoles },
+  ].filter(g => g.selected.length > 0);
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  let userIds: Set<string> | null = null;
+  for (const group of groups) {
+    const members = await getPrincipalGroupMembers(group.type, group.selected.map(s => s.id));
+    userIds = userIds ? new Set(members.filter(id => userIds!.has(id))) : new Set(members);
+  }
+  return [...(userIds ?? [])];
+}
+
+/**
+ * Build an "in" condition for a list of ids
+ */
+function buildInCondition(attribute: string, ids: string[]): string {
+  const values = ids.map(id => `<value>${escapeXml(id)}</value>`).join('');
+  return `<condition attribute="${attribute}" operator="in">${values}</condition>`;
+}
+
+/**
+ * Match the acting user on the business unit, team and security role filters through a link to systemuser
+ * Used instead of listing the resolved users when there are too many of them for the request URL.
+ */
+function buildActingUserLinkEntity(filters: AuditFiltersState): string {
+  const conditions: string[] = [];
+
+  if (filters.selectedBusinessUnits.length > 0) {
+    conditions.push(buildInCondition('businessunitid', filters.selectedBusinessUnits.map(s => s.id)));
+  }
+  if (filters.selectedTeams.length > 0) {
+    conditions.push(`<link-entity name="teammembership" from="systemuserid" to="systemuserid" link-type="any">
+              <filter>${buildInCondition('teamid', filters.selectedTeams.map(s => s.id))}</filter>
+            </link-entity>`);
+  }
+  if (filters.selectedUserRoles.length > 0) {
+    // Matched through the root role, like getPrincipalGroupMembers, on the user's own roles or those of their teams
+    const roleLink = `<link-entity name="role" from="roleid" to="roleid" link-type="any">
+                  <filter>${buildInCondition('parentrootroleid', filters.selectedUserRoles.map(s => s.id))}</filter>
+                </link-entity>`;
+    conditions.push(`<filter type="or">
+              <link-entity name="systemuserroles" from="systemuserid" to="systemuserid" link-type="any">
+                <filter>${roleLink}</filter>
+              </link-entity>
+              <link-entity name="teammembership" from="systemuserid" to="systemuserid" link-type="any">
+                <filter>
+                  <link-entity name="teamroles" from="teamid" to="teamid" link-type="any">
+                    <filter>${roleLink}</filter>
+                  </link-entity>
+                </filter>
+              </link-entity>
+            </filter>`);
+  }
+
+  return `<link-entity name="systemuser" from="systemuserid" to="userid" link-type="any">
+            <filter type="and">
+            ${conditions.join('\n            ')}
+            </filter>
+          </link-entity>`;
+}
+
+/**
+ * Build a condition that matches any of the given users, split into several "in" conditions when the list is large
+ * Very large lists are replaced by a link to systemuser that applies the group filters on the server.
+ */
+function buildActingUserCondition(filters: AuditFiltersState, userIds: string[]): string {
+  if (userIds.length === 0) {
+    // Nobody matches the group filters; userid is always set, so this returns no records
+    return '<condition attribute="userid" operator="null" />';
+  }
+
+  if (userIds.length > MAX_INLINE_USER_IDS) {
+    return buildActingUserLinkEntity(filters);
+  }
+
+  const chunks: string[] = [];
+  for (let i = 0; i < userIds.length; i += USER_ID_CHUNK_SIZE) {
+    chunks.push(buildInCondition('userid', userIds.slice(i, i + USER_ID_CHUNK_SIZE)));
+  }
+
+  return chunks.length === 1
+    ? chunks[0]
+    : `<filter type="or">\n            ${chunks.join('\n            ')}\n          </filter>`;
+}
+
 /**
  * Build FetchXML filter conditions from the filter state
+ * @param actingUserIds - Users resolved from the business unit, team and security role filters
  */
-function buildFetchXmlFilters(filters: AuditFiltersState): string {
+function buildFetchXmlFilters(filters: AuditFiltersState, actingUserIds?: string[] | null): string {
   const conditions: string[] = [];
 
   // Table filter (objecttypecode)
@@ -68,11 +238,34 @@ function buildFetchXmlFilters(filters: AuditFiltersState): string {
     }
   }
 
+  if (filters.excludedTables.length > 0) {
+    conditions.push(buildExclusionCondition('objecttypecode', filters.excludedTables));
+  }
+
   // Record filter
   if (filters.recordId) {
     conditions.push(`<condition attribute="objectid" operator="eq" value="${escapeXml(filters.recordId)}" />`);
   }
 
+  // Attribute filter: attributemask lists the changed column numbers as ",3,17,42,"
+  if (filters.selectedAttributeColumns.length > 0) {
+    if (filters.selectedAttributeColumns.length === 1) {
+      conditions.push(`<condition attribute="attributemask" operator="like" value="%,${filters.selectedAttributeColumns[0]},%" />`);
+    } else {
+      const attributeConditions = filters.selectedAttributeColumns
+        .map(n => `<condition attribute="attributemask" operator="like" value="%,${n},%" />`)
+        .join('\n            ');
+      conditions.push(`<filter type="or">\n            ${attributeConditions}\n          </filter>`);
+    }
+  }
+
+  // Change value search: changedata holds the old and new values, so it narrows the results
+  // before the parsed details are matched on the client
+  const searchText = filters.searchText.trim();
+  if (searchText && isChangeDataFilterSupported) {
+    conditions.push(`<condition attribute="changedata" operator="like" value="%${escapeXml(escapeLikeValue(searchText))}%" />`);
+  }
+
   // Operation filter
   if (filters.operations.length > 0) {
     if (filters.operations.length === 1) {
@@ -85,6 +278,10 @@ function buildFetchXmlFilters(filters: AuditFiltersState): string {
     }
   }
 
+  if (filters.excludedOperations.length > 0) {
+    conditions.push(buildExclusionCondition('operation', filters.excludedOperations));
+  }
+
   // Action filter
   if (filters.actions.length > 0) {
     if (filters.actions.length === 1) {
@@ -97,14 +294,27 @@ function buildFetchXmlFilters(filters: AuditFiltersState): string {
     }
   }
 
-  // Date range filters
-  if (filters.fromDate) {
-    conditions.push(`<condition attribute="createdon" operator="ge" value="${filters.fromDate.toISOString()}" />`);
+  if (filters.excludedActions.length > 0) {
+    conditions.push(buildExclusionCondition('action', filters.excludedActions));
   }
-  if (filters.toDate) {
-    const endDate = new Date(filters.toDate);
-    endDate.setDate(endDate.getDate() + 1);
-    conditions.push(`<condition attribute="createdon" operator="lt" value="${endDate.toISOString()}" />`);
+
+  // Date range filters: a relative range is left to the server so it stays current,
+  // otherwise the bounds are inclusive to the minute
+  if (filters.relativeDate) {
+    const { operator, value } = filters.relativeDate;
+    conditions.push(
+      operator === 'last-x-hours' || operator === 'last-x-days'
+        ? `<condition attribute="createdon" operator="${operator}" value="${Math.max(1, Math.floor(value ?? 1))}" />`
+        : `<condition attribute="createdon" operator="${operator}" />`
+    );
+  } else {
+    if (filters.fromDate) {
+      conditions.push(`<condition attribute="createdon" operator="ge" value="${filters.fromDate.toISOString()}" />`);
+    }
+    if (filters.toDate) {
+      const endDate = new Date(filters.toDate.getTime() + 60 * 1000);
+      conditions.push(`<condition attribute="createdon" operator="lt" value="${endDate.toISOString()}" />`);
+    }
   }
 
   // User filter
@@ -119,6 +329,14 @@ function buildFetchXmlFilters(filters: AuditFiltersState): string {
     }
   }
 
+  if (actingUserIds) {
+    conditions.push(buildActingUserCondition(filters, actingUserIds));
+  }
+
+  if (filters.excludedUsers.length > 0) {
+    conditions.push(buildExclusionCondition('userid', filters.excludedUsers.map(u => u.id)));
+  }
+
   // Security role filter (for role changes, objectid is the security role)
   if (filters.selectedSecurityRoles.length > 0) {
     if (filters.selectedSecurityRoles.length === 1) {
@@ -134,6 +352,45 @@ function buildFetchXmlFilters(filters: AuditFiltersState): string {
   return conditions.length > 0 ? conditions.join('\n          ') : '';
 }
 
+// Audit columns behind the sortable grid columns
+// Lookups (objectid, userid) are ordered by the name of the referenced record
+const sortAttributes: Record<SortColumn, string> = {
+  createdOn: 'createdon',
+  operation: 'operation',
+  action: 'action',
+  objectName: 'objectid',
+  userName: 'userid',
+};
+
+/**
+ * Build FetchXML order elements from the sort state
+ * Newest first is the default and the secondary order; auditid is always the final tiebreaker
+ * so paging stays deterministic.
+ */
+function buildFetchXmlOrders(sort?: SortState): string {
+  const orders: string[] = [];
+
+  if (sort?.column && sort.direction && sort.column !== 'createdOn') {
+    orders.push(`<order attribute="${sortAttributes[sort.column]}" descending="${sort.direction === 'desc'}" />`);
+  }
+
+  const createdOnDescending = !(sort?.column === 'createdOn' && sort.direction === 'asc');
+  orders.push(`<order attribute="createdon" descending="${createdOnDescending}" />`);
+  orders.push(`<order attribute="auditid" descending="${createdOnDescending}" />`);
+
+  return orders.join('\n    ');
+}
+
+/**
+ * Build the condition that starts the results at a "jump to date" anchor
+ * Newest-first results continue with older records, oldest-first results with newer ones.
+ */
+function buildAnchorCondition(anchorDate?: string, sort?: SortState): string {
+  if (!anchorDate) return '';
+  const isAscending = sort?.column === 'createdOn' && sort.direction === 'asc';
+  return `<condition attribute="createdon" operator="${isAscending ? 'ge' : 'le'}" value="${escapeXml(anchorDate)}" />`;
+}
+
 /**
  * Build FetchXML query for audit logs
  */
@@ -141,9 +398,14 @@ function buildAuditFetchXml(
   filters: AuditFiltersState,
   pageSize: number,
   pageNumber: number,
-  pagingCookie?: string
+  pagingCookie?: string,
+  sort?: SortState,
+  actingUserIds?: string[] | null,
+  anchorDate?: string
 ): string {
-  const filterConditions = buildFetchXmlFilters(filters);
+  const filterConditions = [buildFetchXmlFilters(filters, actingUserIds), buildAnchorCondition(anchorDate, sort)]
+    .filter(Boolean)
+    .join('\n          ');
 
   // Build paging attributes
   let pagingAttrs = `count="${pageSize}" page="${pageNumber}"`;
@@ -165,8 +427,7 @@ function buildAuditFetchXml(
     <attribute name="useradditionalinfo" />
     <attribute name="attributemask" />
     <attribute name="changedata" />
-    <order attribute="createdon" descending="true" />
-    <order attribute="auditid" descending="true" />
+    ${buildFetchXmlOrders(sort)}
     ${filterConditions ? `<filter type="and">\n          ${filterConditions}\n        </filter>` : ''}
   </entity>
 </fetch>`.trim();
@@ -175,7 +436,19 @@ function buildAuditFetchXml(
 }
 
 /**
- * Query audit logs with filters using FetchXML
+ * Page of audit logs returned by queryAuditLogs
+ */
+export interface AuditLogQueryResult {
+  entries: AuditLogEntry[];
+  totalCount: number;
+  hasMoreRecords: boolean;
+  pagingCookie?: string;
+  details?: Map<string, AuditDetail[]>;  // Details loaded to match the search text client-side
+  error?: string;  // Set when the query failed; entries is empty then
+}
+
+/**
+ * Query one page of audit logs with filters using FetchXML
  *
  * Paging notes (per Microsoft docs):
  * - Uses FetchXML with page and count attributes
@@ -183,26 +456,28 @@ function buildAuditFetchXml(
  * - Ordering MUST include unique identifier (auditid) for deterministic results
  * - Paging is forward-only; going backward requires starting over
  *
+ * A failed query returns an empty page with error set, so callers can tell it from "no results".
+ *
  * @see https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/page-results
  */
-export async function queryAuditLogs(
+async function fetchAuditLogPage(
   filters: AuditFiltersState,
-  pagination: PaginationState
-): Promise<{
-  entries: AuditLogEntry[];
-  totalCount: number;
-  hasMoreRecords: boolean;
-  pagingCookie?: string;
-}> {
+  pagination: PaginationState,
+  sort?: SortState
+): Promise<AuditLogQueryResult> {
   try {
     console.log('[AuditService] queryAuditLogs called, page:', pagination.pageNumber, 'pagingCookie:', pagination.pagingCookie ? 'present' : 'none');
 
     // Build FetchXML query
+    const actingUserIds = await resolveActingUserIds(filters);
     const fetchXml = buildAuditFetchXml(
       filters,
       pagination.pageSize,
       pagination.pageNumber,
-      pagination.pagingCookie
+      pagination.pagingCookie,
+      sort,
+      actingUserIds,
+      pagination.anchorDate
     );
 
     console.log('[AuditService] FetchXML query:', fetchXml);
@@ -212,8 +487,13 @@ export async function queryAuditLogs(
       response = await window.dataverseAPI.fetchXmlQuery(fetchXml);
       console.log('[AuditService] FetchXML response received');
     } catch (apiError) {
+      if (filters.searchText.trim() && isChangeDataFilterSupported && isChangeDataFilterRejected(apiError)) {
+        // queryAuditLogs sees the flag and searches the change values client-side instead
+        console.warn('[AuditService] changedata filter rejected, searching without it:', apiError);
+        isChangeDataFilterSupported = false;
+      }
       console.error('[AuditService] FetchXML API call failed:', apiError);
-      return { entries: [], totalCount: 0, hasMoreRecords: false };
+      return { entries: [], totalCount: 0, hasMoreRecords: false, error: getErrorMessage(apiError) };
     }
 
     // Handle empty response
@@ -277,91 +557,239 @@ export async function queryAuditLogs(
     return { entries, totalCount, hasMoreRecords, pagingCookie };
   } catch (error) {
     console.error('[AuditService] queryAuditLogs error:', error);
-    return { entries: [], totalCount: 0, hasMoreRecords: false };
+    return { entries: [], totalCount: 0, hasMoreRecords: false, error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Query audit logs with filters using FetchXML
+ * When the server doesn't support the change value search, further pages are scanned and their
+ * details matched here until the page is full; see queryClientSearchPage.
+ */
+export async function queryAuditLogs(
+  filters: AuditFiltersState,
+  pagination: PaginationState,
+  sort?: SortState
+): Promise<AuditLogQueryResult> {
+  const searchText = filters.searchText.trim();
+  if (searchText && !isChangeDataFilterSupported) {
+    return queryClientSearchPage(filters, pagination, sort, searchText);
   }
+
+  const usesServerSearch = !!searchText;
+  const result = await fetchAuditLogPage(filters, pagination, sort);
+  if (usesServerSearch && !isChangeDataFilterSupported) {
+    return queryClientSearchPage(filters, pagination, sort, searchText);
+  }
+  return result;
+}
+
+/**
+ * Fill a page with entries whose change values contain the search text
+ * Whole server pages are scanned, so a page can hold a few more entries than the page size, or fewer
+ * when MAX_SEARCH_PAGES pass without filling it; the next page continues the scan either way.
+ * Server pages are numbered from the paging cookie, since one page here spans several server pages.
+ * Details loaded for the scan are returned with the page rather than kept in the details cache,
+ * so streamed exports don't accumulate them.
+ */
+async function queryClientSearchPage(
+  filters: AuditFiltersState,
+  pagination: PaginationState,
+  sort: SortState | undefined,
+  searchText: string
+): Promise<AuditLogQueryResult> {
+  const cookiePage = getPagingCookiePage(pagination.pagingCookie);
+  let serverPage = cookiePage !== null ? cookiePage + 1 : pagination.pageNumber;
+  let pagingCookie = pagination.pagingCookie;
+  const entries: AuditLogEntry[] = [];
+  const details = new Map<string, AuditDetail[]>();
+  let totalCount = 0;
+  let hasMoreRecords = false;
+
+  for (let scanned = 0; scanned < MAX_SEARCH_PAGES; scanned++) {
+    const page = await fetchAuditLogPage(filters, { ...pagination, pageNumber: serverPage, pagingCookie }, sort);
+    if (page.error) {
+      return page;
+    }
+
+    const uncachedIds = page.entries.filter(e => !detailsCache.has(e.id)).map(e => e.id);
+    const pageDetails = await loadDetailsInBatches(page.entries);
+    removeCachedDetails(uncachedIds);
+    for (const entry of page.entries) {
+      const entryDetails = pageDetails.get(entry.id);
+      // Entries whose details failed to load are kept, as in the explorer's own filtering
+      if (!entryDetails || matchesSearchText(entryDetails, searchText)) {
+        entries.push(entry);
+        if (entryDetails) details.set(entry.id, entryDetails);
+      }
+    }
+
+    totalCount = page.totalCount;
+    hasMoreRecords = page.hasMoreRecords;
+    pagingCookie = page.pagingCookie;
+    serverPage++;
+    if (entries.length >= pagination.pageSize || !hasMoreRecords) break;
+  }
+
+  console.log('[AuditService] Client-side search matched', entries.length, 'entries');
+  return { entries, totalCount, hasMoreRecords, pagingCookie, details };
+}
+
+/**
+ * Load the details of several entries, a batch at a time
+ * Entries whose details fail to load are left out of the result.
+ */
+export async function loadDetailsInBatches(entries: AuditLogEntry[]): Promise<Map<string, AuditDetail[]>> {
+  const loaded = new Map<string, AuditDetail[]>();
+
+  for (let i = 0; i < entries.length; i += SEARCH_DETAILS_BATCH_SIZE) {
+    const batch = entries.slice(i, i + SEARCH_DETAILS_BATCH_SIZE);
+    const results = await window.toolboxAPI.utils.executeParallel(
+      ...batch.map(async entry => {
+        const cached = detailsCache.get(entry.id);
+        if (cached || !entry.objectTypeCode) return { entryId: entry.id, details: cached };
+        try {
+          return { entryId: entry.id, details: await loadAuditDetails(entry.id, entry.objectTypeCode, entry) };
+        } catch (err) {
+          console.warn(`[AuditService] Failed to load details for ${entry.id}:`, err);
+          return { entryId: entry.id, details: undefined };
+        }
+      })
+    );
+    for (const { entryId, details } of results) {
+      if (details) loaded.set(entryId, details);
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Get a single audit record by its ID
+ * @returns The entry, or null when it no longer exists (e.g. removed by retention)
+ */
+export async function getAuditLogEntry(auditId: string): Promise<AuditLogEntry | null> {
+  const fetchXml = `
+<fetch top="1">
+  <entity name="audit">
+    <attribute name="auditid" />
+    <attribute name="createdon" />
+    <attribute name="operation" />
+    <attribute name="action" />
+    <attribute name="objecttypecode" />
+    <attribute name="objectid" />
+    <attribute name="userid" />
+    <attribute name="useradditionalinfo" />
+    <attribute name="attributemask" />
+    <attribute name="changedata" />
+    <filter type="and">
+      <condition attribute="auditid" operator="eq" value="${escapeXml(auditId)}" />
+    </filter>
+  </entity>
+</fetch>`.trim();
+
+  const response = await window.dataverseAPI.fetchXmlQuery(fetchXml);
+  const record = response?.value?.[0] as unknown as AuditRecord | undefined;
+  return record?.auditid ? toAuditLogEntry(record) : null;
 }
 
 /**
  * Get audit details for a specific audit record
  * Uses RetrieveAuditDetails function via Web API
  * For metadata changes (actions 100-105), uses the changeData from the entry
+ * @returns The details, or an empty list when they could not be loaded
  */
 export async function getAuditDetails(
   auditId: string,
   entityLogicalName: string,
   entry?: AuditLogEntry
 ): Promise<AuditDetail[]> {
-  console.log('[AuditService] getAuditDetails called for:', auditId, 'entity:', entityLogicalName);
-
   try {
-    // Check if this is a metadata change action
-    if (entry && (METADATA_ACTION_CODES as readonly number[]).includes(entry.action)) {
-      console.log('[AuditService] Metadata action detected:', entry.action);
-      const details = await parseMetadataAuditDetail(entry);
-      detailsCache.set(auditId, details);
-      return details;
-    }
-
-    let response: Record<string, unknown> | null = null;
-
-    console.log('[AuditService] Calling RetrieveAuditDetails');
-    response = await (window.dataverseAPI as { execute: (params: unknown) => Promise<Record<string, unknown>> }).execute({
-      operationName: 'RetrieveAuditDetails',
-      operationType: 'function',
-      entityName: 'audit',
-      entityId: auditId,
-    });
-    console.log('[AuditService] Execute response:', response);
+    return await loadAuditDetails(auditId, entityLogicalName, entry);
+  } catch (error) {
+    // Not cached, so the details are fetched again next time
+    console.error('[AuditService] Error fetching audit details:', error);
+    return [];
+  }
+}
 
-    if (!response) {
-      console.log('[AuditService] No response received');
-      return [];
-    }
+/**
+ * Get audit details for a specific audit record, like getAuditDetails
+ * @throws Error when the details fail to load (e.g. when throttled); nothing is cached then
+ */
+export async function loadAuditDetails(
+  auditId: string,
+  entityLogicalName: string,
+  entry?: AuditLogEntry
+): Promise<AuditDetail[]> {
+  console.log('[AuditService] loadAuditDetails called for:', auditId, 'entity:', entityLogicalName);
 
-    // The response might have AuditDetail directly or nested
-    const auditDetail = (response.AuditDetail || response) as Record<string, unknown>;
-    console.log('[AuditService] AuditDetail:', auditDetail);
+  // Check if this is a metadata change action
+  if (entry && (METADATA_ACTION_CODES as readonly number[]).includes(entry.action)) {
+    console.log('[AuditService] Metadata action detected:', entry.action);
+    const details = await parseMetadataAuditDetail(entry);
+    detailsCache.set(auditId, details);
+    return details;
+  }
 
-    if (!auditDetail) {
-      console.log('[AuditService] No AuditDetail in response');
-      detailsCache.set(auditId, []);
-      return [];
-    }
+  let response: Record<string, unknown> | null = null;
 
-    // Get attribute map for attribute lookups
-    const attributeMap = await getAttributeMap(entityLogicalName);
+  console.log('[AuditService] Calling RetrieveAuditDetails');
+  response = await (window.dataverseAPI as { execute: (params: unknown) => Promise<Record<string, unknown>> }).execute({
+    operationName: 'RetrieveAuditDetails',
+    operationType: 'function',
+    entityName: 'audit',
+    entityId: auditId,
+  });
+  console.log('[AuditService] Execute response:', response);
 
-    // Use the shared parser dispatcher
-    const details = await parseAuditDetail(auditDetail, entityLogicalName, attributeMap);
+  if (!response) {
+    console.log('[AuditService] No response received');
+    return [];
+  }
 
-    // Cache the result
-    detailsCache.set(auditId, details);
+  // The response might have AuditDetail directly or nested
+  const auditDetail = (response.AuditDetail || response) as Record<string, unknown>;
+  console.log('[AuditService] AuditDetail:', auditDetail);
 
-    console.log('[AuditService] Returning', details.length, 'details');
-    return details;
-  } catch (error) {
-    console.error('[AuditService] Error fetching audit details:', error);
+  if (!auditDetail) {
+    console.log('[AuditService] No AuditDetail in response');
     detailsCache.set(auditId, []);
     return [];
   }
+
+  // Get attribute map for attribute lookups
+  const attributeMap = await getAttributeMap(entityLogicalName);
+
+  // Use the shared parser dispatcher
+  const details = await parseAuditDetail(auditDetail, entityLogicalName, attributeMap);
+
+  // Cache the result
+  detailsCache.set(auditId, details);
+
+  console.log('[AuditService] Returning', details.length, 'details');
+  return details;
 }
 
 /**
  * Get record change history (for specific record filtering)
  * Uses FetchXML query filtered by record ID
+ * A failed query returns an empty page with error set, like queryAuditLogs.
  *
  * @see https://learn.microsoft.com/en-us/power-apps/developer/data-platform/fetchxml/page-results
  */
 export async function getRecordChangeHistory(
   _entityLogicalName: string,
   recordId: string,
-  pagination: PaginationState
+  pagination: PaginationState,
+  sort?: SortState
 ): Promise<{
   entries: AuditLogEntry[];
   details: Map<string, AuditDetail[]>;
   totalCount: number;
   hasMoreRecords: boolean;
   pagingCookie?: string;
+  error?: string;
 }> {
   // Build paging attributes
   let pagingAttrs = `count="${pagination.pageSize}" page="${pagination.pageNumber}"`;
@@ -382,10 +810,10 @@ export async function getRecordChangeHistory(
     <attribute name="useradditionalinfo" />
     <attribute name="attributemask" />
     <attribute name="changedata" />
-    <order attribute="createdon" descending="true" />
-    <order attribute="auditid" descending="true" />
+    ${buildFetchXmlOrders(sort)}
     <filter type="and">
       <condition attribute="objectid" operator="eq" value="${escapeXml(recordId)}" />
+      ${buildAnchorCondition(pagination.anchorDate, sort)}
     </filter>
   </entity>
 </fetch>`.trim();
@@ -402,6 +830,7 @@ export async function getRecordChangeHistory(
       details: new Map(),
       totalCount: 0,
       hasMoreRecords: false,
+      error: getErrorMessage(apiError),
     };
   }
 
@@ -468,65 +897,105 @@ export async function getRecordChangeHistory(
 
 /**
  * Get full record change history using RetrieveRecordChangeHistory
- * This is an unbound function that takes a Target entity reference and PagingInfo
+ * This is an unbound function that takes a Target entity reference and PagingInfo.
+ * Each returned AuditDetail carries its OldValue/NewValue inline, so the details are
+ * parsed here and cached instead of calling RetrieveAuditDetails for every entry.
+ *
  * @param entityLogicalName - The logical name of the entity
  * @param recordId - The GUID of the record
  * @param pageSize - Number of records per page (default 50)
  * @param pageNumber - Page number to retrieve (default 1)
+ * @param pagingCookie - Paging cookie returned with the previous page
+ * @see https://learn.microsoft.com/en-us/power-apps/developer/data-platform/webapi/reference/retrieverecordchangehistory
  */
 export async function retrieveRecordChangeHistory(
   entityLogicalName: string,
   recordId: string,
   pageSize: number = 50,
-  pageNumber: number = 1
-): Promise<AuditLogEntry[]> {
+  pageNumber: number = 1,
+  pagingCookie?: string
+): Promise<RecordChangeHistoryPage> {
   console.log('[AuditService] retrieveRecordChangeHistory called for:', entityLogicalName, recordId, 'page:', pageNumber);
 
   try {
+    const entity = await getEntityByLogicalName(entityLogicalName);
+    const primaryIdAttribute = entity?.primaryIdAttribute || `${entityLogicalName}id`;
+
+    const pagingInfo: Record<string, unknown> = {
+      Count: pageSize,
+      PageNumber: pageNumber,
+      ReturnTotalRecordCount: true,
+    };
+    if (pagingCookie) {
+      pagingInfo.PagingCookie = pagingCookie;
+    }
+
     const response = await window.dataverseAPI.execute({
       operationName: 'RetrieveRecordChangeHistory',
       operationType: 'function',
       parameters: {
         Target: {
           '@odata.type': `Microsoft.Dynamics.CRM.${entityLogicalName}`,
-          [`${entityLogicalName}id`]: recordId,
-        },
-        PagingInfo: {
-          Count: pageSize,
-          PageNumber: pageNumber,
+          [primaryIdAttribute]: recordId,
         },
+        PagingInfo: pagingInfo,
       },
     });
 
-    console.log('[AuditService] RetrieveRecordChangeHistory response:', response);
+    console.log('[AuditService] RetrieveRecordChangeHistory response received');
 
     if (!response) {
       console.log('[AuditService] No response received');
-      return [];
+      return { entries: [], totalCount: 0, hasMoreRecords: false };
     }
 
     // The response should have an AuditDetailCollection
-    const auditDetails = (response as Record<string, unknown>).AuditDetailCollection || response;
+    const collection = ((response as Partial<RecordChangeHistoryResponse>).AuditDetailCollection
+      || response) as Partial<RecordChangeHistoryResponse['AuditDetailCollection']>;
+    const auditDetails = Array.isArray(collection)
+      ? collection as RecordChangeHistoryResponse['AuditDetailCollection']['AuditDetails']
+      : collection.AuditDetails || [];
 
-    if (!auditDetails || !Array.isArray(auditDetails)) {
-      console.log('[AuditService] No audit details in response');
-      return [];
-    }
+    // Get attribute map once for all entries on this page
+    const attributeMap = await getAttributeMap(entityLogicalName);
 
-    // Map the audit details to entries
+    // Map the audit details to entries, parsing the inline old/new values
     const entries: AuditLogEntry[] = [];
-    for (const detail of auditDetails as Array<{ AuditRecord?: AuditRecord }>) {
+    for (const detail of auditDetails) {
       try {
-        if (detail && detail.AuditRecord) {
-          entries.push(toAuditLogEntry(detail.AuditRecord));
+        if (!detail || !detail.AuditRecord || !detail.AuditRecord.auditid) {
+          continue;
         }
+
+        const entry = toAuditLogEntry(detail.AuditRecord);
+
+        // The AuditRecord does not always carry formatted lookup values
+        if (entry.userId && entry.userName === detail.AuditRecord._userid_value) {
+          entry.userName = await lookupPrincipalName(entry.userId, 'systemuser');
+        }
+
+        const details = await parseAuditDetail(detail as Record<string, unknown>, entityLogicalName, attributeMap);
+        entry.details = details;
+        detailsCache.set(entry.id, details);
+
+        entries.push(entry);
       } catch (err) {
         console.warn('[AuditService] Error mapping audit record:', err);
       }
     }
 
-    console.log('[AuditService] Returning', entries.length, 'history entries');
-    return entries;
+    const hasMoreRecords = collection.MoreRecords ?? false;
+    const totalCount = collection.TotalRecordCount && collection.TotalRecordCount > 0
+      ? collection.TotalRecordCount
+      : entries.length + (pageNumber - 1) * pageSize;
+
+    console.log('[AuditService] Returning', entries.length, 'history entries, hasMore:', hasMoreRecords);
+    return {
+      entries,
+      totalCount,
+      hasMoreRecords,
+      pagingCookie: collection.PagingCookie || undefined,
+    };
   } catch (error) {
     console.error('[AuditService] Error retrieving record change history:', error);
     throw error;
@@ -540,6 +1009,7 @@ export async function retrieveRecordChangeHistory(
  * @param filters - Filter criteria
  * @param maxRecords - Maximum number of records to fetch (0 = unlimited)
  * @param onProgress - Optional callback to report progress
+ * @throws Error when a page fails to load, so an export never reports partial data as complete
  */
 export async function queryAllAuditLogs(
   filters: AuditFiltersState,
@@ -576,8 +1046,12 @@ export async function queryAllAuditLogs(
 
     // Fetch this page
     const result = await queryAuditLogs(filters, pagination);
+    if (result.error) {
+      throw new Error(`Failed to load page ${pageNumber}: ${result.error}`);
+    }
 
-    if (result.entries.length === 0) {
+    // A client-side search can scan pages without a match while more records follow
+    if (result.entries.length === 0 && !result.hasMoreRecords) {
       break;
     }
 
@@ -607,6 +1081,83 @@ export async function queryAllAuditLogs(
   return { entries: allEntries, totalCount };
 }
 
+/**
+ * Page of audit logs handed to forEachAuditLogPage callbacks
+ */
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  pageNumber: number;
+  totalCount: number;
+  isTotalCountExact: boolean;  // False once the count reaches the FetchXML counting limit
+  pagingCookie?: string;  // Cookie for the next page
+}
+
+/**
+ * Fetch all audit logs matching filters one page at a time (for streaming exports)
+ * Pages are handed to onPage and not kept, so memory stays flat however many records match.
+ *
+ * @param filters - Filter criteria
+ * @param onPage - Called with each page; the next page is fetched after it resolves
+ * @param signal - Stops before the next page when aborted
+ * @param start - Page and paging cookie to continue from, e.g. when resuming an export
+ * @throws Error when a page fails to load, so a failed query isn't taken for the end of the data
+ */
+export async function forEachAuditLogPage(
+  filters: AuditFiltersState,
+  onPage: (page: AuditLogPage) => Promise<void>,
+  signal?: AbortSignal,
+  start?: { pageNumber: number; pagingCookie?: string }
+): Promise<void> {
+  const pageSize = 250; // Use larger page size for bulk fetching
+  let pageNumber = start?.pageNumber ?? 1;
+  let pagingCookie = start?.pagingCookie;
+  let hasMoreRecords = true;
+
+  console.log('[AuditService] forEachAuditLogPage started');
+
+  while (hasMoreRecords && !signal?.aborted) {
+    const pagination: PaginationState = {
+      pageNumber,
+      pageSize,
+      totalCount: 0,
+      hasMoreRecords: false,
+      pagingCookie,
+    };
+
+    const result = await queryAuditLogs(filters, pagination);
+    if (result.error) {
+      throw new Error(`Failed to load page ${pageNumber}: ${result.error}`);
+    }
+    // A client-side search can scan pages without a match while more records follow
+    if (result.entries.length === 0 && !result.hasMoreRecords) {
+      break;
+    }
+
+    await onPage({
+      entries: result.entries,
+      pageNumber,
+      totalCount: result.totalCount,
+      isTotalCountExact: result.totalCount < TOTAL_RECORD_COUNT_LIMIT,
+      pagingCookie: result.pagingCookie,
+    });
+
+    hasMoreRecords = result.hasMoreRecords;
+    pagingCookie = result.pagingCookie;
+    pageNumber++;
+  }
+
+  console.log('[AuditService] forEachAuditLogPage complete at page', pageNumber - 1, signal?.aborted ? '(aborted)' : '');
+}
+
+/**
+ * Remove audit entries from the details cache (e.g. after a streaming export has written them)
+ */
+export function removeCachedDetails(auditIds: string[]): void {
+  for (const id of auditIds) {
+    detailsCache.delete(id);
+  }
+}
+
 /**
  * Clear audit details cache
  */
@@ -623,3 +1174,61 @@ export function getCachedDetails(auditId: string): AuditDetail[] | undefined {
 
 // Re-export metadata action labels for backward compatibility
 export { MetadataActionLabels };
+
+/**
+ * Get the creation date of the oldest audit record still in the log
+ * @returns The date, or null when the log is empty
+ */
+export async function getOldestAuditDate(): Promise<Date | null> {
+  const fetchXml = `
+<fetch top="1">
+  <entity name="audit">
+    <attribute name="createdon" />
+    <order attribute="createdon" />
+  </entity>
+</fetch>`.trim();
+
+  const response = await window.dataverseAPI.fetchXmlQuery(fetchXml);
+  const record = response?.value?.[0] as { createdon?: string } | undefined;
+  if (!record?.createdon) {
+    return null;
+  }
+
+  const date = new Date(record.createdon);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Count the audit records created before a date
+ * Uses the FetchXML total record count, which Dataverse caps at 5,000.
+ */
+export async function countAuditRecordsBefore(cutoffDate: Date): Promise<AuditDeletionEstimate> {
+  const fetchXml = `
+<fetch count="1" returntotalrecordcount="true">
+  <entity name="audit">
+    <attribute name="auditid" />
+    <filter type="and">
+      <condition attribute="createdon" operator="lt" value="${cutoffDate.toISOString()}" />
+    </filter>
+  </entity>
+</fetch>`.trim();
+
+  const response = await window.dataverseAPI.fetchXmlQuery(fetchXml) as DataverseAPI.FetchXmlResult & {
+    '@Microsoft.Dynamics.CRM.totalrecordcount'?: number;
+    '@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'?: boolean;
+  };
+
+  const totalRecordCount = response['@Microsoft.Dynamics.CRM.totalrecordcount'];
+  const isLimitExceeded = response['@Microsoft.Dynamics.CRM.totalrecordcountlimitexceeded'] === true;
+  let count = response.value?.length || 0;
+  if (isLimitExceeded) {
+    count = TOTAL_RECORD_COUNT_LIMIT;
+  } else if (typeof totalRecordCount === 'number' && totalRecordCount >= 0) {
+    count = totalRecordCount;
+  }
+
+  return {
+    count,
+    isLimitExceeded,
+  };
+}
@@ -1,23 +1,17 @@
+import {
+  AUDIT_RETENTION_FOREVER,
+  AUDIT_RETENTION_MAX_DAYS,
+} from '../model/audit';
 import type {
   OrganizationAuditSettings,
   TableAuditInfo,
   AttributeAuditInfo,
   BulkOperationResult,
+  SolutionOption,
+  MetadataUpdateOptions,
+  ConnectionTarget,
 } from '../model/audit';
 
-// Debug helper: log available API methods
-export function logAvailableAPIMethods(): void {
-  console.log('=== DataverseAPI Methods ===');
-  const api = window.dataverseAPI as unknown as Record<string, unknown>;
-  console.log('Available methods:', Object.keys(api));
-  console.log('Full API object:', api);
-
-  // Check for any undocumented methods
-  for (const key of Object.keys(api)) {
-    console.log(`  ${key}:`, typeof api[key]);
-  }
-}
-
 // Helper to extract display name from metadata
 function getDisplayName(displayName: unknown): string {
   if (!displayName) return '';
@@ -34,11 +28,86 @@ function getDisplayName(displayName: unknown): string {
   return '';
 }
 
+// Check the CanModifyAdditionalSettings managed property, which controls audit changes
+function canModifyAdditionalSettings(metadata: Record<string, unknown>): boolean {
+  const canModify = metadata.CanModifyAdditionalSettings as Record<string, unknown> | undefined;
+  return canModify?.Value !== false;
+}
+
+/**
+ * Prepare retrieved metadata for an UpdateEntity/UpdateAttribute request
+ * Drops response-only annotations and sets IsAuditEnabled, keeping the managed property settings
+ */
+function toAuditMetadataUpdate(
+  metadata: Record<string, unknown>,
+  defaultODataType: string,
+  isEnabled: boolean
+): Record<string, unknown> {
+  const updated: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (!key.startsWith('@')) {
+      updated[key] = value;
+    }
+  }
+
+  // Retrieved metadata carries '#Microsoft.Dynamics.CRM.X', requests expect 'Microsoft.Dynamics.CRM.X'
+  const odataType = metadata['@odata.type'];
+  updated['@odata.type'] = typeof odataType === 'string' ? odataType.replace(/^#/, '') : defaultODataType;
+
+  const currentAuditSetting = metadata.IsAuditEnabled as Record<string, unknown> | undefined;
+  updated.IsAuditEnabled = {
+    CanBeChanged: true,
+    ManagedPropertyLogicalName: 'canmodifyauditsettings',
+    ...(currentAuditSetting && typeof currentAuditSetting === 'object' ? currentAuditSetting : {}),
+    Value: isEnabled,
+  };
+
+  return updated;
+}
+
+// Build the shared parameters of metadata update requests
+function getMetadataUpdateParameters(options: MetadataUpdateOptions): Record<string, unknown> {
+  const parameters: Record<string, unknown> = {
+    MergeLabels: true,
+  };
+  if (options.solutionUniqueName) {
+    parameters.SolutionUniqueName = options.solutionUniqueName;
+  }
+  return parameters;
+}
+
+// ============ Solutions ============
+
+/**
+ * Get the visible unmanaged solutions that metadata changes can be added to
+ */
+export async function getUnmanagedSolutions(): Promise<SolutionOption[]> {
+  const result = await window.dataverseAPI.getSolutions([
+    'solutionid',
+    'uniquename',
+    'friendlyname',
+    'ismanaged',
+    'isvisible',
+  ]);
+
+  return (result.value || [])
+    .filter(s => s.ismanaged === false && s.isvisible !== false && s.uniquename !== 'Default')
+    .map(s => ({
+      solutionId: String(s.solutionid || ''),
+      uniqueName: String(s.uniquename || ''),
+      friendlyName: String(s.friendlyname || s.uniquename || ''),
+    }))
+    .sort((a, b) => a.friendlyName.localeCompare(b.friendlyName));
+}
+
 // ============ Organization Settings ============
 
-export async function getOrganizationAuditSettings(): Promise<OrganizationAuditSettings> {
+export async function getOrganizationAuditSettings(
+  connectionTarget?: ConnectionTarget
+): Promise<OrganizationAuditSettings> {
   const result = await window.dataverseAPI.queryData(
-    'organizations?$select=organizationid,isauditenabled,isuseraccessauditenabled,auditretentionperiodv2'
+    'organizations?$select=organizationid,isauditenabled,isuseraccessauditenabled,auditretentionperiodv2',
+    connectionTarget
   );
 
   if (!result.value || result.value.length === 0) {
@@ -58,25 +127,66 @@ export async function getOrganizationAuditSettings(): Promise<OrganizationAuditS
 
 export async function updateOrganizationAuditEnabled(
   organizationId: string,
-  isEnabled: boolean
+  isEnabled: boolean,
+  connectionTarget?: ConnectionTarget
 ): Promise<void> {
   await window.dataverseAPI.update('organization', organizationId, {
     isauditenabled: isEnabled,
-  });
+  }, connectionTarget);
 }
 
 export async function updateOrganizationUserAccessAuditEnabled(
   organizationId: string,
-  isEnabled: boolean
+  isEnabled: boolean,
+  connectionTarget?: ConnectionTarget
 ): Promise<void> {
   await window.dataverseAPI.update('organization', organizationId, {
     isuseraccessauditenabled: isEnabled,
-  });
+  }, connectionTarget);
+}
+
+/**
+ * Validate an audit retention period
+ * @returns An error message, or null when the value can be saved
+ */
+export function validateAuditRetentionPeriod(days: number): string | null {
+  if (days === AUDIT_RETENTION_FOREVER) {
+    return null;
+  }
+  if (!Number.isInteger(days)) {
+    return 'Retention must be a whole number of days';
+  }
+  if (days < 1 || days > AUDIT_RETENTION_MAX_DAYS) {
+    return `Retention must be between 1 and ${AUDIT_RETENTION_MAX_DAYS.toLocaleString()} days`;
+  }
+  return null;
+}
+
+/**
+ * Set how long audit records are kept
+ * @param days - Number of days, or AUDIT_RETENTION_FOREVER to keep records forever
+ * @throws Error when the value is not a valid retention period
+ */
+export async function updateOrganizationAuditRetentionPeriod(
+  organizationId: string,
+  days: number,
+  connectionTarget?: ConnectionTarget
+): Promise<void> {
+  const validationError = validateAuditRetentionPeriod(days);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  await window.dataverseAPI.update('organization', organizationId, {
+    auditretentionperiodv2: days,
+  }, connectionTarget);
 }
 
 // ============ Table/Entity Audit ============
 
-export async function getAllTablesWithAuditInfo(): Promise<TableAuditInfo[]> {
+export async function getAllTablesWithAuditInfo(
+  connectionTarget?: ConnectionTarget
+): Promise<TableAuditInfo[]> {
   const response = await window.dataverseAPI.getAllEntitiesMetadata([
     'MetadataId',
     'LogicalName',
@@ -84,7 +194,7 @@ export async function getAllTablesWithAuditInfo(): Promise<TableAuditInfo[]> {
     'IsCustomEntity',
     'IsAuditEnabled',
     'CanModifyAdditionalSettings',
-  ]);
+  ], connectionTarget);
 
   // EntityMetadataCollection has a .value property with the array
   const entities = response.value || [];
@@ -119,83 +229,51 @@ export async function getAllTablesWithAuditInfo(): Promise<TableAuditInfo[]> {
     );
 }
 
+/**
+ * Enable or disable auditing for a table through UpdateEntity
+ * The full entity metadata is retrieved first, as UpdateEntity replaces the definition.
+ * Customizations are not published here; callers publish once after a batch.
+ */
 export async function updateTableAuditEnabled(
   logicalName: string,
-  isEnabled: boolean
+  isEnabled: boolean,
+  options: MetadataUpdateOptions = {}
 ): Promise<void> {
-  // Log available API methods for debugging
-  logAvailableAPIMethods();
+  const entityMetadata = await window.dataverseAPI.getEntityMetadata(
+    logicalName,
+    true,
+    undefined,
+    options.connectionTarget
+  );
 
-  // Get full entity metadata
-  const entityMetadata = await window.dataverseAPI.getEntityMetadata(logicalName, true);
-  console.log('Entity metadata retrieved:', entityMetadata);
+  if (!entityMetadata || !entityMetadata.MetadataId) {
+    throw new Error(`Table ${logicalName} not found`);
+  }
 
-  const metadataId = entityMetadata.MetadataId;
-  console.log('MetadataId:', metadataId);
+  if (!canModifyAdditionalSettings(entityMetadata)) {
+    throw new Error(`Audit settings of ${logicalName} are managed and cannot be changed`);
+  }
 
-  // Approach 1: Try execute with UpdateEntity action (SDK message)
   try {
-    console.log('Attempting UpdateEntity action...');
-
-    const updatedMetadata = {
-      '@odata.type': 'Microsoft.Dynamics.CRM.EntityMetadata',
-      MetadataId: metadataId,
-      LogicalName: logicalName,
-      IsAuditEnabled: {
-        Value: isEnabled,
-        CanBeChanged: true,
-        ManagedPropertyLogicalName: 'canmodifyauditsettings',
-      },
-    };
-
     await window.dataverseAPI.execute({
       operationName: 'UpdateEntity',
       operationType: 'action',
       parameters: {
-        Entity: updatedMetadata,
-        SolutionUniqueName: '',
-        MergeLabels: true,
+        ...getMetadataUpdateParameters(options),
+        Entity: toAuditMetadataUpdate(entityMetadata, 'Microsoft.Dynamics.CRM.EntityMetadata', isEnabled),
       },
-    });
-
-    console.log('UpdateEntity action succeeded');
-    return;
+    }, options.connectionTarget);
   } catch (error) {
-    console.error('UpdateEntity action failed:', error);
-
-    // Approach 2: Try using update method directly on EntityDefinitions
-    // (This likely won't work as it uses PATCH, but let's log the error)
-    try {
-      console.log('Attempting direct update on EntityDefinitions...');
-
-      await window.dataverseAPI.update(
-        'EntityDefinition',
-        metadataId,
-        {
-          IsAuditEnabled: {
-            Value: isEnabled,
-            CanBeChanged: true,
-            ManagedPropertyLogicalName: 'canmodifyauditsettings',
-          },
-        }
-      );
-
-      console.log('Direct update succeeded');
-      return;
-    } catch (error2) {
-      console.error('Direct update failed:', error2);
-    }
-
-    // Both approaches failed
     const err = error as Error;
-    const message = err.message || JSON.stringify(error) || String(error);
-    throw new Error(`Cannot update entity metadata. The PPTB API may not support metadata updates. Error: ${message}`);
+    const message = err.message || String(error);
+    throw new Error(`Failed to update audit for ${logicalName}: ${message}`);
   }
 }
 
 export async function bulkUpdateTableAudit(
   tables: TableAuditInfo[],
-  isEnabled: boolean
+  isEnabled: boolean,
+  options: MetadataUpdateOptions = {}
 ): Promise<BulkOperationResult> {
   const result: BulkOperationResult = {
     success: 0,
@@ -205,11 +283,13 @@ export async function bulkUpdateTableAudit(
 
   for (const table of tables) {
     try {
-      await updateTableAuditEnabled(table.logicalName, isEnabled);
+      await updateTableAuditEnabled(table.logicalName, isEnabled, options);
       result.success++;
+      options.onItemComplete?.(table.logicalName, true);
     } catch (error) {
       result.failed++;
       result.errors.push(`${table.displayName}: ${(error as Error).message}`);
+      options.onItemComplete?.(table.logicalName, false);
     }
   }
 
@@ -219,7 +299,8 @@ export async function bulkUpdateTableAudit(
 // ============ Attribute Audit ============
 
 export async function getAttributesForTable(
-  entityLogicalName: string
+  entityLogicalName: string,
+  connectionTarget?: ConnectionTarget
 ): Promise<AttributeAuditInfo[]> {
   const result = await window.dataverseAPI.getEntityRelatedMetadata(
     entityLogicalName,
@@ -231,7 +312,8 @@ export async function getAttributesForTable(
       'AttributeType',
       'IsAuditEnabled',
       'CanModifyAdditionalSettings',
-    ]
+    ],
+    connectionTarget
   );
 
   // Result has .value property containing the array of attributes
@@ -270,15 +352,23 @@ export async function getAttributesForTable(
     );
 }
 
+/**
+ * Enable or disable auditing for a column through UpdateAttribute
+ * The full attribute metadata is retrieved first, as UpdateAttribute replaces the definition.
+ * Customizations are not published here; callers publish once after a batch.
+ */
 export async function updateAttributeAuditEnabled(
   entityLogicalName: string,
   attributeLogicalName: string,
-  isEnabled: boolean
+  isEnabled: boolean,
+  options: MetadataUpdateOptions = {}
 ): Promise<void> {
   // Get the full attribute metadata
   const attrResult = await window.dataverseAPI.getEntityRelatedMetadata(
     entityLogicalName,
     `Attributes(LogicalName='${attributeLogicalName}')` as 'Attributes',
+    undefined,
+    options.connectionTarget
   );
 
   const attribute = attrResult as Record<string, unknown>;
@@ -287,28 +377,24 @@ export async function updateAttributeAuditEnabled(
     throw new Error(`Attribute ${attributeLogicalName} not found on ${entityLogicalName}`);
   }
 
-  // Update the IsAuditEnabled property on the attribute
-  const updatedAttribute = {
-    ...attribute,
-    '@odata.type': attribute['@odata.type'] || `Microsoft.Dynamics.CRM.${attribute.AttributeType}AttributeMetadata`,
-    IsAuditEnabled: {
-      Value: isEnabled,
-      CanBeChanged: true,
-      ManagedPropertyLogicalName: 'canmodifyauditsettings',
-    },
-  };
+  if (!canModifyAdditionalSettings(attribute)) {
+    throw new Error(`Audit settings of ${attributeLogicalName} are managed and cannot be changed`);
+  }
 
   try {
     await window.dataverseAPI.execute({
       operationName: 'UpdateAttribute',
       operationType: 'action',
       parameters: {
+        ...getMetadataUpdateParameters(options),
         EntityLogicalName: entityLogicalName,
-        Attribute: updatedAttribute,
-        SolutionUniqueName: '',
-        MergeLabels: true,
+        Attribute: toAuditMetadataUpdate(
+          attribute,
+          `Microsoft.Dynamics.CRM.${attribute.AttributeType}AttributeMetadata`,
+          isEnabled
+        ),
       },
-    });
+    }, options.connectionTarget);
   } catch (error) {
     const err = error as Error;
     const message = err.message || String(error);
@@ -319,7 +405,8 @@ export async function updateAttributeAuditEnabled(
 export async function bulkUpdateAttributeAudit(
   entityLogicalName: string,
   attributes: AttributeAuditInfo[],
-  isEnabled: boolean
+  isEnabled: boolean,
+  options: MetadataUpdateOptions = {}
 ): Promise<BulkOperationResult> {
   const result: BulkOperationResult = {
     success: 0,
@@ -329,11 +416,13 @@ export async function bulkUpdateAttributeAudit(
 
   for (const attr of attributes) {
     try {
-      await updateAttributeAuditEnabled(entityLogicalName, attr.logicalName, isEnabled);
+      await updateAttributeAuditEnabled(entityLogicalName, attr.logicalName, isEnabled, options);
       result.success++;
+      options.onItemComplete?.(attr.logicalName, true);
     } catch (error) {
       result.failed++;
       result.errors.push(`${attr.displayName}: ${(error as Error).message}`);
+      options.onItemComplete?.(attr.logicalName, false);
     }
   }
 
@@ -342,6 +431,9 @@ export async function bulkUpdateAttributeAudit(
 
 // ============ Publishing ============
 
-export async function publishCustomizations(entityLogicalName?: string): Promise<void> {
-  await window.dataverseAPI.publishCustomizations(entityLogicalName);
+export async function publishCustomizations(
+  entityLogicalName?: string,
+  connectionTarget?: ConnectionTarget
+): Promise<void> {
+  await window.dataverseAPI.publishCustomizations(entityLogicalName, connectionTarget);
 }
@@ -0,0 +1,247 @@
+/**
+ * Audit baseline: versioned JSON snapshot of the organization, table and column audit flags,
+ * used to keep the audit configuration of several environments identical
+ */
+
+import {
+  AUDIT_BASELINE_VERSION,
+  AuditBaseline,
+  AttributeAuditInfo,
+  AuditBaselineTable,
+  AuditDriftItem,
+  AuditDriftReport,
+  ChangeSetProgress,
+} from '../model/audit';
+import { ExportResult } from '../model/export';
+import {
+  getOrganizationAuditSettings,
+  getAllTablesWithAuditInfo,
+  getAttributesForTable,
+} from './auditService';
+import {
+  ORGANIZATION_AUDIT_SETTINGS,
+  createAttributeChange,
+  createOrganizationChange,
+  createTableChange,
+} from './changeSetService';
+
+/**
+ * Snapshot the audit configuration of the current environment
+ * Columns are loaded table by table, so this takes a while on large environments.
+ * @param onProgress - Called before each table's columns are loaded
+ * @throws Error when the columns of a table could not be loaded, rather than saving it without columns
+ */
+export async function buildAuditBaseline(
+  onProgress?: (progress: ChangeSetProgress) => void
+): Promise<AuditBaseline> {
+  const [organization, tables] = await Promise.all([
+    getOrganizationAuditSettings(),
+    getAllTablesWithAuditInfo(),
+  ]);
+
+  let environment: string | undefined;
+  try {
+    const connection = await window.toolboxAPI.connections.getActiveConnection();
+    environment = connection?.url || connection?.name;
+  } catch (error) {
+    console.warn('[BaselineService] Could not read the active connection:', error);
+  }
+
+  const baselineTables: AuditBaselineTable[] = [];
+  const failedTables: string[] = [];
+  for (let i = 0; i < tables.length; i++) {
+    const table = tables[i];
+    onProgress?.({ completed: i, total: tables.length, current: table.logicalName });
+    try {
+      baselineTables.push({ ...table, attributes: await getAttributesForTable(table.logicalName) });
+    } catch (error) {
+      console.error(`[BaselineService] Failed to get attributes for ${table.logicalName}:`, error);
+      failedTables.push(table.logicalName);
+    }
+  }
+
+  if (failedTables.length > 0) {
+    throw new Error(`Could not load the columns of ${failedTables.length} table(s): ${failedTables.join(', ')}`);
+  }
+
+  return {
+    version: AUDIT_BASELINE_VERSION,
+    createdOn: new Date().toISOString(),
+    environment,
+    organization: {
+      isAuditEnabled: organization.isAuditEnabled,
+      isUserAccessAuditEnabled: organization.isUserAccessAuditEnabled,
+      auditRetentionPeriodV2: organization.auditRetentionPeriodV2,
+    },
+    tables: baselineTables,
+  };
+}
+
+/**
+ * Save a baseline as JSON using toolbox file system API
+ */
+export async function exportAuditBaseline(baseline: AuditBaseline): Promise<ExportResult> {
+  try {
+    const timestamp = new Date().toISOString().slice(0, 10);
+    const savedPath = await window.toolboxAPI.fileSystem.saveFile(
+      `audit-baseline-${timestamp}.json`,
+      JSON.stringify(baseline, null, 2)
+    );
+
+    if (!savedPath) {
+      // User cancelled the save dialog
+      return { success: false, error: 'Export cancelled' };
+    }
+
+    return { success: true, filename: savedPath };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
+/**
+ * Parse and validate the content of a baseline file
+ * @throws Error when the content is not a supported audit baseline
+ */
+export function parseAuditBaseline(content: string): AuditBaseline {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const baseline = parsed as Partial<AuditBaseline>;
+  if (!baseline || typeof baseline !== 'object' || typeof baseline.version !== 'number') {
+    throw new Error('The file is not an audit baseline');
+  }
+  if (baseline.version > AUDIT_BASELINE_VERSION) {
+    throw new Error(`Baseline version ${baseline.version} is not supported by this version of the tool`);
+  }
+  if (!baseline.organization || !Array.isArray(baseline.tables)) {
+    throw new Error('The baseline is missing its organization or table settings');
+  }
+
+  return {
+    ...baseline,
+    tables: baseline.tables.map(t => ({ ...t, attributes: Array.isArray(t.attributes) ? t.attributes : [] })),
+  } as AuditBaseline;
+}
+
+/**
+ * Let the user pick a baseline file and read it
+ * @returns The baseline, or null when the dialog was cancelled
+ */
+export async function importAuditBaseline(): Promise<AuditBaseline | null> {
+  const path = await window.toolboxAPI.fileSystem.selectPath({
+    type: 'file',
+    title: 'Select audit baseline',
+    filters: [{ name: 'Audit baseline', extensions: ['json'] }],
+  });
+
+  if (!path) {
+    return null;
+  }
+
+  return parseAuditBaseline(await window.toolboxAPI.fileSystem.readText(path));
+}
+
+/**
+ * Compare the current environment with a baseline
+ * Only components present in both are compared; components missing here are listed separately.
+ * Tables whose columns fail to load are listed instead of aborting the comparison.
+ * @param baseline - Baseline to compare with
+ * @param onProgress - Called before each table's columns are loaded
+ */
+export async function compareWithBaseline(
+  baseline: AuditBaseline,
+  onProgress?: (progress: ChangeSetProgress) => void
+): Promise<AuditDriftReport> {
+  const [organization, tables] = await Promise.all([
+    getOrganizationAuditSettings(),
+    getAllTablesWithAuditInfo(),
+  ]);
+  const tableMap = new Map(tables.map(t => [t.logicalName, t]));
+
+  const report: AuditDriftReport = {
+    baseline,
+    items: [],
+    missingTables: [],
+    missingAttributes: [],
+    failedTables: [],
+  };
+
+  for (const setting of ORGANIZATION_AUDIT_SETTINGS) {
+    const baselineValue = baseline.organization[setting];
+    if (typeof baselineValue === 'boolean' && baselineValue !== organization[setting]) {
+      report.items.push({
+        change: createOrganizationChange(organization, setting, baselineValue),
+        canModify: true,
+      });
+    }
+  }
+
+  const baselineRetention = baseline.organization.auditRetentionPeriodV2;
+  if (baselineRetention !== undefined && baselineRetention !== organization.auditRetentionPeriodV2) {
+    report.retentionPeriod = { current: organization.auditRetentionPeriodV2, baseline: baselineRetention };
+  }
+
+  for (let i = 0; i < baseline.tables.length; i++) {
+    const baselineTable = baseline.tables[i];
+    onProgress?.({ completed: i, total: baseline.tables.length, current: baselineTable.logicalName });
+
+    const table = tableMap.get(baselineTable.logicalName);
+    if (!table) {
+      report.missingTables.push(baselineTable.logicalName);
+      continue;
+    }
+
+    if (table.isAuditEnabled !== baselineTable.isAuditEnabled) {
+      report.items.push({
+        change: createTableChange(table, baselineTable.isAuditEnabled),
+        canModify: table.canModifyAuditSettings,
+      });
+    }
+
+    if (baselineTable.attributes.length === 0) continue;
+
+    let attributes: AttributeAuditInfo[];
+    try {
+      attributes = await getAttributesForTable(table.logicalName);
+    } catch (error) {
+      console.error(`[BaselineService] Failed to get attributes for ${table.logicalName}:`, error);
+      report.failedTables.push(table.logicalName);
+      continue;
+    }
+    const attributeMap = new Map(attributes.map(a => [a.logicalName, a]));
+    for (const baselineAttribute of baselineTable.attributes) {
+      const attribute = attributeMap.get(baselineAttribute.logicalName);
+      if (!attribute) {
+        report.missingAttributes.push(`${table.logicalName}.${baselineAttribute.logicalName}`);
+      } else if (attribute.isAuditEnabled !== baselineAttribute.isAuditEnabled) {
+        report.items.push({
+          change: createAttributeChange(table.logicalName, attribute, baselineAttribute.isAuditEnabled),
+          canModify: attribute.canModifyAuditSettings,
+        });
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Split drift items into settings enabled here but not in the baseline, and the reverse
+ */
+export function splitDriftItems(items: AuditDriftItem[]): {
+  enabledHere: AuditDriftItem[];
+  enabledInBaseline: AuditDriftItem[];
+} {
+  return {
+    enabledHere: items.filter(i => i.change.before && !i.change.after),
+    enabledInBaseline: items.filter(i => !i.change.before && i.change.after),
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Staged audit configuration: applies queued organization, table and column audit flags in one run
+ * and keeps the applied change sets so they can be rolled back
+ */
+
+import type {
+  AuditConfigChange,
+  AppliedChangeSet,
+  AttributeAuditInfo,
+  BulkOperationResult,
+  ChangeSetProgress,
+  ConnectionTarget,
+  OrganizationAuditSetting,
+  OrganizationAuditSettings,
+  TableAuditInfo,
+} from '../model/audit';
+import {
+  bulkUpdateTableAudit,
+  bulkUpdateAttributeAudit,
+  publishCustomizations,
+  updateOrganizationAuditEnabled,
+  updateOrganizationUserAccessAuditEnabled,
+} from './auditService';
+
+// Tool setting holding the applied change sets
+const APPLIED_CHANGE_SETS_KEY = 'appliedChangeSets';
+const MAX_APPLIED_CHANGE_SETS = 20;
+
+const ORGANIZATION_SETTING_LABELS: Record<OrganizationAuditSetting, string> = {
+  isAuditEnabled: 'Organization auditing',
+  isUserAccessAuditEnabled: 'User access auditing',
+};
+
+export const ORGANIZATION_AUDIT_SETTINGS = Object.keys(ORGANIZATION_SETTING_LABELS) as OrganizationAuditSetting[];
+
+// Outcome of applying a list of changes
+export interface ApplyChangesResult {
+  result: BulkOperationResult;
+  appliedChanges: AuditConfigChange[];
+}
+
+export function getTableChangeKey(logicalName: string): string {
+  return `table:${logicalName}`;
+}
+
+export function getAttributeChangeKey(entityLogicalName: string, attributeLogicalName: string): string {
+  return `attribute:${entityLogicalName}:${attributeLogicalName}`;
+}
+
+export function createOrganizationChange(
+  settings: OrganizationAuditSettings,
+  setting: OrganizationAuditSetting,
+  after: boolean
+): AuditConfigChange {
+  return {
+    key: `organization:${setting}`,
+    scope: 'organization',
+    label: ORGANIZATION_SETTING_LABELS[setting],
+    before: settings[setting],
+    after,
+    organizationId: settings.organizationId,
+    organizationSetting: setting,
+  };
+}
+
+export function createTableChange(table: TableAuditInfo, after: boolean): AuditConfigChange {
+  return {
+    key: getTableChangeKey(table.logicalName),
+    scope: 'table',
+    label: table.displayName,
+    before: table.isAuditEnabled,
+    after,
+    table,
+    entityLogicalName: table.logicalName,
+  };
+}
+
+export function createAttributeChange(
+  entityLogicalName: string,
+  attribute: AttributeAuditInfo,
+  after: boolean
+): AuditConfigChange {
+  return {
+    key: getAttributeChangeKey(entityLogicalName, attribute.logicalName),
+    scope: 'attribute',
+    label: attribute.displayName,
+    before: attribute.isAuditEnabled,
+    after,
+    entityLogicalName,
+    attribute,
+  };
+}
+
+/**
+ * Swap before and after of each change, producing the changes that undo them
+ */
+export function invertChanges(changes: AuditConfigChange[]): AuditConfigChange[] {
+  return changes.map(change => ({ ...change, before: change.after, after: change.before }));
+}
+
+function mergeResult(target: BulkOperationResult, source: BulkOperationResult): void {
+  target.success += source.success;
+  target.failed += source.failed;
+  target.errors.push(...source.errors);
+}
+
+/**
+ * Apply staged changes in one run
+ * Organization auditing is switched on before and off after the table and column changes.
+ * Table and column changes go through the bulk updates, grouped by target value (and table for
+ * columns), and customizations are published once at the end.
+ * @param changes - Changes to apply
+ * @param solutionUniqueName - Unmanaged solution that table and column changes are added to
+ * @param onProgress - Called as changes complete
+ * @param connectionTarget - Connection the changes are written to
+ */
+export async function applyAuditChanges(
+  changes: AuditConfigChange[],
+  solutionUniqueName: string | undefined,
+  onProgress?: (progress: ChangeSetProgress) => void,
+  connectionTarget?: ConnectionTarget
+): Promise<ApplyChangesResult> {
+  console.log('[ChangeSetService] Applying', changes.length, 'changes', connectionTarget ? `to ${connectionTarget}` : '');
+
+  const result: BulkOperationResult = {
+    success: 0,
+    failed: 0,
+    errors: [],
+  };
+  const appliedChanges: AuditConfigChange[] = [];
+  let completed = 0;
+
+  const report = (current?: string) => {
+    onProgress?.({ completed, total: changes.length, current });
+  };
+
+  const applyOrganizationChange = async (change: AuditConfigChange) => {
+    report(change.label);
+    try {
+      if (change.organizationSetting === 'isUserAccessAuditEnabled') {
+        await updateOrganizationUserAccessAuditEnabled(change.organizationId || '', change.after, connectionTarget);
+      } else {
+        await updateOrganizationAuditEnabled(change.organizationId || '', change.after, connectionTarget);
+      }
+      result.success++;
+      appliedChanges.push(change);
+    } catch (error) {
+      result.failed++;
+      result.errors.push(`${change.label}: ${(error as Error).message}`);
+    }
+    completed++;
+    report();
+  };
+
+  const organizationChanges = changes.filter(c => c.scope === 'organization');
+
+  for (const change of organizationChanges.filter(c => c.after)) {
+    await applyOrganizationChange(change);
+  }
+
+  for (const isEnabled of [true, false]) {
+    const tableChanges = changes.filter(c => c.scope === 'table' && c.table && c.after === isEnabled);
+    if (tableChanges.length === 0) continue;
+
+    report(`${isEnabled ? 'Enabling' : 'Disabling'} audit on ${tableChanges.length} tables`);
+    const bulkResult = await bulkUpdateTableAudit(
+      tableChanges.map(c => c.table as TableAuditInfo),
+      isEnabled,
+      {
+        solutionUniqueName,
+        connectionTarget,
+        onItemComplete: (logicalName, succeeded) => {
+          const change = tableChanges.find(c => c.table?.logicalName === logicalName);
+          if (succeeded && change) appliedChanges.push(change);
+          completed++;
+          report(logicalName);
+        },
+      }
+    );
+    mergeResult(result, bulkResult);
+  }
+
+  // Group column changes per table and target value
+  const attributeGroups = new Map<string, AuditConfigChange[]>();
+  for (const change of changes.filter(c => c.scope === 'attribute' && c.attribute && c.entityLogicalName)) {
+    const groupKey = `${change.entityLogicalName}|${change.after}`;
+    const group = attributeGroups.get(groupKey) || [];
+    group.push(change);
+    attributeGroups.set(groupKey, group);
+  }
+
+  for (const group of attributeGroups.values()) {
+    const { entityLogicalName, after } = group[0];
+    report(`${after ? 'Enabling' : 'Disabling'} audit on ${group.length} columns of ${entityLogicalName}`);
+    const bulkResult = await bulkUpdateAttributeAudit(
+      entityLogicalName as string,
+      group.map(c => c.attribute as AttributeAuditInfo),
+      after,
+      {
+        solutionUniqueName,
+        connectionTarget,
+        onItemComplete: (logicalName, succeeded) => {
+          const change = group.find(c => c.attribute?.logicalName === logicalName);
+          if (succeeded && change) appliedChanges.push(change);
+          completed++;
+          report(`${entityLogicalName}.${logicalName}`);
+        },
+      }
+    );
+    mergeResult(result, bulkResult);
+  }
+
+  for (const change of organizationChanges.filter(c => !c.after)) {
+    await applyOrganizationChange(change);
+  }
+
+  // Publish once for the whole change set
+  const publishedEntities = new Set(
+    appliedChanges.filter(c => c.scope !== 'organization').map(c => c.entityLogicalName as string)
+  );
+  if (publishedEntities.size > 0) {
+    report('Publishing customizations');
+    try {
+      await publishCustomizations(
+        publishedEntities.size === 1 ? [...publishedEntities][0] : undefined,
+        connectionTarget
+      );
+    } catch (pubErr) {
+      console.error('[ChangeSetService] Failed to publish customizations:', pubErr);
+      result.errors.push(`Publish: ${(pubErr as Error).message}`);
+    }
+  }
+
+  report();
+  return { result, appliedChanges };
+}
+
+// ============ Applied Change Sets ============
+
+export async function getAppliedChangeSets(): Promise<AppliedChangeSet[]> {
+  try {
+    const stored = await window.toolboxAPI.settings.get(APPLIED_CHANGE_SETS_KEY);
+    return Array.isArray(stored) ? stored as AppliedChangeSet[] : [];
+  } catch (error) {
+    console.error('[ChangeSetService] Error loading applied change sets:', error);
+    return [];
+  }
+}
+
+async function saveAppliedChangeSets(changeSets: AppliedChangeSet[]): Promise<void> {
+  await window.toolboxAPI.settings.set(
+    APPLIED_CHANGE_SETS_KEY,
+    changeSets.slice(0, MAX_APPLIED_CHANGE_SETS)
+  );
+}
+
+/**
+ * Normalize an environment URL so connections to the same environment compare equal
+ */
+export function getEnvironmentKey(url: string | undefined): string {
+  return (url || '').trim().toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * Store an applied change set, newest first
+ * @param connection - Connection the change set was applied to
+ * @returns The updated list of applied change sets
+ */
+export async function recordAppliedChangeSet(
+  outcome: ApplyChangesResult,
+  solutionUniqueName: string | undefined,
+  connection: ToolBoxAPI.DataverseConnection
+): Promise<AppliedChangeSet[]> {
+  const changeSet: AppliedChangeSet = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    appliedOn: new Date().toISOString(),
+    environmentUrl: connection.url,
+    environmentName: connection.name,
+    solutionUniqueName,
+    changes: outcome.appliedChanges,
+    result: outcome.result,
+  };
+
+  const changeSets = [changeSet, ...(await getAppliedChangeSets())];
+  await saveAppliedChangeSets(changeSets);
+  return changeSets;
+}
+
+/**
+ * Roll back an applied change set by applying its inverted changes
+ * The change set is only marked as rolled back when every change was undone; otherwise it can be retried.
+ * @throws Error when the active connection is not the environment the change set was applied to
+ */
+export async function rollbackChangeSet(
+  changeSet: AppliedChangeSet,
+  onProgress?: (progress: ChangeSetProgress) => void
+): Promise<{ outcome: ApplyChangesResult; changeSets: AppliedChangeSet[] }> {
+  const connection = await window.toolboxAPI.connections.getActiveConnection();
+  if (!connection || getEnvironmentKey(connection.url) !== getEnvironmentKey(changeSet.environmentUrl)) {
+    throw new Error(
+      `This change set was applied to ${changeSet.environmentName || changeSet.environmentUrl || 'another environment'}. Connect to it to roll back.`
+    );
+  }
+
+  const outcome = await applyAuditChanges(
+    invertChanges(changeSet.changes),
+    changeSet.solutionUniqueName,
+    onProgress
+  );
+
+  let changeSets = await getAppliedChangeSets();
+  if (outcome.result.failed === 0) {
+    changeSets = changeSets.map(s =>
+      s.id === changeSet.id ? { ...s, rolledBackOn: new Date().toISOString() } : s
+    );
+    await saveAppliedChangeSets(changeSets);
+  }
+
+  return { outcome, changeSets };
+}
@@ -0,0 +1,138 @@
+/**
+ * Cross-environment comparison of table and column audit settings
+ * Sides are loaded from the primary or secondary connection, or from a baseline file.
+ */
+
+import type {
+  AttributeAuditInfo,
+  AuditBaseline,
+  AuditConfigChange,
+  AuditSettingsSide,
+  ConnectionTarget,
+  TableAuditInfo,
+} from '../model/audit';
+import {
+  getOrganizationAuditSettings,
+  getAllTablesWithAuditInfo,
+  getAttributesForTable,
+} from './auditService';
+import {
+  ORGANIZATION_AUDIT_SETTINGS,
+  createAttributeChange,
+  createOrganizationChange,
+  createTableChange,
+} from './changeSetService';
+
+/**
+ * Load the audit settings of a live connection
+ * @throws Error when the secondary connection is requested but none is selected
+ */
+export async function loadConnectionSide(connectionTarget: ConnectionTarget): Promise<AuditSettingsSide> {
+  const connection = connectionTarget === 'secondary'
+    ? await window.toolboxAPI.connections.getSecondaryConnection()
+    : await window.toolboxAPI.connections.getActiveConnection();
+
+  if (!connection) {
+    throw new Error(connectionTarget === 'secondary'
+      ? 'No secondary connection is selected. Select one in Power Platform Toolbox to compare environments.'
+      : 'No active connection');
+  }
+
+  const [organization, tables] = await Promise.all([
+    getOrganizationAuditSettings(connectionTarget),
+    getAllTablesWithAuditInfo(connectionTarget),
+  ]);
+
+  return {
+    label: connection.name || connection.url,
+    connectionTarget,
+    organization,
+    tables,
+  };
+}
+
+/**
+ * Use a baseline file as one side of the comparison
+ */
+export function loadBaselineSide(baseline: AuditBaseline): AuditSettingsSide {
+  return {
+    label: `Baseline ${new Date(baseline.createdOn).toLocaleDateString()}${baseline.environment ? ` (${baseline.environment})` : ''}`,
+    organization: { organizationId: '', ...baseline.organization },
+    tables: baseline.tables,
+    baseline,
+  };
+}
+
+/**
+ * Get the column audit settings of a table on one side
+ */
+export async function getSideAttributes(
+  side: AuditSettingsSide,
+  entityLogicalName: string
+): Promise<AttributeAuditInfo[]> {
+  if (side.baseline) {
+    return side.baseline.tables.find(t => t.logicalName === entityLogicalName)?.attributes || [];
+  }
+  return getAttributesForTable(entityLogicalName, side.connectionTarget);
+}
+
+/**
+ * Map logical names to audit flags, for the comparison columns of the lists
+ */
+export function toComparisonValues(items: Array<TableAuditInfo | AttributeAuditInfo>): Map<string, boolean> {
+  return new Map(items.map(i => [i.logicalName, i.isAuditEnabled]));
+}
+
+/**
+ * Build the changes that align the target organization flags with the source
+ */
+export function getOrganizationAlignmentChanges(
+  source: AuditSettingsSide,
+  target: AuditSettingsSide
+): AuditConfigChange[] {
+  return ORGANIZATION_AUDIT_SETTINGS
+    .filter(setting => source.organization[setting] !== target.organization[setting])
+    .map(setting => createOrganizationChange(target.organization, setting, source.organization[setting]));
+}
+
+/**
+ * Build the changes that align target tables with the source
+ * Tables missing on the target or locked by managed properties are skipped.
+ * @param logicalNames - Only align these tables (all when omitted)
+ */
+export function getTableAlignmentChanges(
+  sourceTables: TableAuditInfo[],
+  targetTables: TableAuditInfo[],
+  logicalNames?: string[]
+): AuditConfigChange[] {
+  const targetMap = new Map(targetTables.map(t => [t.logicalName, t]));
+  return sourceTables
+    .filter(t => !logicalNames || logicalNames.includes(t.logicalName))
+    .flatMap(source => {
+      const target = targetMap.get(source.logicalName);
+      return target && target.canModifyAuditSettings && target.isAuditEnabled !== source.isAuditEnabled
+        ? [createTableChange(target, source.isAuditEnabled)]
+        : [];
+    });
+}
+
+/**
+ * Build the changes that align the target columns of a table with the source
+ * @param logicalNames - Only align these columns (all when omitted)
+ */
+export function getAttributeAlignmentChanges(
+  entityLogicalName: string,
+  sourceAttributes: AttributeAuditInfo[],
+  targetAttributes: AttributeAuditInfo[],
+  logicalNames?: string[]
+): AuditConfigChange[] {
+  const targetMap = new Map(targetAttributes.map(a => [a.logicalName, a]));
+  return sourceAttributes
+    .filter(a => !logicalNames || logicalNames.includes(a.logicalName))
+    .flatMap(source => {
+      const target = targetMap.get(source.logicalName);
+      return target && target.canModifyAuditSettings && target.isAuditEnabled !== source.isAuditEnabled
+        ? [createAttributeChange(entityLogicalName, target, source.isAuditEnabled)]
+        : [];
+    });
+}
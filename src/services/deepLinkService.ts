@@ -0,0 +1,164 @@
+/**
+ * Shareable links to an audit log explorer view or a single audit entry
+ *
+ * A link is a compact token: a prefix followed by base64url-encoded JSON. Only filters that
+ * differ from their defaults are written, and relative date ranges stay relative.
+ */
+
+import {
+  AuditFiltersState,
+  AuditViewLink,
+  SortState,
+  initialFiltersState,
+  initialSortState,
+} from '../model/auditLog';
+import type { AuditTabType } from '../model/export';
+import { relativeDateOptions } from '../utils/constants';
+
+const LINK_PREFIX = 'audit-view:';
+const LINK_VERSION = 1;
+
+const AUDIT_TABS: AuditTabType[] = ['details', 'shares', 'access', 'roles', 'metadata', 'relationships', 'auditchanges'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(isString);
+const isNumberArray = (value: unknown) => Array.isArray(value) && value.every(isNumber);
+const isNamedIdArray = (value: unknown) => Array.isArray(value) && value.every(item =>
+  !!item && typeof item === 'object' && isString((item as Record<string, unknown>).id) &&
+  isString((item as Record<string, unknown>).name));
+const isNullableString = (value: unknown) => value === null || isString(value);
+// Dates are written as ISO strings
+const isNullableDate = (value: unknown) => value === null || (isString(value) && !isNaN(new Date(value).getTime()));
+const isNullableRelativeDate = (value: unknown) => {
+  if (value === null) return true;
+  if (!value || typeof value !== 'object') return false;
+  const range = value as Record<string, unknown>;
+  return relativeDateOptions.some(o => o.value === range.operator) &&
+    (range.value === undefined || isNumber(range.value));
+};
+
+// Shape of each filter in a link; values that don't match (edited or damaged links) are dropped
+const FILTER_VALIDATORS: Record<keyof AuditFiltersState, (value: unknown) => boolean> = {
+  tableLogicalNames: isStringArray,
+  recordId: isNullableString,
+  recordName: isNullableString,
+  selectedAttributes: isStringArray,
+  selectedAttributeColumns: isNumberArray,
+  operations: isNumberArray,
+  actions: isNumberArray,
+  fromDate: isNullableDate,
+  toDate: isNullableDate,
+  relativeDate: isNullableRelativeDate,
+  selectedUsers: isNamedIdArray,
+  selectedBusinessUnits: isNamedIdArray,
+  selectedTeams: isNamedIdArray,
+  selectedUserRoles: isNamedIdArray,
+  selectedSecurityRoles: isNamedIdArray,
+  searchText: isString,
+  excludedTables: isStringArray,
+  excludedOperations: isNumberArray,
+  excludedActions: isNumberArray,
+  excludedUsers: isNamedIdArray,
+};
+
+// Token payload, with short keys to keep links small
+interface SerializedViewLink {
+  v: number;                                // Format version
+  t: AuditTabType;                          // Tab
+  f?: Record<string, unknown>;              // Filters that differ from the defaults
+  s?: SortState;                            // Sort, when not the default
+  p?: number;                               // Page number
+  z?: number;                               // Page size
+  d?: string;                               // Jump to date anchor (ISO)
+  a?: string;                               // Audit entry to open
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+/**
+ * Encode a view as a link token
+ */
+export function encodeAuditViewLink(link: AuditViewLink): string {
+  const filters: Record<string, unknown> = {};
+  for (const key of Object.keys(link.filters) as Array<keyof AuditFiltersState>) {
+    const value = link.filters[key];
+    if (JSON.stringify(value) === JSON.stringify(initialFiltersState[key])) continue;
+    filters[key] = value instanceof Date ? value.toISOString() : value;
+  }
+
+  const payload: SerializedViewLink = { v: LINK_VERSION, t: link.tab };
+  if (Object.keys(filters).length > 0) payload.f = filters;
+  if (link.sort.column !== initialSortState.column || link.sort.direction !== initialSortState.direction) {
+    payload.s = link.sort;
+  }
+  if (link.pageNumber && link.pageNumber > 1) payload.p = link.pageNumber;
+  if (link.pageSize) payload.z = link.pageSize;
+  if (link.anchorDate) payload.d = link.anchorDate;
+  if (link.auditId) payload.a = link.auditId;
+
+  return LINK_PREFIX + toBase64Url(JSON.stringify(payload));
+}
+
+/**
+ * Decode a link token
+ * @throws Error when the token is not a valid audit log link
+ */
+export function decodeAuditViewLink(token: string): AuditViewLink {
+  const trimmed = token.trim();
+  if (!trimmed.startsWith(LINK_PREFIX)) {
+    throw new Error('This is not an audit log link');
+  }
+
+  let payload: SerializedViewLink;
+  try {
+    payload = JSON.parse(fromBase64Url(trimmed.slice(LINK_PREFIX.length)));
+  } catch {
+    throw new Error('The audit log link is damaged or incomplete');
+  }
+
+  if (payload?.v !== LINK_VERSION || !AUDIT_TABS.includes(payload.t)) {
+    throw new Error('The audit log link was created by an unsupported version of the tool');
+  }
+
+  // Start from the defaults so links stay valid when new filters are added
+  const filters: AuditFiltersState = { ...initialFiltersState };
+  const serializedFilters = payload.f && typeof payload.f === 'object' ? payload.f : {};
+  for (const [key, value] of Object.entries(serializedFilters)) {
+    if (!Object.prototype.hasOwnProperty.call(FILTER_VALIDATORS, key)) continue;
+    const filterKey = key as keyof AuditFiltersState;
+    if (!FILTER_VALIDATORS[filterKey](value)) {
+      console.warn(`[DeepLinkService] Ignoring invalid value of filter ${key}`);
+      continue;
+    }
+    (filters as unknown as Record<string, unknown>)[key] =
+      (filterKey === 'fromDate' || filterKey === 'toDate') && isString(value) ? new Date(value) : value;
+  }
+
+  const sort = payload.s && (payload.s.column === null || isString(payload.s.column)) && (payload.s.direction === 'asc' || payload.s.direction === 'desc')
+    ? payload.s
+    : initialSortState;
+
+  return {
+    tab: payload.t,
+    filters,
+    sort,
+    pageNumber: isNumber(payload.p) ? payload.p : undefined,
+    pageSize: isNumber(payload.z) ? payload.z : undefined,
+    anchorDate: isString(payload.d) && isNullableDate(payload.d) ? payload.d : undefined,
+    auditId: isString(payload.a) ? payload.a : undefined,
+  };
+}
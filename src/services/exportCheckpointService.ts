@@ -0,0 +1,79 @@
+/**
+ * Checkpoint of a streamed export, stored in the tool settings so a failed or cancelled export
+ * can continue from its last written page
+ */
+
+import { AuditFiltersState, initialFiltersState } from '../model/auditLog';
+import type { AuditTabType, ExportCheckpoint, StreamExportFormat } from '../model/export';
+
+const EXPORT_CHECKPOINT_KEY = 'auditExportCheckpoint';
+
+// Filters holding dates; settings store them as ISO strings
+const DATE_FILTER_KEYS: Array<keyof AuditFiltersState> = ['fromDate', 'toDate'];
+
+/**
+ * Identify an export by what it writes, so a checkpoint is only resumed with the same query
+ */
+export function getExportSignature(
+  filters: AuditFiltersState,
+  format: StreamExportFormat,
+  includeDetails: boolean,
+  tabType: AuditTabType
+): string {
+  // Sort the filter keys so restored filters give the same signature
+  const sortedFilters = Object.fromEntries(
+    Object.keys(filters).sort().map(key => [key, filters[key as keyof AuditFiltersState]])
+  );
+  return JSON.stringify({ filters: sortedFilters, format, includeDetails, tabType });
+}
+
+/**
+ * Restore the filters of a checkpoint, turning ISO date strings back into dates
+ */
+export function getCheckpointFilters(checkpoint: ExportCheckpoint): AuditFiltersState {
+  const filters: AuditFiltersState = { ...initialFiltersState, ...checkpoint.filters };
+  for (const key of DATE_FILTER_KEYS) {
+    const value = filters[key] as unknown;
+    if (typeof value === 'string') {
+      (filters as unknown as Record<string, unknown>)[key] = new Date(value);
+    }
+  }
+  return filters;
+}
+
+/**
+ * Get the saved checkpoint, if an export was left unfinished
+ */
+export async function getExportCheckpoint(): Promise<ExportCheckpoint | null> {
+  try {
+    const stored = await window.toolboxAPI.settings.get(EXPORT_CHECKPOINT_KEY);
+    return stored && typeof stored === 'object' && stored.signature ? (stored as ExportCheckpoint) : null;
+  } catch (error) {
+    console.error('[ExportCheckpointService] Failed to load export checkpoint:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the checkpoint after a part of the export was written
+ */
+export async function saveExportCheckpoint(checkpoint: ExportCheckpoint): Promise<void> {
+  try {
+    // Dates go through JSON so settings always hold plain strings
+    await window.toolboxAPI.settings.set(EXPORT_CHECKPOINT_KEY, JSON.parse(JSON.stringify(checkpoint)));
+  } catch (error) {
+    // The export itself still succeeds; only resuming is lost
+    console.error('[ExportCheckpointService] Failed to save export checkpoint:', error);
+  }
+}
+
+/**
+ * Forget the checkpoint once the export has finished or is discarded
+ */
+export async function clearExportCheckpoint(): Promise<void> {
+  try {
+    await window.toolboxAPI.settings.set(EXPORT_CHECKPOINT_KEY, null);
+  } catch (error) {
+    console.error('[ExportCheckpointService] Failed to clear export checkpoint:', error);
+  }
+}
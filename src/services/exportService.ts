@@ -1,13 +1,33 @@
 import {
   AuditLogEntry,
   AuditDetail,
+  AuditFiltersState,
   AttributeAuditDetail,
   ShareAuditDetail,
   RolePrivilegeAuditDetail,
 } from '../model/auditLog';
-import { ExportOptions, ExportResult, AuditTabType } from '../model/export';
+import {
+  EXPORT_SCHEMA,
+  EXPORT_SCHEMA_VERSION,
+  EvidenceReportInfo,
+  ExportCheckpoint,
+  ExportColumn,
+  ExportedAuditEntry,
+  ExportFileHeader,
+  ExportFileJson,
+  ExportOptions,
+  ExportResult,
+  ExportSheetData,
+  AuditTabType,
+  StreamExportFormat,
+  StreamExportProgress,
+} from '../model/export';
 import { TableAuditInfo, AttributeAuditInfo } from '../model/audit';
-import { formatDateTime, escapeCSV } from '../utils/formatters';
+import { formatDateTime, formatRelativeDateRange, escapeCSV } from '../utils/formatters';
+import { getActionLabel, getOperationLabel } from '../utils/constants';
+import { buildXlsxWorkbook, XlsxCellValue, XlsxSheet } from '../utils/xlsxWriter';
+import { forEachAuditLogPage, getCachedDetails, loadAuditDetails, removeCachedDetails } from './auditLogService';
+import { clearExportCheckpoint, getExportSignature, saveExportCheckpoint } from './exportCheckpointService';
 
 // Table settings export options
 export type TableExportFormat = 'csv';
@@ -19,47 +39,92 @@ export interface TableExportOptions {
   auditEnabledOnly?: boolean;
 }
 
+// Column definitions shared by the tabs; widths are in pixels
+const COLUMNS: Record<string, ExportColumn> = {
+  createdOn: { key: 'createdOn', header: 'Date/Time', width: 150 },
+  operation: { key: 'operationLabel', header: 'Operation', width: 100 },
+  action: { key: 'actionLabel', header: 'Action', width: 150 },
+  table: { key: 'objectTypeCode', header: 'Table', width: 150 },
+  record: { key: 'objectName', header: 'Record', width: 200 },
+  object: { key: 'objectName', header: 'Object', width: 200 },
+  user: { key: 'objectName', header: 'User', width: 200 },
+  changedBy: { key: 'userName', header: 'Changed By', width: 150 },
+  sharedWith: { key: 'sharedWith', header: 'Shared With', width: 200 },
+  previousAccess: { key: 'previousAccess', header: 'Previous Access', width: 200 },
+  newAccess: { key: 'newAccess', header: 'New Access', width: 200 },
+  changeType: { key: 'changeType', header: 'Change Type', width: 100 },
+  privileges: { key: 'privileges', header: 'Privileges', width: 400 },
+  attribute: { key: 'attribute', header: 'Attribute', width: 150 },
+  oldValue: { key: 'oldValue', header: 'Old Value', width: 250 },
+  newValue: { key: 'newValue', header: 'New Value', width: 250 },
+};
+
+// Sheet names for the multi-sheet workbook
+const SHEET_NAMES: Record<AuditTabType, string> = {
+  details: 'Data Changes',
+  shares: 'Record Shares',
+  access: 'User Access',
+  roles: 'Role Changes',
+  metadata: 'Metadata Changes',
+  relationships: 'Relationship Changes',
+  auditchanges: 'Audit Setting Changes',
+};
+
+// Pixels per character of Excel's default font, for converting column widths
+const PIXELS_PER_CHARACTER = 7;
+
+// A cell of an export row; dates stay typed so spreadsheets get real date cells
+type ExportCellValue = string | Date;
+
+// Rows per file of a streamed export; larger exports continue in numbered part files
+// The part being filled is rewritten after every page, which keeps its size moderate
+const STREAM_ROWS_PER_FILE = 20000;
+
+// Audit entries whose details are requested at once during a streamed export
+const STREAM_DETAILS_BATCH_SIZE = 25;
+
 /**
- * Get column headers based on tab type
+ * Get columns based on tab type
  */
-function getHeadersForTab(tabType: AuditTabType, includeDetails: boolean): string[] {
+function getColumnsForTab(tabType: AuditTabType, includeDetails: boolean): ExportColumn[] {
+  const c = COLUMNS;
   switch (tabType) {
     case 'access':
       // User Access: Date/Time, Operation, Action, User (no details)
-      return ['Date/Time', 'Operation', 'Action', 'User'];
+      return [c.createdOn, c.operation, c.action, c.user];
     case 'shares':
       // Record Shares with sharing details
       return includeDetails
-        ? ['Date/Time', 'Operation', 'Action', 'Table', 'Record', 'Changed By', 'Shared With', 'Previous Access', 'New Access']
-        : ['Date/Time', 'Operation', 'Action', 'Table', 'Record', 'Changed By'];
+        ? [c.createdOn, c.operation, c.action, c.table, c.record, c.changedBy, c.sharedWith, c.previousAccess, c.newAccess]
+        : [c.createdOn, c.operation, c.action, c.table, c.record, c.changedBy];
     case 'roles':
       // Role Changes with privilege details
       return includeDetails
-        ? ['Date/Time', 'Operation', 'Action', 'Table', 'Record', 'Changed By', 'Change Type', 'Privileges']
-        : ['Date/Time', 'Operation', 'Action', 'Table', 'Record', 'Changed By'];
+        ? [c.createdOn, c.operation, c.action, c.table, c.record, c.changedBy, c.changeType, c.privileges]
+        : [c.createdOn, c.operation, c.action, c.table, c.record, c.changedBy];
     case 'metadata':
       // Metadata Changes
       return includeDetails
-        ? ['Date/Time', 'Operation', 'Action', 'Object', 'Changed By', 'Attribute', 'Old Value', 'New Value']
-        : ['Date/Time', 'Operation', 'Action', 'Object', 'Changed By'];
+        ? [c.createdOn, c.operation, c.action, c.object, c.changedBy, c.attribute, c.oldValue, c.newValue]
+        : [c.createdOn, c.operation, c.action, c.object, c.changedBy];
     case 'details':
     default:
       // Data Changes: attribute changes
       return includeDetails
-        ? ['Date/Time', 'Operation', 'Action', 'Table', 'Record', 'Changed By', 'Attribute', 'Old Value', 'New Value']
-        : ['Date/Time', 'Operation', 'Action', 'Table', 'Record', 'Changed By'];
+        ? [c.createdOn, c.operation, c.action, c.table, c.record, c.changedBy, c.attribute, c.oldValue, c.newValue]
+        : [c.createdOn, c.operation, c.action, c.table, c.record, c.changedBy];
   }
 }
 
 /**
  * Get base row data based on tab type
  */
-function getBaseRowForTab(entry: AuditLogEntry, tabType: AuditTabType): string[] {
+function getBaseRowForTab(entry: AuditLogEntry, tabType: AuditTabType): ExportCellValue[] {
   switch (tabType) {
     case 'access':
       // User Access: Date/Time, Operation, Action, User (objectName is the user)
       return [
-        formatDateTime(entry.createdOn),
+        entry.createdOn,
         entry.operationLabel,
         entry.actionLabel,
         entry.objectName,
@@ -70,7 +135,7 @@ function getBaseRowForTab(entry: AuditLogEntry, tabType: AuditTabType): string[]
     default:
       // Include Table column
       return [
-        formatDateTime(entry.createdOn),
+        entry.createdOn,
         entry.operationLabel,
         entry.actionLabel,
         entry.objectTypeCode,
@@ -79,7 +144,7 @@ function getBaseRowForTab(entry: AuditLogEntry, tabType: AuditTabType): string[]
       ];
     case 'metadata':
       return [
-        formatDateTime(entry.createdOn),
+        entry.createdOn,
         entry.operationLabel,
         entry.actionLabel,
         entry.objectName,
@@ -88,6 +153,84 @@ function getBaseRowForTab(entry: AuditLogEntry, tabType: AuditTabType): string[]
   }
 }
 
+/**
+ * Build the export rows for a tab, one row per change detail when details are included
+ */
+function buildExportRows(
+  entries: AuditLogEntry[],
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean,
+  tabType: AuditTabType
+): ExportCellValue[][] {
+  const rows: ExportCellValue[][] = [];
+
+  for (const entry of entries) {
+    const baseRow = getBaseRowForTab(entry, tabType);
+
+    if (!includeDetails) {
+      rows.push(baseRow);
+      continue;
+    }
+
+    const details = detailsMap.get(entry.id) || [];
+
+    // Handle different detail types based on tab
+    if (tabType === 'shares') {
+      const shareDetails = details.filter(d => d.type === 'share') as ShareAuditDetail[];
+      if (shareDetails.length === 0) {
+        rows.push([...baseRow, '', '', '']);
+      } else {
+        for (const detail of shareDetails) {
+          rows.push([
+            ...baseRow,
+            `${detail.principalName} (${detail.principalType})`,
+            detail.oldPrivileges || 'None',
+            detail.newPrivileges || 'None',
+          ]);
+        }
+      }
+    } else if (tabType === 'roles') {
+      const roleDetails = details.filter(d => d.type === 'rolePrivilege') as RolePrivilegeAuditDetail[];
+      if (roleDetails.length === 0) {
+        rows.push([...baseRow, '', '']);
+      } else {
+        for (const detail of roleDetails) {
+          // Summarize privilege changes
+          const oldCount = detail.oldRolePrivileges.length;
+          const newCount = detail.newRolePrivileges.length;
+          let changeType = 'Modified';
+          if (oldCount === 0 && newCount > 0) changeType = 'Added';
+          else if (oldCount > 0 && newCount === 0) changeType = 'Removed';
+
+          const privilegesSummary = detail.newRolePrivileges.length > 0
+            ? detail.newRolePrivileges.map(p => p.privilegeName || p.privilegeId).join('; ')
+            : detail.oldRolePrivileges.map(p => p.privilegeName || p.privilegeId).join('; ');
+
+          rows.push([...baseRow, changeType, privilegesSummary || '(none)']);
+        }
+      }
+    } else {
+      // Default: attribute details (for 'details' and 'metadata' tabs)
+      const attrDetails = details.filter(d => d.type === 'attribute') as AttributeAuditDetail[];
+
+      if (attrDetails.length === 0) {
+        rows.push([...baseRow, '', '', '']);
+      } else {
+        for (const detail of attrDetails) {
+          rows.push([
+            ...baseRow,
+            detail.attributeDisplayName,
+            detail.oldFormattedValue || detail.oldValue || '',
+            detail.newFormattedValue || detail.newValue || '',
+          ]);
+        }
+      }
+    }
+  }
+
+  return rows;
+}
+
 /**
  * Export audit logs to CSV format
  */
@@ -97,84 +240,646 @@ export function generateCSV(
   includeDetails: boolean,
   tabType: AuditTabType = 'details'
 ): string {
-  const lines: string[] = [];
-
   // For User Access tab, never include details
   const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
 
-  // Header row based on tab type
-  const headers = getHeadersForTab(tabType, shouldIncludeDetails);
-  lines.push(headers.map(escapeCSV).join(','));
+  const lines = [getCsvHeaderLine(tabType, shouldIncludeDetails)];
+  for (const row of buildExportRows(entries, detailsMap, shouldIncludeDetails, tabType)) {
+    lines.push(toCsvLine(row));
+  }
 
-  // Data rows
+  return lines.join('\n');
+}
+
+function getCsvHeaderLine(tabType: AuditTabType, includeDetails: boolean): string {
+  return getColumnsForTab(tabType, includeDetails).map(c => escapeCSV(c.header)).join(',');
+}
+
+function toCsvLine(row: ExportCellValue[]): string {
+  return row.map(v => escapeCSV(v instanceof Date ? formatDateTime(v) : String(v ?? ''))).join(',');
+}
+
+/**
+ * Build a worksheet for one audit tab
+ */
+function buildAuditSheet(
+  name: string,
+  entries: AuditLogEntry[],
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean,
+  tabType: AuditTabType
+): XlsxSheet {
+  const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
+  return {
+    name,
+    columns: getColumnsForTab(tabType, shouldIncludeDetails).map(col => ({
+      header: col.header,
+      width: col.width ? Math.round(col.width / PIXELS_PER_CHARACTER) : undefined,
+    })),
+    rows: buildExportRows(entries, detailsMap, shouldIncludeDetails, tabType),
+    freezeHeader: true,
+    autoFilter: true,
+  };
+}
+
+function joinNames(items: Array<{ name: string }>): string {
+  return items.map(i => i.name).join(', ');
+}
+
+/**
+ * Describe the applied filters as setting/value rows for the summary sheet
+ */
+function describeFilters(filters: AuditFiltersState | undefined, tabTypes: AuditTabType[]): XlsxCellValue[][] {
+  const rows: XlsxCellValue[][] = [
+    ['Exported', new Date()],
+    ['Audit category', tabTypes.map(t => SHEET_NAMES[t]).join(', ')],
+  ];
+  if (!filters) return rows;
+
+  let dateRange = 'Any date';
+  if (filters.relativeDate) {
+    dateRange = formatRelativeDateRange(filters.relativeDate);
+  } else if (filters.fromDate || filters.toDate) {
+    dateRange = `${filters.fromDate ? formatDateTime(filters.fromDate) : '…'} – ${filters.toDate ? formatDateTime(filters.toDate) : '…'}`;
+  }
+  rows.push(['Date range', dateRange]);
+
+  // Only list the filters that are set; operations and actions follow the category in multi-sheet mode
+  const optional: Array<[string, string]> = [
+    ['Tables', filters.tableLogicalNames.join(', ')],
+    ['Record', filters.recordName || filters.recordId || ''],
+    ['Changed columns', filters.selectedAttributes.join(', ')],
+    ['Users', joinNames(filters.selectedUsers)],
+    ['Business units', joinNames(filters.selectedBusinessUnits)],
+    ['Teams', joinNames(filters.selectedTeams)],
+    ['User security roles', joinNames(filters.selectedUserRoles)],
+    ['Security roles', joinNames(filters.selectedSecurityRoles)],
+    ['Change value search', filters.searchText.trim()],
+    ['Excluded tables', filters.excludedTables.join(', ')],
+    ['Excluded users', joinNames(filters.excludedUsers)],
+  ];
+  if (tabTypes.length === 1) {
+    optional.push(
+      ['Operations', filters.operations.map(getOperationLabel).join(', ')],
+      ['Actions', filters.actions.map(getActionLabel).join(', ')],
+      ['Excluded operations', filters.excludedOperations.map(getOperationLabel).join(', ')],
+      ['Excluded actions', filters.excludedActions.map(getActionLabel).join(', ')]
+    );
+  }
+  for (const [label, value] of optional) {
+    if (value) rows.push([label, value]);
+  }
+
+  return rows;
+}
+
+/**
+ * Build an XLSX workbook with a sheet per audit tab and a summary of the applied filters
+ */
+export function generateXLSX(
+  sheets: ExportSheetData[],
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean,
+  filters?: AuditFiltersState
+): Uint8Array {
+  const summary = describeFilters(filters, sheets.map(s => s.tabType));
+  for (const sheet of sheets) {
+    summary.push([`${SHEET_NAMES[sheet.tabType]} records`, sheet.entries.length]);
+  }
+
+  return buildXlsxWorkbook([
+    ...sheets.map(sheet =>
+      buildAuditSheet(SHEET_NAMES[sheet.tabType], sheet.entries, detailsMap, includeDetails, sheet.tabType)
+    ),
+    {
+      name: 'Filters',
+      columns: [
+        { header: 'Setting', width: 25 },
+        { header: 'Value', width: 80 },
+      ],
+      rows: summary,
+      freezeHeader: true,
+    },
+  ]);
+}
+
+function buildExportHeader(
+  recordCount: number,
+  includeDetails: boolean,
+  tabType: AuditTabType,
+  filters?: AuditFiltersState,
+  part?: number
+): ExportFileHeader {
+  return {
+    recordType: 'header',
+    schema: EXPORT_SCHEMA,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    tabType,
+    includeDetails,
+    recordCount,
+    part,
+    filters,
+  };
+}
+
+// Entry with its details as written to JSON; UI state is left out
+function toExportedEntry(
+  entry: AuditLogEntry,
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean
+): ExportedAuditEntry {
+  const { isExpanded: _isExpanded, details: _details, ...fields } = entry;
+  return {
+    recordType: 'entry',
+    ...fields,
+    ...(includeDetails ? { details: detailsMap.get(entry.id) || entry.details || [] } : {}),
+  };
+}
+
+/**
+ * Export audit logs as a JSON document: the schema header with an entries array
+ */
+export function generateJSON(
+  entries: AuditLogEntry[],
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean,
+  tabType: AuditTabType = 'details',
+  filters?: AuditFiltersState
+): string {
+  const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
+  const document: ExportFileJson = {
+    ...buildExportHeader(entries.length, shouldIncludeDetails, tabType, filters),
+    entries: entries.map(entry => toExportedEntry(entry, detailsMap, shouldIncludeDetails)),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Export audit logs as newline-delimited JSON: the schema header on the first line, then one entry per line
+ */
+export function generateNDJSON(
+  entries: AuditLogEntry[],
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean,
+  tabType: AuditTabType = 'details',
+  filters?: AuditFiltersState
+): string {
+  const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
+  const lines = [JSON.stringify(buildExportHeader(entries.length, shouldIncludeDetails, tabType, filters))];
   for (const entry of entries) {
-    const baseRow = getBaseRowForTab(entry, tabType);
+    lines.push(JSON.stringify(toExportedEntry(entry, detailsMap, shouldIncludeDetails)));
+  }
+  return lines.join('\n') + '\n';
+}
 
-    if (shouldIncludeDetails) {
-      const details = detailsMap.get(entry.id) || [];
-
-      // Handle different detail types based on tab
-      if (tabType === 'shares') {
-        const shareDetails = details.filter(d => d.type === 'share') as ShareAuditDetail[];
-        if (shareDetails.length === 0) {
-          lines.push([...baseRow, '', '', ''].map(escapeCSV).join(','));
-        } else {
-          for (const detail of shareDetails) {
-            lines.push([
-              ...baseRow,
-              `${detail.principalName} (${detail.principalType})`,
-              detail.oldPrivileges || 'None',
-              detail.newPrivileges || 'None',
-            ].map(v => escapeCSV(String(v ?? ''))).join(','));
-          }
+// Evidence report (self-contained HTML, printable to PDF)
+
+// Marks the hashed part of the report; the hash covers the UTF-8 text between the markers
+const EVIDENCE_START = '<!--evidence:start-->';
+const EVIDENCE_END = '<!--evidence:end-->';
+
+const REPORT_STYLES = `
+body { font-family: "Segoe UI", Arial, sans-serif; font-size: 12px; color: #242424; margin: 24px; }
+h1 { font-size: 24px; margin: 0 0 8px; }
+h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid #d1d1d1; padding-bottom: 4px; }
+h3 { font-size: 13px; margin: 12px 0 4px; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 8px; }
+th, td { border: 1px solid #d1d1d1; padding: 4px 8px; text-align: left; vertical-align: top; word-break: break-word; }
+th { background: #f5f5f5; font-weight: 600; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 0 0 8px; }
+dt { font-weight: 600; color: #616161; }
+dd { margin: 0; }
+pre { white-space: pre-wrap; word-break: break-word; background: #f5f5f5; padding: 8px; margin: 4px 0; }
+.cover { page-break-after: always; }
+.entry { border: 1px solid #d1d1d1; border-radius: 4px; padding: 8px 12px; margin-bottom: 12px; page-break-inside: avoid; }
+.old { color: #b10e1c; }
+.new { color: #0e700e; }
+.empty { color: #9e9e9e; font-style: italic; }
+.muted { color: #616161; }
+.hash { font-family: Consolas, monospace; word-break: break-all; }
+@media print { body { margin: 0; } .entry { break-inside: avoid; } }
+`;
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderDefinitionList(items: Array<[string, unknown]>): string {
+  return `<dl>${items.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>`;
+}
+
+function renderValue(value: string | null, formattedValue?: string): string {
+  const display = formattedValue || value;
+  return display ? escapeHtml(display) : '<span class="empty">(empty)</span>';
+}
+
+// Count entries by a label, largest first
+function countBy(entries: AuditLogEntry[], getKey: (entry: AuditLogEntry) => string): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    const key = getKey(entry) || '(none)';
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+function renderCountTable(title: string, counts: Array<[string, number]>, limit = 20): string {
+  if (counts.length === 0) return '';
+  const rows = counts
+    .slice(0, limit)
+    .map(([label, count]) => `<tr><td>${escapeHtml(label)}</td><td>${count}</td></tr>`)
+    .join('');
+  const more = counts.length > limit ? `<p class="muted">${counts.length - limit} more not shown</p>` : '';
+  return `<h3>${escapeHtml(title)}</h3><table><thead><tr><th>${escapeHtml(title)}</th><th>Entries</th></tr></thead><tbody>${rows}</tbody></table>${more}`;
+}
+
+function renderPrivileges(title: string, privileges: Array<{ privilegeId: string; privilegeName?: string; depthLabel?: string }>, className = ''): string {
+  if (privileges.length === 0) return '';
+  const items = privileges
+    .map(p => `<li>${escapeHtml(p.privilegeName || p.privilegeId)}${p.depthLabel ? ` - ${escapeHtml(p.depthLabel)}` : ''}</li>`)
+    .join('');
+  return `<h3 class="${className}">${escapeHtml(title)} (${privileges.length})</h3><ul>${items}</ul>`;
+}
+
+/**
+ * Render the changes of one entry, following the layout of the audit details dialog
+ */
+function renderEntryDetails(details: AuditDetail[]): string {
+  if (details.length === 0) {
+    return '<p class="empty">No details recorded for this audit entry</p>';
+  }
+
+  const parts: string[] = [];
+
+  const attributeDetails = details.filter((d): d is AttributeAuditDetail => d.type === 'attribute');
+  if (attributeDetails.length > 0) {
+    const rows = attributeDetails
+      .map(d => `<tr><td>${escapeHtml(d.attributeDisplayName)}</td><td class="old">${renderValue(d.oldValue, d.oldFormattedValue)}</td><td class="new">${renderValue(d.newValue, d.newFormattedValue)}</td></tr>`)
+      .join('');
+    parts.push(`<h3>Attribute Changes</h3><table><thead><tr><th>Attribute</th><th>Old Value</th><th>New Value</th></tr></thead><tbody>${rows}</tbody></table>`);
+  }
+
+  for (const detail of details) {
+    switch (detail.type) {
+      case 'share':
+        parts.push(renderDefinitionList([
+          ['Shared With', `${detail.principalName} (${detail.principalType})`],
+          ['Previous Access', detail.oldPrivileges || 'None'],
+          ['New Access', detail.newPrivileges || 'None'],
+        ]));
+        break;
+      case 'rolePrivilege':
+        parts.push(
+          renderPrivileges('Previous Privileges', detail.oldRolePrivileges) +
+          renderPrivileges('New Privileges', detail.newRolePrivileges) +
+          renderPrivileges('Invalid Privileges', detail.invalidNewPrivileges, 'old')
+        );
+        break;
+      case 'userAccess':
+        parts.push(renderDefinitionList([
+          ['Access Time', formatDateTime(detail.accessTime)],
+          ...(detail.interval > 0 ? [['Interval', `${detail.interval} minutes`] as [string, unknown]] : []),
+        ]));
+        break;
+      case 'relationship': {
+        const records = detail.targetRecords
+          .map(r => `<li>${escapeHtml(r.name || r.id)}${r.logicalName ? ` <span class="muted">(${escapeHtml(r.logicalName)})</span>` : ''}</li>`)
+          .join('');
+        parts.push(
+          renderDefinitionList([['Relationship', detail.relationshipName]]) +
+          (records ? `<h3>Related Records (${detail.targetRecords.length})</h3><ul>${records}</ul>` : '')
+        );
+        break;
+      }
+      case 'metadata': {
+        const items: Array<[string, unknown]> = [];
+        if (detail.action === 103 && detail.attributeDisplayName) {
+          items.push(['Column', `${detail.attributeDisplayName} (${detail.attributeLogicalName})`]);
         }
-      } else if (tabType === 'roles') {
-        const roleDetails = details.filter(d => d.type === 'rolePrivilege') as RolePrivilegeAuditDetail[];
-        if (roleDetails.length === 0) {
-          lines.push([...baseRow, '', ''].map(escapeCSV).join(','));
-        } else {
-          for (const detail of roleDetails) {
-            // Summarize privilege changes
-            const oldCount = detail.oldRolePrivileges.length;
-            const newCount = detail.newRolePrivileges.length;
-            let changeType = 'Modified';
-            if (oldCount === 0 && newCount > 0) changeType = 'Added';
-            else if (oldCount > 0 && newCount === 0) changeType = 'Removed';
-
-            const privilegesSummary = detail.newRolePrivileges.length > 0
-              ? detail.newRolePrivileges.map(p => p.privilegeName || p.privilegeId).join('; ')
-              : detail.oldRolePrivileges.map(p => p.privilegeName || p.privilegeId).join('; ');
-
-            lines.push([
-              ...baseRow,
-              changeType,
-              privilegesSummary || '(none)',
-            ].map(v => escapeCSV(String(v ?? ''))).join(','));
-          }
+        if (detail.auditEnabled !== undefined) {
+          items.push(['Audit Status', detail.auditEnabled ? 'Enabled' : 'Disabled']);
         }
-      } else {
-        // Default: attribute details (for 'details' and 'metadata' tabs)
-        const attrDetails = details.filter(d => d.type === 'attribute') as AttributeAuditDetail[];
-
-        if (attrDetails.length === 0) {
-          lines.push([...baseRow, '', '', ''].map(escapeCSV).join(','));
-        } else {
-          for (const detail of attrDetails) {
-            lines.push([
-              ...baseRow,
-              detail.attributeDisplayName,
-              detail.oldFormattedValue || detail.oldValue || '',
-              detail.newFormattedValue || detail.newValue || '',
-            ].map(v => escapeCSV(String(v ?? ''))).join(','));
+        const changeData = detail.parsedChangeData ? JSON.stringify(detail.parsedChangeData, null, 2) : detail.changeData;
+        parts.push(
+          (items.length > 0 ? renderDefinitionList(items) : '') +
+          (changeData ? `<pre>${escapeHtml(changeData)}</pre>` : '')
+        );
+        break;
+      }
+    }
+  }
+
+  return parts.join('');
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Generate a self-contained HTML evidence report, printable to PDF
+ *
+ * The report has a cover page (environment, generated by, filter criteria, time range), summary
+ * statistics and the changes of each entry. A SHA-256 hash of the evidence section is printed at
+ * the end so later changes to the file can be detected.
+ */
+export async function generateEvidenceReport(
+  entries: AuditLogEntry[],
+  detailsMap: Map<string, AuditDetail[]>,
+  includeDetails: boolean,
+  tabType: AuditTabType = 'details',
+  filters?: AuditFiltersState,
+  info: EvidenceReportInfo = {}
+): Promise<string> {
+  const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
+  const generatedAt = new Date();
+  const times = entries.map(e => e.createdOn.getTime());
+  const firstRecord = times.length > 0 ? new Date(Math.min(...times)) : null;
+  const lastRecord = times.length > 0 ? new Date(Math.max(...times)) : null;
+
+  // Cover page
+  const criteria = describeFilters(filters, [tabType])
+    .slice(1)
+    .map(([label, value]) => [String(label), value instanceof Date ? formatDateTime(value) : value] as [string, unknown]);
+  const cover = `<section class="cover">
+<h1>Audit Evidence Report</h1>
+<p class="muted">${escapeHtml(SHEET_NAMES[tabType])}</p>
+<h2>Report</h2>
+${renderDefinitionList([
+  ['Environment', info.environmentName || 'Unknown'],
+  ['Environment URL', info.environmentUrl || ''],
+  ['Generated by', info.generatedBy || 'Unknown'],
+  ['Generated on', formatDateTime(generatedAt)],
+  ['Records', entries.length],
+  ['Time range of records', firstRecord && lastRecord ? `${formatDateTime(firstRecord)} – ${formatDateTime(lastRecord)}` : 'No records'],
+])}
+<h2>Filter Criteria</h2>
+${renderDefinitionList(criteria)}
+</section>`;
+
+  // Summary statistics
+  const summary = `<section>
+<h2>Summary</h2>
+${renderCountTable('Operation', countBy(entries, e => e.operationLabel))}
+${renderCountTable('Action', countBy(entries, e => e.actionLabel))}
+${tabType !== 'access' ? renderCountTable('Table', countBy(entries, e => e.objectTypeCode)) : ''}
+${renderCountTable(tabType === 'access' ? 'User' : 'Changed By', countBy(entries, e => (tabType === 'access' ? e.objectName : e.userName)))}
+</section>`;
+
+  // Changes of each entry
+  const records = entries
+    .map(entry => {
+      const items: Array<[string, unknown]> = [
+        ['Date/Time', formatDateTime(entry.createdOn)],
+        ['Operation', entry.operationLabel],
+        ['Action', entry.actionLabel],
+      ];
+      if (tabType !== 'access') items.push(['Table', entry.objectTypeCode]);
+      if (tabType !== 'metadata') items.push([tabType === 'access' ? 'User' : 'Record', entry.objectName]);
+      if (tabType !== 'access') items.push(['Changed By', entry.userName]);
+      items.push(['Audit ID', entry.id]);
+
+      const changes = shouldIncludeDetails ? renderEntryDetails(detailsMap.get(entry.id) || entry.details || []) : '';
+      return `<div class="entry">${renderDefinitionList(items)}${changes}</div>`;
+    })
+    .join('\n');
+
+  const evidence = `${cover}\n${summary}\n<section>\n<h2>Audit Entries</h2>\n${records}\n</section>`;
+  const hash = await sha256Hex(evidence);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="evidence-sha256" content="${hash}">
+<title>Audit Evidence Report - ${escapeHtml(info.environmentName || '')} - ${escapeHtml(generatedAt.toISOString().slice(0, 10))}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${EVIDENCE_START}${evidence}${EVIDENCE_END}
+<footer>
+<h2>Integrity</h2>
+<p>SHA-256 of the report content: <span class="hash">${hash}</span></p>
+<p class="muted">The hash covers the UTF-8 text between the <code>${escapeHtml(EVIDENCE_START)}</code> and <code>${escapeHtml(EVIDENCE_END)}</code> markers in the file source. Recompute it to check that the report has not been changed.</p>
+</footer>
+</body>
+</html>
+`;
+}
+
+// Streaming export
+
+// Path of a part file: the chosen path for the first part, then name-part2.csv, name-part3.csv...
+function getPartPath(firstPath: string, part: number): string {
+  if (part === 1) return firstPath;
+  const dot = firstPath.lastIndexOf('.');
+  const slash = Math.max(firstPath.lastIndexOf('/'), firstPath.lastIndexOf('\\'));
+  return dot > slash
+    ? `${firstPath.slice(0, dot)}-part${part}${firstPath.slice(dot)}`
+    : `${firstPath}-part${part}`;
+}
+
+/**
+ * Load the details of a page of entries in bounded batches
+ * Details are only kept for the page being written; entries the explorer hadn't loaded are removed
+ * from the shared details cache again.
+ * @throws Error when any details fail to load, so no row is written without its changes
+ */
+async function loadPageDetails(entries: AuditLogEntry[], signal?: AbortSignal): Promise<Map<string, AuditDetail[]>> {
+  const pageDetails = new Map<string, AuditDetail[]>();
+  const fetchedIds: string[] = [];
+
+  try {
+    for (let i = 0; i < entries.length && !signal?.aborted; i += STREAM_DETAILS_BATCH_SIZE) {
+      const batch = entries.slice(i, i + STREAM_DETAILS_BATCH_SIZE);
+      const results = await window.toolboxAPI.utils.executeParallel(
+        ...batch.map(async entry => {
+          const cached = getCachedDetails(entry.id);
+          if (cached) return { entryId: entry.id, details: cached };
+          try {
+            const details = await loadAuditDetails(entry.id, entry.objectTypeCode, entry);
+            fetchedIds.push(entry.id);
+            return { entryId: entry.id, details };
+          } catch (err) {
+            console.warn(`[Export] Failed to load details for ${entry.id}:`, err);
+            return { entryId: entry.id, error: err };
           }
+        })
+      );
+      for (const result of results) {
+        if ('error' in result) {
+          const message = result.error instanceof Error ? result.error.message : String(result.error);
+          throw new Error(`Failed to load the changes of audit record ${result.entryId}: ${message}`);
         }
+        pageDetails.set(result.entryId, result.details);
       }
-    } else {
-      lines.push(baseRow.map(v => escapeCSV(String(v ?? ''))).join(','));
     }
+  } finally {
+    removeCachedDetails(fetchedIds);
   }
 
-  return lines.join('\n');
+  return pageDetails;
+}
+
+/**
+ * Stream all audit logs matching the filters to CSV or NDJSON files
+ *
+ * Records are fetched a page at a time and only the rows of the current file are held in memory.
+ * Every STREAM_ROWS_PER_FILE rows the export continues in "-part2", "-part3"... files next to the
+ * file picked in the save dialog. The current file is written after every page, followed by a
+ * checkpoint of the next page, so a failed, cancelled or interrupted export resumes after the last
+ * written page.
+ *
+ * @param signal - Cancels the export before the next page or details batch
+ * @param resumeFrom - Checkpoint of an unfinished export to continue instead of starting a new file
+ */
+export async function streamAuditExport(
+  filters: AuditFiltersState,
+  format: StreamExportFormat,
+  includeDetails: boolean,
+  tabType: AuditTabType,
+  onProgress: (progress: StreamExportProgress) => void,
+  signal?: AbortSignal,
+  resumeFrom?: ExportCheckpoint
+): Promise<ExportResult> {
+  const shouldIncludeDetails = tabType === 'access' ? false : includeDetails;
+  const signature = getExportSignature(filters, format, includeDetails, tabType);
+
+  const getHeaderLine = (rowCount: number, partNumber: number) => format === 'csv'
+    ? getCsvHeaderLine(tabType, shouldIncludeDetails)
+    : JSON.stringify(buildExportHeader(rowCount, shouldIncludeDetails, tabType, filters, partNumber));
+
+  let firstPath: string | null;
+  if (resumeFrom) {
+    if (resumeFrom.signature !== signature) {
+      return { success: false, error: 'The saved export does not match these filters' };
+    }
+    firstPath = resumeFrom.firstPath;
+    if (!(await window.toolboxAPI.fileSystem.exists(firstPath))) {
+      return { success: false, error: `The export file ${firstPath} no longer exists` };
+    }
+  } else {
+    // Pick the file first so the export doesn't wait on the dialog at the end
+    const timestamp = new Date().toISOString().slice(0, 10);
+    firstPath = await window.toolboxAPI.fileSystem.saveFile(`audit-${getFilenameSuffix(tabType)}-${timestamp}.${format}`, '');
+    if (!firstPath) {
+      return { success: false, error: 'Export cancelled' };
+    }
+  }
+  const outputPath = firstPath;
+
+  const files: string[] = resumeFrom ? [...resumeFrom.files] : [];
+  let lines: string[] = [];
+  let part = resumeFrom?.nextPart ?? 1;
+  let rowsWritten = resumeFrom?.rowsWritten ?? 0;
+  let recordsFetched = resumeFrom?.recordsFetched ?? 0;
+  let cursor = { pageNumber: resumeFrom?.nextPageNumber ?? 1, pagingCookie: resumeFrom?.pagingCookie };
+
+  // The rows of a partly filled part aren't kept, so that part is closed and the export continues in
+  // the next one. Anything written after the checkpoint is cut off, as those pages are fetched again.
+  if (resumeFrom && resumeFrom.partRows > 0) {
+    const partPath = getPartPath(outputPath, part);
+    const content = await window.toolboxAPI.fileSystem.readText(partPath);
+    if (content.length < resumeFrom.partLength) {
+      return { success: false, error: `The export file ${partPath} was changed since the export stopped` };
+    }
+    if (content.length > resumeFrom.partLength) {
+      const kept = content.slice(0, resumeFrom.partLength);
+      const body = kept.slice(kept.indexOf('\n') + 1);
+      await window.toolboxAPI.fileSystem.writeText(partPath, `${getHeaderLine(resumeFrom.partRows, part)}\n${body}`);
+    }
+    files.push(partPath);
+    part++;
+  }
+
+  const saveCheckpoint = (partLength: number) => saveExportCheckpoint({
+    signature,
+    format,
+    includeDetails,
+    tabType,
+    filters,
+    firstPath: outputPath,
+    files,
+    nextPart: part,
+    partRows: lines.length,
+    partLength,
+    rowsWritten,
+    recordsFetched,
+    nextPageNumber: cursor.pageNumber,
+    pagingCookie: cursor.pagingCookie,
+    updatedAt: new Date().toISOString(),
+  });
+
+  // Rewrite the current part with its rows so far
+  const writePart = async (): Promise<number> => {
+    const content = [getHeaderLine(lines.length, part), ...lines].join('\n') + '\n';
+    await window.toolboxAPI.fileSystem.writeText(getPartPath(outputPath, part), content);
+    return content.length;
+  };
+
+  // Files written so far, including the part being filled
+  const getWrittenFiles = () => lines.length > 0 ? [...files, getPartPath(outputPath, part)] : [...files];
+
+  try {
+    await forEachAuditLogPage(filters, async page => {
+      const pageDetails = shouldIncludeDetails ? await loadPageDetails(page.entries, signal) : new Map<string, AuditDetail[]>();
+
+      // A page cut short by a cancel is left for the resume
+      if (signal?.aborted) return;
+
+      const pageLines = format === 'csv'
+        ? buildExportRows(page.entries, pageDetails, shouldIncludeDetails, tabType).map(toCsvLine)
+        : page.entries.map(entry => JSON.stringify(toExportedEntry(entry, pageDetails, shouldIncludeDetails)));
+      lines.push(...pageLines);
+      rowsWritten += pageLines.length;
+      recordsFetched += page.entries.length;
+      cursor = { pageNumber: page.pageNumber + 1, pagingCookie: page.pagingCookie };
+
+      let partLength = await writePart();
+      if (lines.length >= STREAM_ROWS_PER_FILE) {
+        files.push(getPartPath(outputPath, part));
+        lines = [];
+        part++;
+        partLength = 0;
+      }
+      await saveCheckpoint(partLength);
+
+      onProgress({
+        recordsFetched,
+        totalCount: Math.max(page.totalCount, recordsFetched),
+        isTotalCountExact: page.isTotalCountExact,
+        rowsWritten,
+      });
+    }, signal, resumeFrom ? { pageNumber: resumeFrom.nextPageNumber, pagingCookie: resumeFrom.pagingCookie } : undefined);
+
+    if (signal?.aborted) {
+      return { success: false, error: 'Export cancelled', filename: outputPath, files: getWrittenFiles(), rowsWritten };
+    }
+
+    // An export without any rows still gets a file with the header
+    if (files.length === 0 && lines.length === 0) {
+      await writePart();
+      files.push(getPartPath(outputPath, part));
+    }
+    await clearExportCheckpoint();
+    return { success: true, filename: outputPath, files: getWrittenFiles(), rowsWritten };
+  } catch (error) {
+    // Every written page is on disk and checkpointed, so the export can resume after the last of them
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Export failed',
+      filename: outputPath,
+      files: getWrittenFiles(),
+      rowsWritten,
+    };
+  }
 }
 
 /**
@@ -202,23 +907,48 @@ function getFilenameSuffix(tabType: AuditTabType): string {
 
 /**
  * Export audit logs using toolbox file system API
+ * @param sheets - Entries for each tab of a multi-sheet workbook (XLSX only); defaults to the entries of options.tabType
  */
 export async function exportAuditLogs(
   entries: AuditLogEntry[],
   detailsMap: Map<string, AuditDetail[]>,
-  options: ExportOptions
+  options: ExportOptions,
+  sheets?: ExportSheetData[]
 ): Promise<ExportResult> {
   try {
-    let content: string;
+    let content: string | Uint8Array;
     let filename: string;
 
     const tabType = options.tabType || 'details';
     const timestamp = new Date().toISOString().slice(0, 10);
-    const tabSuffix = getFilenameSuffix(tabType);
+    const tabSuffix = options.multiSheet
+      ? 'workbook'
+      : `${options.format === 'html' ? 'evidence-' : ''}${getFilenameSuffix(tabType)}`;
     const baseFilename = options.filename || `audit-${tabSuffix}-${timestamp}`;
 
-    content = generateCSV(entries, detailsMap, options.includeDetails, tabType);
-    filename = `${baseFilename}.csv`;
+    if (options.format === 'xlsx') {
+      content = generateXLSX(sheets || [{ tabType, entries }], detailsMap, options.includeDetails, options.filters);
+      filename = `${baseFilename}.xlsx`;
+    } else if (options.format === 'json') {
+      content = generateJSON(entries, detailsMap, options.includeDetails, tabType, options.filters);
+      filename = `${baseFilename}.json`;
+    } else if (options.format === 'html') {
+      content = await generateEvidenceReport(
+        entries,
+        detailsMap,
+        options.includeDetails,
+        tabType,
+        options.filters,
+        options.reportInfo
+      );
+      filename = `${baseFilename}.html`;
+    } else if (options.format === 'ndjson') {
+      content = generateNDJSON(entries, detailsMap, options.includeDetails, tabType, options.filters);
+      filename = `${baseFilename}.ndjson`;
+    } else {
+      content = generateCSV(entries, detailsMap, options.includeDetails, tabType);
+      filename = `${baseFilename}.csv`;
+    }
 
     // Use toolbox file system API to save file with native dialog
     const savedPath = await window.toolboxAPI.fileSystem.saveFile(filename, content);
@@ -0,0 +1,162 @@
+/**
+ * Saved filter presets for the audit log explorer, stored in the tool settings
+ */
+
+import {
+  AuditFilterPreset,
+  AuditFiltersState,
+  PresetDateRange,
+  SortState,
+  initialFiltersState,
+} from '../model/auditLog';
+import type { AuditTabType } from '../model/export';
+import { formatDateTime, formatRelativeDateRange } from '../utils/formatters';
+
+const FILTER_PRESETS_KEY = 'auditFilterPresets';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function createPresetId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Start of the current day, which relative ranges count back from
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Get the saved presets, sorted by name
+ */
+export async function getFilterPresets(): Promise<AuditFilterPreset[]> {
+  try {
+    const stored = await window.toolboxAPI.settings.get(FILTER_PRESETS_KEY);
+    return Array.isArray(stored) ? (stored as AuditFilterPreset[]) : [];
+  } catch (error) {
+    console.error('[FilterPresetService] Failed to load filter presets:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the saved presets
+ */
+export async function saveFilterPresets(presets: AuditFilterPreset[]): Promise<void> {
+  await window.toolboxAPI.settings.set(
+    FILTER_PRESETS_KEY,
+    [...presets].sort((a, b) => a.name.localeCompare(b.name))
+  );
+}
+
+/**
+ * Describe the date filter for a preset
+ * Relative ranges are always kept. With keepRelative, an absolute range that ends today is saved
+ * as "last N days" (or "last N hours" when it starts mid-day) so it moves with the calendar.
+ */
+export function toPresetDateRange(filters: AuditFiltersState, keepRelative: boolean): PresetDateRange {
+  if (filters.relativeDate) {
+    return { type: 'relative', range: filters.relativeDate };
+  }
+
+  const isOpenEnded = !filters.toDate || filters.toDate.getTime() >= startOfToday().getTime();
+  if (keepRelative && filters.fromDate && isOpenEnded) {
+    const from = filters.fromDate.getTime();
+    const startsAtMidnight = new Date(from).setHours(0, 0, 0, 0) === from;
+    return {
+      type: 'relative',
+      range: startsAtMidnight
+        ? { operator: 'last-x-days', value: Math.max(1, Math.round((startOfToday().getTime() - from) / DAY_MS)) }
+        : { operator: 'last-x-hours', value: Math.max(1, Math.ceil((Date.now() - from) / HOUR_MS)) },
+    };
+  }
+
+  return {
+    type: 'absolute',
+    from: filters.fromDate ? filters.fromDate.toISOString() : null,
+    to: filters.toDate ? filters.toDate.toISOString() : null,
+  };
+}
+
+/**
+ * Create a preset from the explorer state
+ */
+export function createFilterPreset(
+  name: string,
+  tab: AuditTabType,
+  filters: AuditFiltersState,
+  sort: SortState,
+  keepRelative: boolean
+): AuditFilterPreset {
+  const {
+    fromDate: _fromDate,
+    toDate: _toDate,
+    relativeDate: _relativeDate,
+    recordId: _recordId,
+    recordName: _recordName,
+    ...rest
+  } = filters;
+  return {
+    id: createPresetId(),
+    name: name.trim(),
+    tab,
+    filters: rest,
+    dateRange: toPresetDateRange(filters, keepRelative),
+    sort,
+    createdOn: new Date().toISOString(),
+  };
+}
+
+/**
+ * Copy a preset under a new name
+ */
+export function duplicateFilterPreset(preset: AuditFilterPreset, existing: AuditFilterPreset[]): AuditFilterPreset {
+  const names = new Set(existing.map(p => p.name));
+  let name = `${preset.name} (copy)`;
+  for (let i = 2; names.has(name); i++) {
+    name = `${preset.name} (copy ${i})`;
+  }
+
+  return {
+    ...preset,
+    id: createPresetId(),
+    name,
+    createdOn: new Date().toISOString(),
+  };
+}
+
+/**
+ * Resolve a preset into filter state
+ * Starts from the defaults so presets saved before a filter was added stay valid.
+ */
+export function resolvePresetFilters(preset: AuditFilterPreset): AuditFiltersState {
+  const { dateRange } = preset;
+  const isRelative = dateRange.type === 'relative';
+
+  return {
+    ...initialFiltersState,
+    ...preset.filters,
+    recordId: null,
+    recordName: null,
+    fromDate: !isRelative && dateRange.from ? new Date(dateRange.from) : null,
+    toDate: !isRelative && dateRange.to ? new Date(dateRange.to) : null,
+    relativeDate: isRelative ? dateRange.range : null,
+  };
+}
+
+/**
+ * Describe a preset's date range for display
+ */
+export function describePresetDateRange(range: PresetDateRange): string {
+  if (range.type === 'relative') {
+    return formatRelativeDateRange(range.range);
+  }
+  if (!range.from && !range.to) {
+    return 'Any date';
+  }
+  const from = range.from ? formatDateTime(range.from) : '…';
+  const to = range.to ? formatDateTime(range.to) : '…';
+  return `${from} – ${to}`;
+}
@@ -4,6 +4,8 @@ import {
   EntityMetadataResponse,
   AttributeMetadataResponse,
   RecordSearchResult,
+  LookupRelationship,
+  ManyToOneRelationshipResponse,
   toEntityOption,
   toAttributeOption,
 } from '../model/metadata';
@@ -12,6 +14,7 @@ import { extractArrayFromResponse } from '../utils/responseParser';
 // Cache for entity metadata
 let entityCache: EntityOption[] | null = null;
 const attributeCache = new Map<string, AttributeOption[]>();
+const lookupRelationshipCache = new Map<string, LookupRelationship[]>();
 
 /**
  * Get all entities with their audit status
@@ -32,6 +35,7 @@ export async function getAllEntities(): Promise<EntityOption[]> {
     'PrimaryIdAttribute',
     'PrimaryNameAttribute',
     'ObjectTypeCode',
+    'EntitySetName',
   ];
 
   try {
@@ -118,6 +122,10 @@ export async function getEntityAttributes(entityLogicalName: string): Promise<At
       'AttributeType',
       'IsAuditEnabled',
       'ColumnNumber',
+      'IsValidForCreate',
+      'IsValidForUpdate',
+      'SourceType',
+      'AttributeOf',
     ];
 
     console.log('[MetadataService] Fetching attributes from API');
@@ -183,6 +191,39 @@ export async function getAttributeByColumnNumber(
   return attributes.find(a => a.columnNumber === columnNumber);
 }
 
+/**
+ * Get the lookup relationships of an entity
+ * Needed to bind lookups on write, as @odata.bind uses the navigation property name
+ */
+export async function getLookupRelationships(entityLogicalName: string): Promise<LookupRelationship[]> {
+  const cached = lookupRelationshipCache.get(entityLogicalName);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const response = await window.dataverseAPI.getEntityRelatedMetadata(
+      entityLogicalName,
+      'ManyToOneRelationships',
+      ['ReferencingAttribute', 'ReferencedEntity', 'ReferencingEntityNavigationPropertyName']
+    );
+
+    const relationships = extractArrayFromResponse<ManyToOneRelationshipResponse>(response)
+      .filter(r => r && r.ReferencingAttribute && r.ReferencingEntityNavigationPropertyName)
+      .map(r => ({
+        referencingAttribute: r.ReferencingAttribute,
+        referencedEntity: r.ReferencedEntity,
+        navigationPropertyName: r.ReferencingEntityNavigationPropertyName,
+      }));
+
+    lookupRelationshipCache.set(entityLogicalName, relationships);
+    return relationships;
+  } catch (error) {
+    console.error('[MetadataService] Error fetching lookup relationships:', error);
+    return [];
+  }
+}
+
 /**
  * Search records by name
  */
@@ -274,6 +315,7 @@ export async function getRecord(
 export function clearMetadataCache(): void {
   entityCache = null;
   attributeCache.clear();
+  lookupRelationshipCache.clear();
 }
 
 // Helper to escape XML special characters
@@ -46,9 +46,130 @@ export async function lookupPrincipalName(principalId: string, principalType: st
   }
 }
 
+/**
+ * Get the full name of the signed-in user
+ */
+export async function getCurrentUserName(): Promise<string> {
+  const whoAmI = await window.dataverseAPI.execute({
+    operationName: 'WhoAmI',
+    operationType: 'function',
+  });
+  const userId = whoAmI.UserId as string | undefined;
+  return userId ? lookupPrincipalName(userId, 'systemuser') : 'Unknown';
+}
+
 /**
  * Clear the principal name cache
  */
 export function clearPrincipalCache(): void {
   principalNameCache.clear();
 }
+
+// Business units, teams and security roles a user filter can be built from
+export type PrincipalGroupType = 'businessunit' | 'team' | 'role';
+
+export interface PrincipalOption {
+  id: string;
+  name: string;
+}
+
+// Cache of resolved user ids - Map of group key -> systemuser ids
+const groupMembersCache = new Map<string, string[]>();
+
+// Escape a value for use inside an OData string literal
+function escapeODataString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
+/**
+ * Search business units, teams or security roles by name
+ * Security roles are copied into every business unit, so only the root roles are offered.
+ */
+export async function searchPrincipalGroups(
+  groupType: PrincipalGroupType,
+  searchTerm: string
+): Promise<PrincipalOption[]> {
+  const term = escapeODataString(searchTerm);
+  let query: string;
+  let idField: string;
+
+  switch (groupType) {
+    case 'businessunit':
+      query = `businessunits?$select=businessunitid,name&$filter=contains(name,'${term}')&$orderby=name&$top=10`;
+      idField = 'businessunitid';
+      break;
+    case 'team':
+      query = `teams?$select=teamid,name&$filter=contains(name,'${term}')&$orderby=name&$top=10`;
+      idField = 'teamid';
+      break;
+    case 'role':
+      query = `roles?$select=roleid,name&$filter=contains(name,'${term}') and _parentroleid_value eq null&$orderby=name&$top=10`;
+      idField = 'roleid';
+      break;
+  }
+
+  const response = await window.dataverseAPI.queryData(query);
+  return ((response.value || []) as Array<Record<string, unknown>>).map(record => ({
+    id: record[idField] as string,
+    name: (record.name as string) || 'Unknown',
+  }));
+}
+
+/**
+ * Turn an absolute @odata.nextLink into the relative query queryData expects
+ */
+function toRelativeQuery(nextLink: string): string {
+  return nextLink.replace(/^https?:\/\/[^/]+\/api\/data\/v[\d.]+\//i, '');
+}
+
+/**
+ * Get the ids of the users in any of the given business units, teams or security roles
+ * Role membership is matched through the root role, so users holding a business unit copy are included,
+ * and covers roles assigned directly and roles of the teams a user belongs to.
+ */
+export async function getPrincipalGroupMembers(
+  groupType: PrincipalGroupType,
+  groupIds: string[]
+): Promise<string[]> {
+  const cacheKey = `${groupType}:${[...groupIds].sort().join(',')}`;
+  const cached = groupMembersCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const conditions = groupIds.map(id => {
+    switch (groupType) {
+      case 'businessunit':
+        return `_businessunitid_value eq ${id}`;
+      case 'team':
+        return `teammembership_association/any(t:t/teamid eq ${id})`;
+      case 'role':
+        return `(systemuserroles_association/any(r:r/_parentrootroleid_value eq ${id}) or teammembership_association/any(t:t/teamroles_association/any(r:r/_parentrootroleid_value eq ${id})))`;
+    }
+  });
+
+  // Follow the next links, since a page holds at most 5000 users
+  const userIds: string[] = [];
+  let query: string | null = `systemusers?$select=systemuserid&$filter=${conditions.join(' or ')}`;
+  while (query) {
+    const response = await window.dataverseAPI.queryData(query) as Awaited<ReturnType<typeof window.dataverseAPI.queryData>> & {
+      '@odata.nextLink'?: string;
+    };
+    for (const record of response.value || []) {
+      if (record.systemuserid) userIds.push(record.systemuserid as string);
+    }
+    const nextLink = response['@odata.nextLink'];
+    query = nextLink ? toRelativeQuery(nextLink) : null;
+  }
+
+  console.log(`[PrincipalService] Resolved ${groupType} filter to ${userIds.length} users`);
+  groupMembersCache.set(cacheKey, userIds);
+  return userIds;
+}
+
+/**
+ * Clear the resolved group members, so membership changes are picked up by the next query
+ */
+export function clearPrincipalGroupCache(): void {
+  groupMembersCache.clear();
+}
@@ -0,0 +1,242 @@
+/**
+ * Point-in-time reconstruction of a record from its audit history
+ */
+
+import {
+  AuditLogEntry,
+  AuditOperation,
+  AttributeAuditDetail,
+  ReconstructedAttribute,
+  RecordSnapshot,
+} from '../model/auditLog';
+import { getAttributeMap } from './metadataService';
+import { retrieveRecordChangeHistory } from './auditLogService';
+import { formatAuditValue, getLookupAttributeName } from './auditDetailParsers';
+import { normalizeRawValue } from './revertService';
+import { isNotFoundError } from '../utils/responseParser';
+
+// Page size used while walking back through the history
+const SNAPSHOT_PAGE_SIZE = 100;
+
+// Value of a record column, for display and as returned by the API
+interface RecordValue {
+  value: string | null;
+  rawValue: unknown;
+}
+
+// Working state for one attribute while replaying changes
+interface ReplayState {
+  value: string | null;
+  rawValue: unknown;  // Compared with the audited values, as formatted values differ between the API and audit
+  currentValue: string | null;
+  hasGap: boolean;
+  gapReason?: string;
+  lastChangedOn?: Date;
+}
+
+/**
+ * Read the current values of a record as display strings and raw values, keyed by attribute logical name
+ */
+function readRecordValues(record: Record<string, unknown>): Map<string, RecordValue> {
+  const values = new Map<string, RecordValue>();
+
+  for (const key of Object.keys(record)) {
+    if (key.includes('@')) {
+      continue;
+    }
+    const logicalName = getLookupAttributeName(key) || key;
+    if (logicalName.startsWith('_')) {
+      continue;
+    }
+    values.set(logicalName, { value: formatAuditValue(record[key], record, key), rawValue: record[key] });
+  }
+
+  return values;
+}
+
+// Treat null and empty strings as the same value when comparing audit values with the record
+function normalizeValue(value: string | null | undefined): string {
+  return (value ?? '').trim();
+}
+
+// Compare the value an attribute is replayed onto with the value a change set, by raw value when audited
+function matchesChangedValue(state: ReplayState, detail: AttributeAuditDetail): boolean {
+  if (detail.newRawValue !== undefined) {
+    return String(normalizeRawValue(state.rawValue) ?? '') === String(normalizeRawValue(detail.newRawValue) ?? '');
+  }
+  return normalizeValue(state.value) === normalizeValue(detail.newValue);
+}
+
+function getAttributeDetails(entry: AuditLogEntry): AttributeAuditDetail[] {
+  return (entry.details || []).filter((d): d is AttributeAuditDetail => d.type === 'attribute');
+}
+
+/**
+ * Load the record history back to the point in time (newest first)
+ * Stops paging as soon as a page reaches changes older than the point in time
+ */
+async function loadHistorySince(
+  entityLogicalName: string,
+  recordId: string,
+  pointInTime: Date
+): Promise<AuditLogEntry[]> {
+  const entries: AuditLogEntry[] = [];
+  let pageNumber = 1;
+  let pagingCookie: string | undefined;
+  let hasMoreRecords = true;
+
+  while (hasMoreRecords) {
+    const page = await retrieveRecordChangeHistory(
+      entityLogicalName,
+      recordId,
+      SNAPSHOT_PAGE_SIZE,
+      pageNumber,
+      pagingCookie
+    );
+    entries.push(...page.entries);
+
+    const reachedPointInTime = page.entries.some(e => e.createdOn.getTime() <= pointInTime.getTime());
+    hasMoreRecords = page.hasMoreRecords && !reachedPointInTime && page.entries.length > 0;
+    pagingCookie = page.pagingCookie;
+    pageNumber++;
+  }
+
+  return entries.sort((a, b) => b.createdOn.getTime() - a.createdOn.getTime());
+}
+
+/**
+ * Reconstruct a record's attribute values at a point in time
+ * Starts from the current record (or the delete snapshot for deleted records) and
+ * replays audited changes backwards, undoing every change made after the point in time.
+ * Attributes whose audited values don't match the state they are replayed onto are flagged
+ * as having gaps, as they were changed while auditing was off.
+ * @param entityLogicalName - Logical name of the record's table
+ * @param recordId - GUID of the record
+ * @param pointInTime - Timestamp to reconstruct the record for
+ */
+export async function reconstructRecordAt(
+  entityLogicalName: string,
+  recordId: string,
+  pointInTime: Date
+): Promise<RecordSnapshot> {
+  console.log('[RecordSnapshotService] reconstructRecordAt called for:', entityLogicalName, recordId, pointInTime.toISOString());
+
+  const attributeMap = await getAttributeMap(entityLogicalName);
+  const history = await loadHistorySince(entityLogicalName, recordId, pointInTime);
+
+  // Current state of the record; a missing record means it has been deleted
+  let currentValues = new Map<string, RecordValue>();
+  let isDeleted = false;
+  try {
+    const record = await window.dataverseAPI.retrieve(entityLogicalName, recordId);
+    currentValues = readRecordValues(record || {});
+  } catch (err) {
+    // Throttling, permission and network errors must not be taken for a delete
+    if (!isNotFoundError(err)) {
+      throw err;
+    }
+    console.log('[RecordSnapshotService] Record not found, using delete snapshot:', err);
+    isDeleted = true;
+  }
+
+  let replayEntries = history.filter(e => e.createdOn.getTime() > pointInTime.getTime());
+  let wasDeletedAtTime = false;
+
+  if (isDeleted) {
+    // The delete entry carries the full record as it was before deletion
+    const deleteIndex = history.findIndex(e => e.operation === AuditOperation.Delete);
+    if (deleteIndex >= 0) {
+      for (const detail of getAttributeDetails(history[deleteIndex])) {
+        currentValues.set(detail.attributeName, { value: detail.oldValue, rawValue: detail.oldRawValue ?? detail.oldValue });
+      }
+      const deletedOn = history[deleteIndex].createdOn.getTime();
+      replayEntries = replayEntries.filter(e => e.createdOn.getTime() < deletedOn);
+      wasDeletedAtTime = deletedOn <= pointInTime.getTime();
+    }
+  }
+
+  const state = new Map<string, ReplayState>();
+  for (const [attributeName, { value, rawValue }] of currentValues) {
+    if (!attributeMap.has(attributeName)) {
+      continue;
+    }
+    state.set(attributeName, { value, rawValue, currentValue: isDeleted ? null : value, hasGap: false });
+  }
+
+  // Record created after the point in time did not exist yet, nor one deleted before it
+  const existedAtTime = !wasDeletedAtTime && !replayEntries.some(e => e.operation === AuditOperation.Create);
+
+  // Undo changes newest first
+  let replayedChanges = 0;
+  for (const entry of replayEntries) {
+    if (entry.operation === AuditOperation.Create) {
+      continue;
+    }
+
+    for (const detail of getAttributeDetails(entry)) {
+      let attrState = state.get(detail.attributeName);
+      if (!attrState) {
+        attrState = { value: null, rawValue: null, currentValue: null, hasGap: false };
+        state.set(detail.attributeName, attrState);
+      }
+
+      if (!matchesChangedValue(attrState, detail)) {
+        attrState.hasGap = true;
+        attrState.gapReason = `Value after the change on ${entry.createdOn.toLocaleString()} does not match the later value`;
+      }
+
+      attrState.value = detail.oldValue;
+      attrState.rawValue = detail.oldRawValue !== undefined ? detail.oldRawValue : detail.oldValue;
+      replayedChanges++;
+    }
+  }
+
+  // Last audited change at or before the point in time, for context in the result
+  for (const entry of history) {
+    if (entry.createdOn.getTime() > pointInTime.getTime()) {
+      continue;
+    }
+    for (const detail of getAttributeDetails(entry)) {
+      const attrState = state.get(detail.attributeName);
+      if (attrState && !attrState.lastChangedOn) {
+        attrState.lastChangedOn = entry.createdOn;
+      }
+    }
+  }
+
+  const attributes: ReconstructedAttribute[] = [];
+  for (const [attributeName, attrState] of state) {
+    const attrMeta = attributeMap.get(attributeName);
+    const isAuditEnabled = attrMeta?.isAuditEnabled ?? true;
+
+    // Changes to columns without auditing are never recorded
+    const hasGap = attrState.hasGap || !isAuditEnabled;
+    const gapReason = attrState.gapReason
+      || (!isAuditEnabled ? 'Auditing is disabled for this column; changes are not recorded' : undefined);
+
+    attributes.push({
+      attributeName,
+      attributeDisplayName: attrMeta?.displayName || attributeName,
+      value: existedAtTime ? attrState.value : null,
+      currentValue: attrState.currentValue,
+      isAuditEnabled,
+      changedSince: normalizeValue(attrState.value) !== normalizeValue(attrState.currentValue),
+      hasGap,
+      gapReason,
+      lastChangedOn: attrState.lastChangedOn,
+    });
+  }
+
+  attributes.sort((a, b) => a.attributeDisplayName.localeCompare(b.attributeDisplayName));
+
+  console.log('[RecordSnapshotService] Replayed', replayedChanges, 'changes for', attributes.length, 'attributes');
+  return {
+    entityLogicalName,
+    recordId,
+    pointInTime,
+    existedAtTime,
+    isDeleted,
+    attributes,
+    replayedChanges,
+  };
+}
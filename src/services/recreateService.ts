@@ -0,0 +1,229 @@
+/**
+ * Undelete: recreates deleted records from the values captured in their Delete audit entry
+ */
+
+import {
+  AuditLogEntry,
+  AuditOperation,
+  AttributeAuditDetail,
+  RecreateField,
+  RecreateRecordPlan,
+  RecreateRecordResult,
+} from '../model/auditLog';
+import { getAttributeMap, getEntityByLogicalName, getLookupRelationships } from './metadataService';
+import { loadAuditDetails } from './auditLogService';
+import { buildWritePayload, isLookupField, normalizeRawValue } from './revertService';
+import { DataverseErrorCodes, getDataverseErrorCode, isNotFoundError } from '../utils/responseParser';
+
+// Calculated, rollup and formula columns (AttributeMetadata.SourceType)
+const CALCULATED_SOURCE_TYPES = [1, 2, 3];
+
+/**
+ * Check whether a create failed only because the table doesn't accept the original ID
+ * Dataverse rejects such a request as an invalid argument, so the record was certainly not created.
+ * Other errors (timeouts after which the create may have succeeded, duplicates) are not retried;
+ * a validation error other than the ID fails the retry the same way and is reported from there.
+ */
+function isOriginalIdRejected(error: unknown): boolean {
+  return getDataverseErrorCode(error) === DataverseErrorCodes.InvalidArgument;
+}
+
+/**
+ * Check whether an audit entry can be used to recreate a record
+ */
+export function canRecreateEntry(entry: AuditLogEntry): boolean {
+  return entry.operation === AuditOperation.Delete && !!entry.objectId && !!entry.objectTypeCode;
+}
+
+/**
+ * Check whether a record exists
+ * @throws Error when the check itself fails (e.g. throttling), so it isn't taken for a missing record
+ */
+async function recordExists(entityLogicalName: string, recordId: string): Promise<boolean> {
+  const entity = await getEntityByLogicalName(entityLogicalName);
+  try {
+    const record = await window.dataverseAPI.retrieve(
+      entityLogicalName,
+      recordId,
+      entity?.primaryIdAttribute ? [entity.primaryIdAttribute] : undefined
+    );
+    return !!record;
+  } catch (err) {
+    if (isNotFoundError(err)) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Resolve the table a lookup value points to
+ */
+async function resolveLookupTarget(entityLogicalName: string, field: RecreateField): Promise<string | undefined> {
+  if (field.lookupTarget) {
+    return field.lookupTarget;
+  }
+  const relationships = (await getLookupRelationships(entityLogicalName))
+    .filter(r => r.referencingAttribute === field.attributeName);
+  return relationships.length === 1 ? relationships[0].referencedEntity : undefined;
+}
+
+/**
+ * Build the recreate plan from a Delete audit entry
+ * Fields are checked against the attribute metadata: read-only, system, calculated and derived
+ * columns are reported as skipped, as are lookups whose target record no longer exists.
+ * @param entry - Delete audit entry of the record
+ */
+export async function buildRecreatePlan(entry: AuditLogEntry): Promise<RecreateRecordPlan> {
+  console.log('[RecreateService] buildRecreatePlan called for:', entry.objectTypeCode, entry.objectId);
+
+  const plan: RecreateRecordPlan = {
+    entityLogicalName: entry.objectTypeCode,
+    recordId: entry.objectId,
+    recordName: entry.objectName,
+    fields: [],
+    skippedFields: [],
+  };
+
+  try {
+    if (await recordExists(plan.entityLogicalName, plan.recordId)) {
+      plan.error = 'A record with this ID already exists';
+      return plan;
+    }
+
+    const [attributeMap, entity] = await Promise.all([
+      getAttributeMap(plan.entityLogicalName),
+      getEntityByLogicalName(plan.entityLogicalName),
+    ]);
+    const details = (entry.details || await loadAuditDetails(entry.id, entry.objectTypeCode, entry))
+      .filter((d): d is AttributeAuditDetail => d.type === 'attribute');
+
+    if (details.length === 0) {
+      plan.error = 'The delete entry has no captured field values';
+      return plan;
+    }
+
+    for (const detail of details) {
+      const attrMeta = attributeMap.get(detail.attributeName);
+      const field: RecreateField = {
+        attributeName: detail.attributeName,
+        attributeDisplayName: detail.attributeDisplayName,
+        attributeType: attrMeta?.attributeType || '',
+        value: detail.oldValue,
+        rawValue: detail.oldRawValue,
+        lookupTarget: detail.oldLookupTarget,
+      };
+
+      // Nothing to restore for empty values
+      if (normalizeRawValue(field.rawValue) === null) {
+        continue;
+      }
+
+      // The primary key is set separately to keep the original GUID
+      if (detail.attributeName === entity?.primaryIdAttribute) {
+        continue;
+      }
+
+      if (!attrMeta) {
+        field.skipReason = 'Column no longer exists';
+      } else if (attrMeta.sourceType !== undefined && CALCULATED_SOURCE_TYPES.includes(attrMeta.sourceType)) {
+        field.skipReason = 'Calculated, rollup or formula column';
+      } else if (attrMeta.attributeOf) {
+        field.skipReason = `Derived from ${attrMeta.attributeOf}`;
+      } else if (attrMeta.isValidForCreate === false) {
+        field.skipReason = 'Read-only or system column';
+      } else if (isLookupField(field.attributeType, detail)) {
+        const target = await resolveLookupTarget(plan.entityLogicalName, field);
+        if (!target) {
+          field.skipReason = 'Target table of the lookup is unknown';
+        } else if (!(await recordExists(target, String(normalizeRawValue(field.rawValue))))) {
+          field.skipReason = `Referenced ${target} record no longer exists`;
+        } else {
+          field.lookupTarget = target;
+        }
+      }
+
+      if (field.skipReason) {
+        plan.skippedFields.push(field);
+      } else {
+        plan.fields.push(field);
+      }
+    }
+
+    plan.fields.sort((a, b) => a.attributeDisplayName.localeCompare(b.attributeDisplayName));
+    plan.skippedFields.sort((a, b) => a.attributeDisplayName.localeCompare(b.attributeDisplayName));
+  } catch (err) {
+    console.error('[RecreateService] Error building recreate plan:', err);
+    plan.error = err instanceof Error ? err.message : 'Failed to build recreate plan';
+  }
+
+  return plan;
+}
+
+/**
+ * Recreate a deleted record from its plan
+ * The original GUID is set on create; if Dataverse rejects it the record is created with a new ID.
+ * Inactive records are created active and then set to their captured state, as a record
+ * can't be created with an inactive status.
+ * @param plan - Plan built by buildRecreatePlan
+ */
+export async function recreateRecord(plan: RecreateRecordPlan): Promise<RecreateRecordResult> {
+  if (plan.error) {
+    return { success: false, keptOriginalId: false, error: plan.error };
+  }
+
+  const stateField = plan.fields.find(f => f.attributeName === 'statecode');
+  const isInactive = !!stateField && Number(normalizeRawValue(stateField.rawValue)) !== 0;
+  const stateFields = isInactive
+    ? plan.fields.filter(f => f.attributeName === 'statecode' || f.attributeName === 'statuscode')
+    : [];
+  const createFields = plan.fields.filter(f => !stateFields.includes(f));
+
+  try {
+    const entity = await getEntityByLogicalName(plan.entityLogicalName);
+    const payload = await buildWritePayload(plan.entityLogicalName, createFields.map(f => ({
+      attributeName: f.attributeName,
+      attributeType: f.attributeType,
+      rawValue: f.rawValue,
+      lookupTarget: f.lookupTarget,
+    })));
+
+    let recordId: string;
+    let keptOriginalId = true;
+    try {
+      const primaryIdAttribute = entity?.primaryIdAttribute || `${plan.entityLogicalName}id`;
+      const result = await window.dataverseAPI.create(plan.entityLogicalName, {
+        ...payload,
+        [primaryIdAttribute]: plan.recordId,
+      });
+      recordId = result.id || plan.recordId;
+    } catch (err) {
+      if (!isOriginalIdRejected(err)) {
+        throw err;
+      }
+      console.warn('[RecreateService] Original ID not accepted, retrying with a new ID:', err);
+      const result = await window.dataverseAPI.create(plan.entityLogicalName, payload);
+      recordId = result.id;
+      keptOriginalId = false;
+    }
+
+    if (stateFields.length > 0) {
+      const statePayload = await buildWritePayload(plan.entityLogicalName, stateFields.map(f => ({
+        attributeName: f.attributeName,
+        attributeType: f.attributeType,
+        rawValue: f.rawValue,
+      })));
+      await window.dataverseAPI.update(plan.entityLogicalName, recordId, statePayload);
+    }
+
+    console.log('[RecreateService] Recreated', plan.entityLogicalName, recordId, 'original ID kept:', keptOriginalId);
+    return { success: true, recordId, keptOriginalId };
+  } catch (error) {
+    console.error('[RecreateService] Error recreating record:', error);
+    return {
+      success: false,
+      keptOriginalId: false,
+      error: error instanceof Error ? error.message : 'Failed to recreate record',
+    };
+  }
+}
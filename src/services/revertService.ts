@@ -0,0 +1,302 @@
+/**
+ * Audit-driven rollback: restores field values from the old values of Update audit entries
+ */
+
+import {
+  AuditLogEntry,
+  AuditOperation,
+  AttributeAuditDetail,
+  RevertFieldChange,
+  RevertRecordPlan,
+} from '../model/auditLog';
+import { BulkOperationResult } from '../model/audit';
+import { getAttributeMap, getEntityByLogicalName, getLookupRelationships } from './metadataService';
+import { loadAuditDetails } from './auditLogService';
+import { formatAuditValue } from './auditDetailParsers';
+
+// Attribute types written through @odata.bind
+const LOOKUP_TYPES = ['Lookup', 'Customer', 'Owner'];
+// Attribute types written as numbers
+const NUMERIC_TYPES = ['Picklist', 'State', 'Status', 'Money', 'Decimal', 'Double', 'Integer', 'BigInt'];
+
+// Raw value of a field to write
+export interface WriteFieldValue {
+  attributeName: string;
+  attributeType: string;
+  rawValue: unknown;
+  lookupTarget?: string;
+}
+
+/**
+ * Check whether an audit entry can be reverted (Update entries of a record)
+ */
+export function canRevertEntry(entry: AuditLogEntry): boolean {
+  return entry.operation === AuditOperation.Update && !!entry.objectId && !!entry.objectTypeCode;
+}
+
+/**
+ * Reduce a raw audit or record value to a comparable primitive
+ * Lookups become their lowercase GUID, option sets and money their numeric value
+ */
+export function normalizeRawValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value === 'object') {
+    const objValue = value as Record<string, unknown>;
+    if (objValue.Id !== undefined) {
+      return String(objValue.Id).toLowerCase();
+    }
+    if (objValue.Value !== undefined) {
+      return normalizeRawValue(objValue.Value);
+    }
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'string') {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)
+      ? value.toLowerCase()
+      : value;
+  }
+  return value as number | boolean;
+}
+
+/**
+ * Unwrap a raw audit value to the primitive that is written back
+ * Unlike normalizeRawValue, strings keep their case: text that looks like a GUID is written as audited
+ */
+function toWriteValue(value: unknown): string | number | boolean | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value === 'object') {
+    const objValue = value as Record<string, unknown>;
+    if (objValue.Id !== undefined) {
+      return String(objValue.Id);
+    }
+    if (objValue.Value !== undefined) {
+      return toWriteValue(objValue.Value);
+    }
+    return JSON.stringify(value);
+  }
+  return value as string | number | boolean;
+}
+
+function rawValuesEqual(a: unknown, b: unknown): boolean {
+  return String(normalizeRawValue(a)) === String(normalizeRawValue(b));
+}
+
+export function isLookupField(attributeType: string, detail: AttributeAuditDetail): boolean {
+  return LOOKUP_TYPES.includes(attributeType) || !!detail.oldLookupTarget;
+}
+
+async function getEntryDetails(entry: AuditLogEntry): Promise<AttributeAuditDetail[]> {
+  // Load errors propagate so the plan reports them instead of showing nothing to revert
+  const details = entry.details || await loadAuditDetails(entry.id, entry.objectTypeCode, entry);
+  return details.filter((d): d is AttributeAuditDetail => d.type === 'attribute');
+}
+
+/**
+ * Build a dry-run revert plan for the selected audit entries
+ * Entries are grouped per record. When several entries touch the same field, the value before
+ * the oldest entry is restored and the value written by the newest entry is expected on the record.
+ * Fields whose live value no longer matches the expected value are flagged as conflicts.
+ * @param entries - Update audit entries to revert
+ */
+export async function buildRevertPlan(entries: AuditLogEntry[]): Promise<RevertRecordPlan[]> {
+  console.log('[RevertService] buildRevertPlan called for', entries.length, 'entries');
+
+  const recordGroups = new Map<string, AuditLogEntry[]>();
+  for (const entry of entries.filter(canRevertEntry)) {
+    const key = `${entry.objectTypeCode}:${entry.objectId.toLowerCase()}`;
+    const group = recordGroups.get(key) || [];
+    group.push(entry);
+    recordGroups.set(key, group);
+  }
+
+  const plans: RevertRecordPlan[] = [];
+
+  for (const group of recordGroups.values()) {
+    const chronological = [...group].sort((a, b) => a.createdOn.getTime() - b.createdOn.getTime());
+    const first = chronological[0];
+    const plan: RevertRecordPlan = {
+      entityLogicalName: first.objectTypeCode,
+      recordId: first.objectId,
+      recordName: first.objectName,
+      auditIds: chronological.map(e => e.id),
+      fields: [],
+    };
+    plans.push(plan);
+
+    try {
+      const attributeMap = await getAttributeMap(plan.entityLogicalName);
+
+      // Oldest old value and newest new value per field
+      const fieldDetails = new Map<string, { restore: AttributeAuditDetail; expected: AttributeAuditDetail }>();
+      for (const entry of chronological) {
+        for (const detail of await getEntryDetails(entry)) {
+          const existing = fieldDetails.get(detail.attributeName);
+          fieldDetails.set(detail.attributeName, {
+            restore: existing ? existing.restore : detail,
+            expected: detail,
+          });
+        }
+      }
+
+      if (fieldDetails.size === 0) {
+        plan.error = 'No field changes recorded for the selected entries';
+        continue;
+      }
+
+      // Read the live values of the affected fields
+      const columns = [...fieldDetails.entries()].map(([attributeName, { restore }]) => {
+        const attributeType = attributeMap.get(attributeName)?.attributeType || '';
+        return isLookupField(attributeType, restore) ? `_${attributeName}_value` : attributeName;
+      });
+
+      let liveRecord: Record<string, unknown>;
+      try {
+        liveRecord = await window.dataverseAPI.retrieve(plan.entityLogicalName, plan.recordId, columns);
+      } catch (err) {
+        console.warn('[RevertService] Could not retrieve live record:', err);
+        plan.error = 'The record no longer exists or cannot be read';
+        continue;
+      }
+
+      for (const [attributeName, { restore, expected }] of fieldDetails) {
+        const attributeType = attributeMap.get(attributeName)?.attributeType || '';
+        const liveKey = isLookupField(attributeType, restore) ? `_${attributeName}_value` : attributeName;
+        const liveRaw = liveRecord[liveKey];
+
+        const field: RevertFieldChange = {
+          attributeName,
+          attributeDisplayName: restore.attributeDisplayName,
+          attributeType,
+          liveValue: formatAuditValue(liveRaw, liveRecord, liveKey),
+          expectedValue: expected.newValue,
+          restoreValue: restore.oldValue,
+          restoreRawValue: restore.oldRawValue,
+          restoreLookupTarget: restore.oldLookupTarget,
+          hasConflict: !rawValuesEqual(liveRaw, expected.newRawValue),
+          isAlreadyRestored: rawValuesEqual(liveRaw, restore.oldRawValue),
+        };
+        plan.fields.push(field);
+      }
+
+      plan.fields.sort((a, b) => a.attributeDisplayName.localeCompare(b.attributeDisplayName));
+    } catch (err) {
+      console.error('[RevertService] Error building revert plan:', err);
+      plan.error = err instanceof Error ? err.message : 'Failed to build revert plan';
+    }
+  }
+
+  return plans;
+}
+
+/**
+ * Get the fields of a plan that will be written
+ */
+export function getFieldsToRevert(plan: RevertRecordPlan, includeConflicts: boolean): RevertFieldChange[] {
+  return plan.fields.filter(f => !f.isAlreadyRestored && (includeConflicts || !f.hasConflict));
+}
+
+/**
+ * Build a create/update payload, converting raw audit values to the types the Web API expects
+ * Lookups are written through @odata.bind using the relationship's navigation property
+ * @param entityLogicalName - Table the payload is written to
+ * @param fields - Fields with their raw values and attribute types
+ */
+export async function buildWritePayload(
+  entityLogicalName: string,
+  fields: WriteFieldValue[]
+): Promise<Record<string, unknown>> {
+  const payload: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const value = toWriteValue(field.rawValue);
+
+    if (LOOKUP_TYPES.includes(field.attributeType) || field.lookupTarget) {
+      const relationships = (await getLookupRelationships(entityLogicalName))
+        .filter(r => r.referencingAttribute === field.attributeName);
+      if (relationships.length === 0) {
+        throw new Error(`No relationship metadata found for lookup ${field.attributeName}`);
+      }
+
+      if (value === null) {
+        // Clear every navigation property of a polymorphic lookup
+        for (const relationship of relationships) {
+          payload[`${relationship.navigationPropertyName}@odata.bind`] = null;
+        }
+        continue;
+      }
+
+      const relationship = relationships.length === 1
+        ? relationships[0]
+        : relationships.find(r => r.referencedEntity === field.lookupTarget);
+      if (!relationship) {
+        throw new Error(`Cannot determine the target table of lookup ${field.attributeName}`);
+      }
+
+      const target = await getEntityByLogicalName(relationship.referencedEntity);
+      if (!target?.entitySetName) {
+        throw new Error(`Entity set of ${relationship.referencedEntity} not found`);
+      }
+      payload[`${relationship.navigationPropertyName}@odata.bind`] = `/${target.entitySetName}(${value})`;
+    } else if (value === null) {
+      payload[field.attributeName] = null;
+    } else if (NUMERIC_TYPES.includes(field.attributeType)) {
+      payload[field.attributeName] = Number(value);
+    } else if (field.attributeType === 'Boolean') {
+      payload[field.attributeName] = value === true || String(value).toLowerCase() === 'true' || value === 1;
+    } else {
+      payload[field.attributeName] = value;
+    }
+  }
+
+  return payload;
+}
+
+/**
+ * Apply revert plans, writing one update per record
+ * @param plans - Plans built by buildRevertPlan
+ * @param includeConflicts - Also overwrite fields that changed again since the reverted entries
+ */
+export async function applyRevertPlans(
+  plans: RevertRecordPlan[],
+  includeConflicts: boolean
+): Promise<BulkOperationResult> {
+  const result: BulkOperationResult = {
+    success: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  for (const plan of plans) {
+    if (plan.error) {
+      result.failed++;
+      result.errors.push(`${plan.recordName}: ${plan.error}`);
+      continue;
+    }
+
+    const fields = getFieldsToRevert(plan, includeConflicts);
+    if (fields.length === 0) {
+      continue;
+    }
+
+    try {
+      const payload = await buildWritePayload(plan.entityLogicalName, fields.map(f => ({
+        attributeName: f.attributeName,
+        attributeType: f.attributeType,
+        rawValue: f.restoreRawValue,
+        lookupTarget: f.restoreLookupTarget,
+      })));
+      console.log('[RevertService] Reverting', plan.entityLogicalName, plan.recordId, payload);
+      await window.dataverseAPI.update(plan.entityLogicalName, plan.recordId, payload);
+      result.success++;
+    } catch (error) {
+      result.failed++;
+      result.errors.push(`${plan.recordName}: ${(error as Error).message}`);
+    }
+  }
+
+  return result;
+}
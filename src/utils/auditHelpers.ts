@@ -5,6 +5,7 @@ import {
   AuditDetail,
   AttributeAuditDetail,
   AuditDetailsResponse,
+  AttributeHistory,
 } from '../model/auditLog';
 import { AttributeOption } from '../model/metadata';
 import { getOperationLabel, getActionLabel } from './constants';
@@ -208,33 +209,72 @@ export function getOperationColor(operation: AuditOperation): 'success' | 'warni
   }
 }
 
-// Check if an audit entry has changed specific attributes
-export function hasChangedAttributes(
-  entry: AuditLogEntry,
-  selectedAttributes: string[]
-): boolean {
-  if (!entry.details || entry.details.length === 0 || selectedAttributes.length === 0) {
-    return true; // No filter applied or no details loaded
-  }
+// Check whether a change value contains the search text (case-insensitive)
+function valueContains(value: string | null | undefined, searchText: string): boolean {
+  return !!value && value.toLowerCase().includes(searchText.toLowerCase());
+}
 
-  return entry.details.some(detail => {
-    if (detail.type === 'attribute') {
-      return selectedAttributes.includes(detail.attributeName);
-    }
-    return false;
-  });
+// Get the attribute changes whose old or new value contains the search text
+export function getMatchingAttributeDetails(
+  details: AuditDetail[],
+  searchText: string
+): AttributeAuditDetail[] {
+  return details.filter((d): d is AttributeAuditDetail =>
+    d.type === 'attribute' && (
+      valueContains(d.oldValue, searchText) ||
+      valueContains(d.newValue, searchText) ||
+      valueContains(d.oldFormattedValue, searchText) ||
+      valueContains(d.newFormattedValue, searchText)
+    )
+  );
 }
 
-// Filter audit entries by selected attributes (client-side)
-export function filterByAttributes(
-  entries: AuditLogEntry[],
-  selectedAttributes: string[]
-): AuditLogEntry[] {
-  if (selectedAttributes.length === 0) {
-    return entries;
+// Check if an audit entry's change values contain the search text
+// Entries without attribute changes can't be checked here and are kept
+export function matchesSearchText(details: AuditDetail[], searchText: string): boolean {
+  if (!searchText || !details.some(d => d.type === 'attribute')) {
+    return true;
+  }
+  return getMatchingAttributeDetails(details, searchText).length > 0;
+}
+
+// Build the value progression of each attribute from a record's history entries
+// Entries may be in any order; changes are returned oldest first
+export function buildAttributeHistory(entries: AuditLogEntry[]): AttributeHistory[] {
+  const historyMap = new Map<string, AttributeHistory>();
+
+  const chronological = [...entries].sort((a, b) => a.createdOn.getTime() - b.createdOn.getTime());
+
+  for (const entry of chronological) {
+    const attributeDetails = (entry.details || []).filter(
+      (d): d is AttributeAuditDetail => d.type === 'attribute'
+    );
+
+    for (const detail of attributeDetails) {
+      let history = historyMap.get(detail.attributeName);
+      if (!history) {
+        history = {
+          attributeName: detail.attributeName,
+          attributeDisplayName: detail.attributeDisplayName,
+          changes: [],
+        };
+        historyMap.set(detail.attributeName, history);
+      }
+
+      history.changes.push({
+        auditId: entry.id,
+        changedOn: entry.createdOn,
+        changedBy: entry.userName,
+        operation: entry.operation,
+        oldValue: detail.oldFormattedValue || detail.oldValue,
+        newValue: detail.newFormattedValue || detail.newValue,
+      });
+    }
   }
 
-  return entries.filter(entry => hasChangedAttributes(entry, selectedAttributes));
+  return [...historyMap.values()].sort((a, b) =>
+    a.attributeDisplayName.localeCompare(b.attributeDisplayName)
+  );
 }
 
 // Sort audit entries
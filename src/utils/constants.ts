@@ -1,4 +1,5 @@
-import { AuditOperation, AuditAction } from '../model/auditLog';
+import { AuditOperation, AuditAction, RelativeDateOperator } from '../model/auditLog';
+import type { AuditTabType } from '../model/export';
 
 // Operation labels
 export const operationLabels: Record<AuditOperation, string> = {
@@ -97,6 +98,24 @@ export const operationOptions = [
   { value: AuditOperation.Access, label: 'Access' },
 ];
 
+// Relative date range options for the date filter
+export const relativeDateOptions: Array<{ value: RelativeDateOperator; label: string }> = [
+  { value: 'last-x-hours', label: 'Last N hours' },
+  { value: 'last-x-days', label: 'Last N days' },
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'this-week', label: 'This week' },
+  { value: 'last-week', label: 'Last week' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'this-year', label: 'This year' },
+  { value: 'last-year', label: 'Last year' },
+  { value: 'this-fiscal-period', label: 'This fiscal period' },
+  { value: 'last-fiscal-period', label: 'Last fiscal period' },
+  { value: 'this-fiscal-year', label: 'This fiscal year' },
+  { value: 'last-fiscal-year', label: 'Last fiscal year' },
+];
+
 // Common action filter options (most frequently used) - for Audit Details tab
 export const commonActionOptions = [
   { value: AuditAction.Create, label: 'Create' },
@@ -159,6 +178,86 @@ export const auditChangeActionOptions = [
   { value: AuditAction.AuditLogDeletion, label: 'Audit Log Deletion' },           // 111
 ];
 
+// Actions for Record Shares tab
+export const SHARE_ACTIONS = [
+  AuditAction.Share,       // 14 - GrantAccess
+  AuditAction.ModifyShare, // 48 - ModifyAccess
+  AuditAction.Unshare,     // 49 - RevokeAccess
+];
+
+// Actions for Security Role Changes tab
+export const ROLE_ACTIONS = [
+  AuditAction.AddPrivilegesToRole,      // 57 - Privileges added to a security role
+  AuditAction.RemovePrivilegesFromRole, // 58 - Privileges removed from a security role
+  AuditAction.ReplacePrivilegesInRole,  // 59 - Privileges for a security role replaced
+];
+
+// Actions for User Access tab (also uses operation=4)
+export const USER_ACCESS_ACTIONS = [
+  AuditAction.UserAccessViaWeb,         // 64
+  AuditAction.UserAccessViaWebServices, // 65
+  AuditAction.UserAccessAuditStarted,   // 112
+  AuditAction.UserAccessAuditStopped,   // 113
+];
+
+// Actions for Metadata Changes tab
+export const METADATA_ACTIONS = [
+  100, // Delete Entity
+  101, // Delete Attribute
+  102, // Audit Change at Entity Level
+  103, // Audit Change at Attribute Level
+  104, // Audit Change at Org Level
+];
+
+// Actions for N:N Relationships tab (Associate/Disassociate and Role assignments)
+export const RELATIONSHIP_ACTIONS = [
+  AuditAction.AssociateEntities,    // 33
+  AuditAction.DisassociateEntities, // 34
+  AuditAction.AssignRoleToTeam,     // 53
+  AuditAction.RemoveRoleFromTeam,   // 54
+  AuditAction.AssignRoleToUser,     // 55
+  AuditAction.RemoveRoleFromUser,   // 56
+];
+
+// Actions for Audit Changes tab (changes to audit settings)
+export const AUDIT_CHANGE_ACTIONS = [
+  AuditAction.EntityAuditStarted,      // 105 - Table audit enabled
+  AuditAction.AttributeAuditStarted,   // 106 - Column audit enabled
+  AuditAction.AuditEnabled,            // 107 - Org audit enabled
+  AuditAction.EntityAuditStopped,      // 108 - Table audit disabled
+  AuditAction.AttributeAuditStopped,   // 109 - Column audit disabled
+  AuditAction.AuditDisabled,           // 110 - Org audit disabled
+  AuditAction.AuditLogDeletion,        // 111 - Audit log deleted
+];
+
+// Operations for non-access tabs (Create, Update, Delete - excludes Access)
+export const NON_ACCESS_OPERATIONS = [
+  AuditOperation.Create,
+  AuditOperation.Update,
+  AuditOperation.Delete,
+];
+
+// Actions to exclude from main details tab (client-side filter, shown on their own tabs)
+export const EXCLUDED_FROM_DETAILS = [
+  ...SHARE_ACTIONS,
+  ...ROLE_ACTIONS,
+  ...USER_ACCESS_ACTIONS,
+  ...METADATA_ACTIONS,
+  ...RELATIONSHIP_ACTIONS,
+  ...AUDIT_CHANGE_ACTIONS,
+];
+
+// Operation and action filters applied by each audit tab
+export const auditTabFilters: Record<AuditTabType, { operations: AuditOperation[]; actions: AuditAction[] }> = {
+  details: { operations: NON_ACCESS_OPERATIONS, actions: [] },
+  shares: { operations: [], actions: SHARE_ACTIONS },
+  access: { operations: [], actions: USER_ACCESS_ACTIONS },
+  roles: { operations: [], actions: ROLE_ACTIONS },
+  metadata: { operations: [], actions: METADATA_ACTIONS },
+  relationships: { operations: [], actions: RELATIONSHIP_ACTIONS },
+  auditchanges: { operations: [], actions: AUDIT_CHANGE_ACTIONS },
+};
+
 // Page size options
 export const pageSizeOptions = [
   { value: 25, label: '25' },
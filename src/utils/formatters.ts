@@ -1,3 +1,7 @@
+import { AUDIT_RETENTION_FOREVER } from '../model/audit';
+import type { RelativeDateRange } from '../model/auditLog';
+import { relativeDateOptions } from './constants';
+
 // Format date for display
 export function formatDateTime(date: Date | string | null | undefined): string {
   if (!date) return '';
@@ -37,6 +41,23 @@ export function formatDateForApi(date: Date | null | undefined): string | null {
   return date.toISOString();
 }
 
+// Format a date for a datetime-local input (local time, minute precision)
+export function formatDateTimeForInput(date: Date | null | undefined): string {
+  if (!date || isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Describe a relative date range, e.g. "Last 24 hours" or "Last month"
+export function formatRelativeDateRange(range: RelativeDateRange): string {
+  if (range.operator === 'last-x-hours' || range.operator === 'last-x-days') {
+    const value = range.value ?? 1;
+    const unit = range.operator === 'last-x-hours' ? 'hour' : 'day';
+    return `Last ${value} ${unit}${value !== 1 ? 's' : ''}`;
+  }
+  return relativeDateOptions.find(o => o.value === range.operator)?.label ?? range.operator;
+}
+
 // Format value for display (handles various types)
 export function formatValue(value: any): string {
   if (value === null || value === undefined) {
@@ -89,6 +110,25 @@ export function truncateText(text: string, maxLength: number = 50): string {
   return `${text.substring(0, maxLength)}...`;
 }
 
+// Format a duration in seconds as e.g. "1h 5m", "3m 20s" or "45s"
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+}
+
+// Format an audit retention period in days; -1 keeps records forever
+export function formatRetentionPeriod(days: number | null): string {
+  if (days === null) return 'Not set';
+  if (days === AUDIT_RETENTION_FOREVER) return 'Forever';
+  return `${days.toLocaleString()} day${days !== 1 ? 's' : ''}`;
+}
+
 // Format file size
 export function formatFileSize(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
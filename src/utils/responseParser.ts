@@ -38,3 +38,44 @@ export function extractODataMetadata(response: unknown): {
     nextLink: resp['@odata.nextLink'] as string | undefined,
   };
 }
+
+// Dataverse error codes the tool branches on
+export const DataverseErrorCodes = {
+  ObjectDoesNotExist: '0x80040217',
+  InvalidArgument: '0x80040203',
+} as const;
+
+/**
+ * Get the Dataverse error code (e.g. "0x80040217") of a failed request
+ * Reads the code from the error object, or from the error body included in its message.
+ */
+export function getDataverseErrorCode(error: unknown): string | undefined {
+  if (error && typeof error === 'object') {
+    const record = error as Record<string, unknown>;
+    const nested = record.error as Record<string, unknown> | undefined;
+    const code = record.code ?? nested?.code;
+    if (typeof code === 'string' && /^0x[0-9a-f]{8}$/i.test(code)) {
+      return code.toLowerCase();
+    }
+  }
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return message.match(/\b0x[0-9a-f]{8}\b/i)?.[0].toLowerCase();
+}
+
+/**
+ * Get the HTTP status of a failed request, when the error carries one
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const record = error as Record<string, unknown>;
+  const response = record.response as Record<string, unknown> | undefined;
+  const status = record.status ?? record.statusCode ?? response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether a request failed because the record does not exist
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return getHttpStatus(error) === 404 || getDataverseErrorCode(error) === DataverseErrorCodes.ObjectDoesNotExist;
+}
@@ -0,0 +1,299 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) writer
+ *
+ * Writes inline strings, typed date cells, a bold frozen header row, an auto-filter and
+ * column widths. The parts are packed into an uncompressed ZIP, which Excel opens like any
+ * other workbook.
+ *
+ * @see https://learn.microsoft.com/en-us/office/open-xml/spreadsheet/structure-of-a-spreadsheetml-document
+ */
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  width?: number;  // In characters
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+  freezeHeader?: boolean;
+  autoFilter?: boolean;
+}
+
+// Excel rejects longer cell text and these characters in sheet names
+const MAX_CELL_LENGTH = 32767;
+const MAX_SHEET_NAME_LENGTH = 31;
+const INVALID_SHEET_NAME_CHARS = /[[\]:*?/\\]/g;
+
+// Cell style indexes in styles.xml
+const STYLE_DATE = 1;
+const STYLE_HEADER = 2;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${MAIN_NS}">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+function escapeXmlText(value: string): string {
+  return value
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Column letters for a zero-based index: 0 -> A, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+// Excel stores dates as days since 1899-12-30 in local time
+function toExcelDate(date: Date): number {
+  return (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+}
+
+function buildCell(ref: string, value: XlsxCellValue, style?: number): string {
+  const styleAttr = style ? ` s="${style}"` : '';
+
+  if (value === null || value === undefined || value === '') {
+    return style ? `<c r="${ref}"${styleAttr}/>` : '';
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${toExcelDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const text = escapeXmlText(value.length > MAX_CELL_LENGTH ? value.slice(0, MAX_CELL_LENGTH) : value);
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function buildSheetXml(sheet: XlsxSheet): string {
+  const columnCount = Math.max(sheet.columns.length, 1);
+  const lastRef = `${columnName(columnCount - 1)}${sheet.rows.length + 1}`;
+  const parts: string[] = [`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`, `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`];
+
+  if (sheet.freezeHeader) {
+    parts.push('<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>');
+  }
+
+  const widths = sheet.columns
+    .map((col, i) => (col.width ? `<col min="${i + 1}" max="${i + 1}" width="${col.width}" customWidth="1"/>` : ''))
+    .join('');
+  if (widths) {
+    parts.push(`<cols>${widths}</cols>`);
+  }
+
+  parts.push('<sheetData>');
+  parts.push(`<row r="1">${sheet.columns.map((col, i) => buildCell(`${columnName(i)}1`, col.header, STYLE_HEADER)).join('')}</row>`);
+  sheet.rows.forEach((row, rowIndex) => {
+    const r = rowIndex + 2;
+    parts.push(`<row r="${r}">${row.map((value, i) => buildCell(`${columnName(i)}${r}`, value)).join('')}</row>`);
+  });
+  parts.push('</sheetData>');
+
+  if (sheet.autoFilter) {
+    parts.push(`<autoFilter ref="A1:${lastRef}"/>`);
+  }
+
+  parts.push('</worksheet>');
+  return parts.join('');
+}
+
+// Sheet names must be unique, at most 31 characters and free of []:*?/\
+function toSheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(INVALID_SHEET_NAME_CHARS, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function buildWorkbookXml(sheets: XlsxSheet[], names: string[]): string {
+  const sheetEntries = names
+    .map((name, i) => `<sheet name="${escapeXmlText(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+    .join('');
+
+  // Excel keeps the auto-filter range as a hidden defined name
+  const filterNames = sheets
+    .map((sheet, i) => {
+      if (!sheet.autoFilter) return '';
+      const lastColumn = columnName(Math.max(sheet.columns.length, 1) - 1);
+      const quoted = `'${names[i].replace(/'/g, "''")}'`;
+      return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">${escapeXmlText(quoted)}!$A$1:$${lastColumn}$${sheet.rows.length + 1}</definedName>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>${sheetEntries}</sheets>${filterNames ? `<definedNames>${filterNames}</definedNames>` : ''}</workbook>`;
+}
+
+function buildWorkbookRelsXml(sheetCount: number): string {
+  const rels: string[] = [];
+  for (let i = 1; i <= sheetCount; i++) {
+    rels.push(`<Relationship Id="rId${i}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i}.xml"/>`);
+  }
+  rels.push(`<Relationship Id="rId${sheetCount + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>`);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels.join('')}</Relationships>`;
+}
+
+function buildContentTypesXml(sheetCount: number): string {
+  const overrides: string[] = [
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+  ];
+  for (let i = 1; i <= sheetCount; i++) {
+    overrides.push(`<Override PartName="/xl/worksheets/sheet${i}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`);
+  }
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+${overrides.join('')}</Types>`;
+}
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+// ZIP (stored, no compression)
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildZip(files: Array<{ path: string; content: string }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);  // Local file header signature
+    lv.setUint16(4, 20, true);          // Version needed
+    lv.setUint16(6, 0x0800, true);      // UTF-8 names
+    lv.setUint16(8, 0, true);           // Stored
+    lv.setUint16(10, dosTime, true);
+    lv.setUint16(12, dosDate, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);  // Central directory header signature
+    cv.setUint16(4, 20, true);          // Version made by
+    cv.setUint16(6, 20, true);          // Version needed
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, dosTime, true);
+    cv.setUint16(14, dosDate, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);     // Offset of the local header
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);    // End of central directory signature
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+/**
+ * Build an XLSX workbook from one or more sheets
+ */
+export function buildXlsxWorkbook(sheets: XlsxSheet[]): Uint8Array {
+  const names = toSheetNames(sheets);
+  return buildZip([
+    { path: '[Content_Types].xml', content: buildContentTypesXml(sheets.length) },
+    { path: '_rels/.rels', content: ROOT_RELS_XML },
+    { path: 'xl/workbook.xml', content: buildWorkbookXml(sheets, names) },
+    { path: 'xl/_rels/workbook.xml.rels', content: buildWorkbookRelsXml(sheets.length) },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: buildSheetXml(sheet) })),
+  ]);
+}